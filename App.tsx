@@ -5,27 +5,64 @@ import AnalysisDashboard from './pages/AnalysisDashboard';
 import VendorsDashboard from './pages/VendorsDashboard';
 import SummaryDashboard from './pages/SummaryDashboard';
 import ItemsDashboard from './pages/ItemsDashboard';
+import ActivityLog from './pages/ActivityLog';
+import InventoryDashboard from './pages/InventoryDashboard';
+import RecipesDashboard from './pages/RecipesDashboard';
 import LoginPage from './pages/LoginPage';
+import ConflictReviewModal from './components/modals/ConflictReviewModal';
 import { ToastProvider } from './components/common/Toast';
 import { useTheme } from './hooks/useTheme';
+import { useUndoRedoShortcuts } from './hooks/useUndoRedo';
 import { useShoppingStore } from './store/useShoppingStore';
 import { t } from './translations';
 import { logoSvg } from './assets/logo';
 
-type View = 'dashboard' | 'list' | 'analysis' | 'vendors' | 'summary' | 'items';
+type View = 'dashboard' | 'list' | 'analysis' | 'vendors' | 'summary' | 'items' | 'inventory' | 'recipes' | 'activity';
+
+const LoadingScreen: React.FC = () => (
+  <div className="flex flex-col items-center justify-center min-h-screen text-center">
+      <div className="w-20 h-20 mb-4" dangerouslySetInnerHTML={{ __html: logoSvg }} />
+      <h2 className="text-xl font-semibold text-primary">{t.loadingData}</h2>
+      <p className="text-secondary">{t.syncingData}</p>
+  </div>
+);
+
+// Rendered inside the ToastProvider, which the shortcuts use to report what they did.
+const UndoRedoShortcuts: React.FC = () => {
+  useUndoRedoShortcuts();
+  return null;
+};
 
 const App: React.FC = () => {
   const [view, setView] = useState<View>('dashboard');
   const [activeListId, setActiveListId] = useState<string | null>(null);
-  const { currentUser, login, logout, hydrateFromCloud, isHydrating } = useShoppingStore();
+  const { currentUser, isRestoringSession, restoreSession, login, logout, hydrateFromCloud, syncPendingChanges, isHydrating, syncConflict, resolveSyncConflict } = useShoppingStore();
   useTheme();
 
+  useEffect(() => {
+    restoreSession();
+  }, [restoreSession]);
+
   useEffect(() => {
     if (currentUser) {
       hydrateFromCloud();
     }
   }, [currentUser, hydrateFromCloud]);
 
+  // Replay edits queued while offline as soon as the connection returns, and retry periodically.
+  useEffect(() => {
+    if (!currentUser) return;
+    const handleOnline = () => { syncPendingChanges(); };
+    window.addEventListener('online', handleOnline);
+    const retryTimer = window.setInterval(() => {
+      if (navigator.onLine) syncPendingChanges();
+    }, 30000);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      clearInterval(retryTimer);
+    };
+  }, [currentUser, syncPendingChanges]);
+
 
   const handleSelectList = (listId: string) => {
     setActiveListId(listId);
@@ -48,13 +85,7 @@ const App: React.FC = () => {
 
   const renderView = () => {
     if (isHydrating) {
-      return (
-        <div className="flex flex-col items-center justify-center min-h-screen text-center">
-            <div className="w-20 h-20 mb-4" dangerouslySetInnerHTML={{ __html: logoSvg }} />
-            <h2 className="text-xl font-semibold text-primary">{t.loadingData}</h2>
-            <p className="text-secondary">{t.syncingData}</p>
-        </div>
-      );
+      return <LoadingScreen />;
     }
 
     switch (view) {
@@ -72,8 +103,14 @@ const App: React.FC = () => {
         return <VendorsDashboard onBack={() => handleNavigate('dashboard')} {...commonProps} />;
       case 'items':
         return <ItemsDashboard onBack={() => handleNavigate('dashboard')} {...commonProps} />;
+      case 'inventory':
+        return <InventoryDashboard onBack={() => handleNavigate('dashboard')} {...commonProps} />;
+      case 'recipes':
+        return <RecipesDashboard onBack={() => handleNavigate('dashboard')} {...commonProps} />;
       case 'summary':
         return <SummaryDashboard onBack={() => handleNavigate('dashboard')} {...commonProps} />;
+      case 'activity':
+        return <ActivityLog onBack={() => handleNavigate('dashboard')} {...commonProps} />;
       case 'dashboard':
       default:
         return (
@@ -82,7 +119,10 @@ const App: React.FC = () => {
             onViewAnalysis={() => handleNavigate('analysis')}
             onViewVendors={() => handleNavigate('vendors')}
             onViewItems={() => handleNavigate('items')}
+            onViewInventory={() => handleNavigate('inventory')}
+            onViewRecipes={() => handleNavigate('recipes')}
             onViewSummary={() => handleNavigate('summary')}
+            onViewActivity={() => handleNavigate('activity')}
             {...commonProps}
           />
         );
@@ -93,7 +133,7 @@ const App: React.FC = () => {
     return (
       <ToastProvider>
         <div className="min-h-screen bg-background text-primary font-sans">
-          <LoginPage onLogin={login} />
+          {isRestoringSession ? <LoadingScreen /> : <LoginPage onLogin={login} />}
         </div>
       </ToastProvider>
     );
@@ -101,8 +141,10 @@ const App: React.FC = () => {
 
   return (
     <ToastProvider>
+      <UndoRedoShortcuts />
       <div className="min-h-screen bg-background text-primary font-sans">
         {renderView()}
+        {syncConflict && <ConflictReviewModal conflicts={syncConflict.conflicts} onResolve={resolveSyncConflict} />}
       </div>
     </ToastProvider>
   );
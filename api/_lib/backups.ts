@@ -0,0 +1,68 @@
+// /api/_lib/backups.ts
+import { StorageAdapter, StoredDocument, SnapshotMeta, SnapshotReason } from './storage/index.js';
+
+// How many snapshots of each kind are kept; older ones are pruned when a new one is taken.
+const RETENTION: Record<SnapshotReason, number> = {
+  daily: 14,
+  'pre-import': 10,
+  'pre-restore': 10,
+  manual: 20,
+};
+
+// Days are counted in the cafe's time zone, not UTC.
+const cafeDay = (date: Date): string => date.toLocaleDateString('en-CA', { timeZone: 'Asia/Tehran' });
+
+const countContents = (content: string): { listCount: number; itemCount: number } => {
+  try {
+    const data = JSON.parse(content);
+    const lists: Array<{ items?: unknown } | null> = Array.isArray(data?.lists) ? data.lists : [];
+    return {
+      listCount: lists.length,
+      itemCount: lists.reduce((sum, list) => sum + (Array.isArray(list?.items) ? list.items.length : 0), 0),
+    };
+  } catch {
+    return { listCount: 0, itemCount: 0 };
+  }
+};
+
+const pruneSnapshots = async (storage: StorageAdapter): Promise<void> => {
+  const all = await storage.snapshots.list();
+  const expired = (Object.keys(RETENTION) as SnapshotReason[]).flatMap(reason =>
+    all
+      .filter(s => s.reason === reason)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(RETENTION[reason])
+      .map(s => s.id)
+  );
+  await storage.snapshots.remove(expired);
+};
+
+export const createSnapshot = async (storage: StorageAdapter, document: StoredDocument, reason: SnapshotReason): Promise<SnapshotMeta> => {
+  const now = new Date();
+  const meta: SnapshotMeta = {
+    id: `snap-${now.getTime()}-${Math.random().toString(36).slice(2, 6)}`,
+    createdAt: now.toISOString(),
+    reason,
+    revision: document.revision,
+    ...countContents(document.content),
+  };
+  await storage.snapshots.save(meta, document.content);
+  await pruneSnapshots(storage);
+  return meta;
+};
+
+// Takes the first snapshot of the day, capturing the data as it was before today's first save.
+export const ensureDailySnapshot = async (storage: StorageAdapter): Promise<void> => {
+  if (!storage.supportsSnapshots()) {
+    return;
+  }
+  const today = cafeDay(new Date());
+  const existing = await storage.snapshots.list();
+  if (existing.some(s => s.reason === 'daily' && cafeDay(new Date(s.createdAt)) === today)) {
+    return;
+  }
+  const current = await storage.read();
+  if (current) {
+    await createSnapshot(storage, current, 'daily');
+  }
+};
@@ -0,0 +1,107 @@
+// /api/_lib/session.ts
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { UserRole } from '../../types';
+
+// Sessions are stateless: the cookie holds the user and an expiry, signed with
+// SESSION_SECRET so it cannot be forged or extended by the client.
+const SESSION_COOKIE = 'mc_session';
+const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export interface SessionUser {
+  id: string;
+  username: string;
+  role: UserRole;
+}
+
+interface SessionPayload extends SessionUser {
+  exp: number; // Unix time in seconds
+}
+
+const getSecret = (): string => {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error("Server configuration error: SESSION_SECRET must be set to at least 32 characters.");
+  }
+  return secret;
+};
+
+const sign = (data: string): string => createHmac('sha256', getSecret()).update(data).digest('base64url');
+
+export const createSessionToken = (user: SessionUser): string => {
+  const payload: SessionPayload = { id: user.id, username: user.username, role: user.role, exp: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS };
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${data}.${sign(data)}`;
+};
+
+// Returns the session user, or null if the token is malformed, tampered with or expired.
+export const verifySessionToken = (token: string): SessionUser | null => {
+  const [data, signature] = token.split('.');
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload: SessionPayload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+    // Tokens issued before roles existed carry no role and must be renewed by logging in again.
+    if (typeof payload.exp !== 'number' || payload.exp * 1000 < Date.now() || !payload.role) return null;
+    return { id: payload.id, username: payload.username, role: payload.role };
+  } catch {
+    return null;
+  }
+};
+
+const readCookie = (req: VercelRequest, name: string): string | null => {
+  const header = req.headers.cookie;
+  if (!header) return null;
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(rest.join('='));
+  }
+  return null;
+};
+
+// Browsers only drop Secure cookies over plain http on non-local hosts, so local dev keeps working.
+const isLocalRequest = (req: VercelRequest): boolean => /^(localhost|127\.0\.0\.1)(:\d+)?$/.test(req.headers.host || '');
+
+const buildCookie = (req: VercelRequest, value: string, maxAge: number): string => [
+  `${SESSION_COOKIE}=${value}`,
+  'Path=/',
+  'HttpOnly',
+  'SameSite=Lax',
+  `Max-Age=${maxAge}`,
+  ...(isLocalRequest(req) ? [] : ['Secure']),
+].join('; ');
+
+export const setSessionCookie = (req: VercelRequest, res: VercelResponse, user: SessionUser): void => {
+  res.setHeader('Set-Cookie', buildCookie(req, createSessionToken(user), SESSION_TTL_SECONDS));
+};
+
+export const clearSessionCookie = (req: VercelRequest, res: VercelResponse): void => {
+  res.setHeader('Set-Cookie', buildCookie(req, '', 0));
+};
+
+export const getSessionUser = (req: VercelRequest): SessionUser | null => {
+  const token = readCookie(req, SESSION_COOKIE);
+  return token ? verifySessionToken(token) : null;
+};
+
+// Guard for protected routes: responds with 401 (or 500 if sessions are not configured)
+// and returns null when the request has no valid session.
+export const requireSession = (req: VercelRequest, res: VercelResponse): SessionUser | null => {
+  let user: SessionUser | null;
+  try {
+    user = getSessionUser(req);
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: "Server configuration error." });
+    return null;
+  }
+  if (!user) {
+    res.status(401).json({ error: "Authentication required." });
+    return null;
+  }
+  return user;
+};
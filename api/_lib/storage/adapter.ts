@@ -0,0 +1,65 @@
+// /api/_lib/storage/adapter.ts
+import { createHash } from 'crypto';
+
+// The name of the stored data document, shared by every backend.
+export const DOCUMENT_NAME = 'mehrnoosh_cafe_db.json';
+
+export interface StoredDocument {
+  content: string;
+  revision: string;
+}
+
+export type SnapshotReason = 'daily' | 'pre-import' | 'pre-restore' | 'manual';
+
+export interface SnapshotMeta {
+  id: string;
+  createdAt: string;
+  reason: SnapshotReason;
+  revision: string; // Revision of the data document the snapshot was taken from
+  listCount: number;
+  itemCount: number;
+}
+
+// Point-in-time copies of the data document. Retention is handled by api/_lib/backups.
+export interface SnapshotStore {
+  list(): Promise<SnapshotMeta[]>;
+  read(id: string): Promise<string | null>;
+  save(meta: SnapshotMeta, content: string): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+}
+
+// Contract every storage backend implements. Revisions are content hashes, so a
+// client can switch backends (e.g. export from the Gist, self-host on SQLite)
+// without its sync state becoming meaningless.
+export interface StorageAdapter {
+  readonly name: string;
+  // Resolves with null when nothing has been stored yet.
+  read(): Promise<StoredDocument | null>;
+  // Stores `content` only if the current revision is still `baseRevision` (null when
+  // nothing is stored yet) and resolves with the new revision. Otherwise rejects
+  // with a RevisionConflictError carrying the current document.
+  write(content: string, baseRevision: string | null): Promise<string>;
+  readonly snapshots: SnapshotStore;
+  // False when the backend is configured without a place to keep snapshots; they are then skipped.
+  supportsSnapshots(): boolean;
+}
+
+export class RevisionConflictError extends Error {
+  current: StoredDocument | null;
+
+  constructor(current: StoredDocument | null) {
+    super("Conflict: the data was modified by another device.");
+    this.name = 'RevisionConflictError';
+    this.current = current;
+  }
+}
+
+// Thrown when the selected backend is missing required environment variables.
+export class StorageConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageConfigError';
+  }
+}
+
+export const computeRevision = (content: string): string => createHash('sha256').update(content).digest('hex');
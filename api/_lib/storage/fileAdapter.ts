@@ -0,0 +1,77 @@
+// /api/_lib/storage/fileAdapter.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import { StorageAdapter, StoredDocument, SnapshotStore, SnapshotMeta, RevisionConflictError, DOCUMENT_NAME, computeRevision } from './adapter.js';
+
+// Writes are serialized within the process; the file backend is meant for a single
+// server (`vercel dev`, or a self-hosted back-office machine).
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = writeQueue.catch(() => {}).then(task);
+  writeQueue = run;
+  return run;
+};
+
+const readFileOrNull = async (filePath: string): Promise<string | null> => {
+  try {
+    return await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+};
+
+// Write to a temporary file first so a crash never leaves a half-written file.
+const writeFileAtomic = async (filePath: string, content: string): Promise<void> => {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, content, 'utf8');
+  await fs.rename(tempPath, filePath);
+};
+
+export const createFileAdapter = (): StorageAdapter => {
+  const dataDir = process.env.DATA_DIR || path.join(process.cwd(), 'data');
+  const filePath = path.join(dataDir, DOCUMENT_NAME);
+  const backupsDir = path.join(dataDir, 'backups');
+  const manifestPath = path.join(backupsDir, 'index.json');
+  const snapshotPath = (id: string) => path.join(backupsDir, `${path.basename(id)}.json`);
+
+  const read = async (): Promise<StoredDocument | null> => {
+    const content = await readFileOrNull(filePath);
+    return content === null ? null : { content, revision: computeRevision(content) };
+  };
+
+  const write = (content: string, baseRevision: string | null): Promise<string> => serialize(async () => {
+    const current = await read();
+    if ((current?.revision ?? null) !== baseRevision) {
+      throw new RevisionConflictError(current);
+    }
+    await writeFileAtomic(filePath, content);
+    return computeRevision(content);
+  });
+
+  const readManifest = async (): Promise<SnapshotMeta[]> => {
+    const content = await readFileOrNull(manifestPath);
+    return content ? JSON.parse(content) : [];
+  };
+
+  const snapshots: SnapshotStore = {
+    list: readManifest,
+    read: (id) => readFileOrNull(snapshotPath(id)),
+    save: (meta, content) => serialize(async () => {
+      await writeFileAtomic(snapshotPath(meta.id), content);
+      await writeFileAtomic(manifestPath, JSON.stringify([...await readManifest(), meta], null, 2));
+    }),
+    remove: (ids) => serialize(async () => {
+      if (ids.length === 0) return;
+      await Promise.all(ids.map(id => fs.rm(snapshotPath(id), { force: true })));
+      const manifest = await readManifest();
+      await writeFileAtomic(manifestPath, JSON.stringify(manifest.filter(m => !ids.includes(m.id)), null, 2));
+    }),
+  };
+
+  return { name: 'file', read, write, snapshots, supportsSnapshots: () => true };
+};
@@ -0,0 +1,121 @@
+// /api/_lib/storage/gistAdapter.ts
+import { StorageAdapter, StoredDocument, SnapshotStore, SnapshotMeta, RevisionConflictError, StorageConfigError, DOCUMENT_NAME, computeRevision } from './adapter.js';
+
+// The snapshot manifest is small and sits next to the data file. The snapshots themselves are
+// full copies of the data, so they go in a gist of their own: every read of a gist downloads
+// all of its files, and the data gist is read on every load and save.
+const SNAPSHOT_MANIFEST = 'mehrnoosh_cafe_backups.json';
+const snapshotFileName = (id: string) => `backup_${id}.json`;
+
+interface GistFile {
+  content: string;
+  truncated?: boolean;
+  raw_url?: string;
+}
+
+export const createGistAdapter = (): StorageAdapter => {
+  const GIST_ID = process.env.GIST_ID;
+  const BACKUP_GIST_ID = process.env.BACKUP_GIST_ID;
+  const GITHUB_TOKEN = process.env.GITHUB_TOKEN;
+  if (!GIST_ID || !GITHUB_TOKEN) {
+    throw new StorageConfigError("Server configuration error: Gist credentials not set.");
+  }
+
+  const headers = {
+    'Accept': 'application/vnd.github.v3+json',
+    'Authorization': `Bearer ${GITHUB_TOKEN}`,
+    'X-GitHub-Api-Version': '2022-11-28',
+  };
+
+  const fetchFiles = async (gistId: string): Promise<Record<string, GistFile>> => {
+    const gistResponse = await fetch(`https://api.github.com/gists/${gistId}`, { method: 'GET', headers });
+
+    if (!gistResponse.ok) {
+      throw new Error(`GitHub API error: ${gistResponse.status} ${gistResponse.statusText}`);
+    }
+
+    const gistData = await gistResponse.json();
+    return gistData.files || {};
+  };
+
+  // The gist API cuts file contents off at about a megabyte; the rest is only at the raw URL.
+  const contentOf = async (file: GistFile): Promise<string> => {
+    if (!file.truncated || !file.raw_url) return file.content;
+    const rawResponse = await fetch(file.raw_url, { headers: { 'Authorization': headers.Authorization } });
+    if (!rawResponse.ok) {
+      throw new Error(`GitHub API error on raw file: ${rawResponse.status} ${rawResponse.statusText}`);
+    }
+    return rawResponse.text();
+  };
+
+  // A null content deletes the file from the gist.
+  const patchFiles = async (gistId: string, files: Record<string, { content: string } | null>): Promise<void> => {
+    const patchResponse = await fetch(`https://api.github.com/gists/${gistId}`, {
+      method: 'PATCH',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ files }),
+    });
+
+    if (!patchResponse.ok) {
+      const errorBody = await patchResponse.text();
+      throw new Error(`GitHub API error on PATCH: ${patchResponse.status} ${patchResponse.statusText} - ${errorBody}`);
+    }
+  };
+
+  const read = async (): Promise<StoredDocument | null> => {
+    const file = (await fetchFiles(GIST_ID))[DOCUMENT_NAME];
+    if (!file) {
+      return null;
+    }
+    const content = await contentOf(file);
+    return { content, revision: computeRevision(content) };
+  };
+
+  const write = async (content: string, baseRevision: string | null): Promise<string> => {
+    // The Gist API has no conditional PATCH, so a narrow race between this read
+    // and the write below remains possible.
+    const current = await read();
+    if ((current?.revision ?? null) !== baseRevision) {
+      throw new RevisionConflictError(current);
+    }
+
+    await patchFiles(GIST_ID, { [DOCUMENT_NAME]: { content } });
+    return computeRevision(content);
+  };
+
+  const readManifest = async (): Promise<SnapshotMeta[]> => {
+    const manifest = (await fetchFiles(GIST_ID))[SNAPSHOT_MANIFEST];
+    return manifest ? JSON.parse(await contentOf(manifest)) : [];
+  };
+  const writeManifest = (manifest: SnapshotMeta[]) =>
+    patchFiles(GIST_ID, { [SNAPSHOT_MANIFEST]: { content: JSON.stringify(manifest, null, 2) } });
+
+  const backupGistId = (): string => {
+    if (!BACKUP_GIST_ID) {
+      throw new StorageConfigError("Server configuration error: BACKUP_GIST_ID is not set, so backups cannot be stored.");
+    }
+    return BACKUP_GIST_ID;
+  };
+
+  const snapshots: SnapshotStore = {
+    list: readManifest,
+    read: async (id) => {
+      const file = (await fetchFiles(backupGistId()))[snapshotFileName(id)];
+      return file ? contentOf(file) : null;
+    },
+    // The snapshot is stored before it is listed, so the manifest never names a missing file.
+    save: async (meta, content) => {
+      await patchFiles(backupGistId(), { [snapshotFileName(meta.id)]: { content } });
+      await writeManifest([...await readManifest(), meta]);
+    },
+    remove: async (ids) => {
+      if (ids.length === 0) return;
+      await writeManifest((await readManifest()).filter(m => !ids.includes(m.id)));
+      const files: Record<string, null> = {};
+      ids.forEach(id => { files[snapshotFileName(id)] = null; });
+      await patchFiles(backupGistId(), files);
+    },
+  };
+
+  return { name: 'gist', read, write, snapshots, supportsSnapshots: () => !!BACKUP_GIST_ID };
+};
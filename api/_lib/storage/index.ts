@@ -0,0 +1,23 @@
+// /api/_lib/storage/index.ts
+import { StorageAdapter, StorageConfigError } from './adapter.js';
+import { createGistAdapter } from './gistAdapter.js';
+import { createFileAdapter } from './fileAdapter.js';
+import { createSqliteAdapter } from './sqliteAdapter.js';
+
+export * from './adapter.js';
+
+const ADAPTERS: Record<string, () => StorageAdapter> = {
+  gist: createGistAdapter,
+  file: createFileAdapter,
+  sqlite: createSqliteAdapter,
+};
+
+// Picks the backend from STORAGE_BACKEND ('gist' by default, 'file' or 'sqlite').
+export const getStorageAdapter = (): StorageAdapter => {
+  const backend = (process.env.STORAGE_BACKEND || 'gist').toLowerCase();
+  const create = ADAPTERS[backend];
+  if (!create) {
+    throw new StorageConfigError(`Server configuration error: unknown STORAGE_BACKEND '${backend}'. Use one of: ${Object.keys(ADAPTERS).join(', ')}.`);
+  }
+  return create();
+};
@@ -0,0 +1,103 @@
+// /api/_lib/storage/sqliteAdapter.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { DatabaseSync } from 'node:sqlite';
+import { StorageAdapter, StoredDocument, SnapshotStore, SnapshotMeta, SnapshotReason, RevisionConflictError, StorageConfigError, DOCUMENT_NAME, computeRevision } from './adapter.js';
+
+let dbPromise: Promise<DatabaseSync> | null = null;
+
+const openDatabase = (dbPath: string): Promise<DatabaseSync> => {
+  if (!dbPromise) {
+    dbPromise = (async () => {
+      // Loaded lazily: `node:sqlite` only exists on Node 22.5+, and the other backends must keep working without it.
+      let sqlite: typeof import('node:sqlite');
+      try {
+        sqlite = await import('node:sqlite');
+      } catch {
+        throw new StorageConfigError("Server configuration error: the SQLite backend requires Node.js 22.5 or newer.");
+      }
+      await fs.mkdir(path.dirname(dbPath), { recursive: true });
+      const db = new sqlite.DatabaseSync(dbPath);
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS documents (
+          name TEXT PRIMARY KEY,
+          content TEXT NOT NULL,
+          revision TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS snapshots (
+          id TEXT PRIMARY KEY,
+          created_at TEXT NOT NULL,
+          reason TEXT NOT NULL,
+          revision TEXT NOT NULL,
+          list_count INTEGER NOT NULL,
+          item_count INTEGER NOT NULL,
+          content TEXT NOT NULL
+        );
+      `);
+      return db;
+    })();
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const createSqliteAdapter = (): StorageAdapter => {
+  const dbPath = process.env.SQLITE_PATH || path.join(process.cwd(), 'data', 'mehrnoosh_cafe.db');
+
+  const read = async (): Promise<StoredDocument | null> => {
+    const db = await openDatabase(dbPath);
+    const row = db.prepare('SELECT content, revision FROM documents WHERE name = ?').get(DOCUMENT_NAME);
+    return row ? { content: String(row.content), revision: String(row.revision) } : null;
+  };
+
+  const write = async (content: string, baseRevision: string | null): Promise<string> => {
+    const db = await openDatabase(dbPath);
+    const revision = computeRevision(content);
+    const now = new Date().toISOString();
+
+    // The revision check and the write happen in one statement, so concurrent writers cannot both succeed.
+    const result = baseRevision === null
+      ? db.prepare('INSERT INTO documents (name, content, revision, updated_at) VALUES (?, ?, ?, ?) ON CONFLICT(name) DO NOTHING')
+          .run(DOCUMENT_NAME, content, revision, now)
+      : db.prepare('UPDATE documents SET content = ?, revision = ?, updated_at = ? WHERE name = ? AND revision = ?')
+          .run(content, revision, now, DOCUMENT_NAME, baseRevision);
+
+    if (Number(result.changes) === 0) {
+      throw new RevisionConflictError(await read());
+    }
+    return revision;
+  };
+
+  const snapshots: SnapshotStore = {
+    list: async () => {
+      const db = await openDatabase(dbPath);
+      const rows = db.prepare('SELECT id, created_at, reason, revision, list_count, item_count FROM snapshots ORDER BY created_at').all();
+      return rows.map((row): SnapshotMeta => ({
+        id: String(row.id),
+        createdAt: String(row.created_at),
+        reason: String(row.reason) as SnapshotReason,
+        revision: String(row.revision),
+        listCount: Number(row.list_count),
+        itemCount: Number(row.item_count),
+      }));
+    },
+    read: async (id) => {
+      const db = await openDatabase(dbPath);
+      const row = db.prepare('SELECT content FROM snapshots WHERE id = ?').get(id);
+      return row ? String(row.content) : null;
+    },
+    save: async (meta, content) => {
+      const db = await openDatabase(dbPath);
+      db.prepare('INSERT INTO snapshots (id, created_at, reason, revision, list_count, item_count, content) VALUES (?, ?, ?, ?, ?, ?, ?)')
+        .run(meta.id, meta.createdAt, meta.reason, meta.revision, meta.listCount, meta.itemCount, content);
+    },
+    remove: async (ids) => {
+      const db = await openDatabase(dbPath);
+      const statement = db.prepare('DELETE FROM snapshots WHERE id = ?');
+      ids.forEach(id => statement.run(id));
+    },
+  };
+
+  return { name: 'sqlite', read, write, snapshots, supportsSnapshots: () => true };
+};
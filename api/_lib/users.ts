@@ -0,0 +1,76 @@
+// /api/_lib/users.ts
+import { createHash, scryptSync, timingSafeEqual } from 'crypto';
+import type { UserRole } from '../../types';
+import type { SessionUser } from './session.js';
+
+const ROLES: UserRole[] = ['owner', 'buyer', 'accountant'];
+
+interface ConfiguredUser extends SessionUser {
+  passwordHash: string; // "scrypt$<salt>$<hex hash>"
+}
+
+type UserEntry = Omit<ConfiguredUser, 'id'>;
+
+const isRole = (value: unknown): value is UserRole => ROLES.some(role => role === value);
+
+const isUserEntry = (entry: unknown): entry is UserEntry =>
+  typeof entry === 'object' && entry !== null
+  && 'username' in entry && typeof entry.username === 'string' && entry.username !== ''
+  && 'passwordHash' in entry && typeof entry.passwordHash === 'string'
+  && 'role' in entry && isRole(entry.role);
+
+// Users come from APP_USERS, a JSON array of { username, role, passwordHash }.
+// The older single APP_USER/APP_PASSWORD pair still works and logs in as an owner.
+const loadUsers = (): ConfiguredUser[] => {
+  const configured = process.env.APP_USERS;
+  if (configured) {
+    const parsed = JSON.parse(configured);
+    if (!Array.isArray(parsed)) {
+      throw new Error("Server configuration error: APP_USERS must be a JSON array.");
+    }
+    return parsed.map((entry: unknown, index) => {
+      if (!isUserEntry(entry)) {
+        throw new Error(`Server configuration error: APP_USERS entry ${index + 1} needs a username, a passwordHash and a role of ${ROLES.join(', ')}.`);
+      }
+      return { id: `user-${entry.username.toLowerCase()}`, username: entry.username, role: entry.role, passwordHash: entry.passwordHash };
+    });
+  }
+
+  const appUser = process.env.APP_USER;
+  const appPassword = process.env.APP_PASSWORD;
+  if (appUser && appPassword) {
+    return [{ id: 'user-1', username: appUser, role: 'owner', passwordHash: `plain$${appPassword}` }];
+  }
+
+  throw new Error("Server configuration error: set APP_USERS (or APP_USER and APP_PASSWORD).");
+};
+
+// Compares digests so the comparison takes the same time whatever the input lengths.
+const safeEqual = (a: Buffer | string, b: Buffer | string): boolean =>
+  timingSafeEqual(createHash('sha256').update(a).digest(), createHash('sha256').update(b).digest());
+
+const verifyPassword = (password: string, passwordHash: string): boolean => {
+  const [scheme, ...parts] = passwordHash.split('$');
+  if (scheme === 'scrypt' && parts.length === 2) {
+    const [salt, expected] = parts;
+    return safeEqual(scryptSync(password, salt, 64), Buffer.from(expected, 'hex'));
+  }
+  if (scheme === 'plain') {
+    return safeEqual(password, parts.join('$'));
+  }
+  return false;
+};
+
+// Resolves the user for a username/password pair, or null if they do not match.
+// Throws when the users are not configured correctly.
+export const authenticate = (username: unknown, password: unknown): SessionUser | null => {
+  const users = loadUsers();
+  if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+    return null;
+  }
+  const user = users.find(u => u.username.toLowerCase() === username.toLowerCase());
+  if (!user || !verifyPassword(password, user.passwordHash)) {
+    return null;
+  }
+  return { id: user.id, username: user.username, role: user.role };
+};
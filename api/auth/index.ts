@@ -0,0 +1,41 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getSessionUser, setSessionCookie } from '../_lib/session.js';
+import { authenticate } from '../_lib/users.js';
+
+// POST logs in and issues the session cookie; GET returns the user of the current session.
+export default function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method === 'GET') {
+    try {
+      const user = getSessionUser(req);
+      if (!user) {
+        return res.status(401).json({ error: 'Not logged in' });
+      }
+      return res.status(200).json(user);
+    } catch (error) {
+      console.error(error);
+      return res.status(500).json({ error: "Server configuration error." });
+    }
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { username, password } = req.body;
+
+  try {
+    // Users and their roles should be set as Environment Variables in your Vercel project settings.
+    const user = authenticate(username, password);
+    if (!user) {
+      // Authentication failed
+      return res.status(401).json({ error: 'Invalid username or password' });
+    }
+    // Authentication successful: issue a signed session cookie and send back the user object.
+    setSessionCookie(req, res, user);
+    return res.status(200).json(user);
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json({ error: "Server configuration error." });
+  }
+}
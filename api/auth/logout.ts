@@ -0,0 +1,13 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { clearSessionCookie } from '../_lib/session.js';
+
+export default function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  // Sessions are stateless, so logging out just removes the cookie from the browser.
+  clearSessionCookie(req, res);
+  return res.status(200).json({ success: true });
+}
@@ -0,0 +1,114 @@
+// /api/backups.ts
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getStorageAdapter, RevisionConflictError, StorageConfigError, SnapshotReason } from './_lib/storage/index.js';
+import { createSnapshot } from './_lib/backups.js';
+import { requireSession } from './_lib/session.js';
+import { can } from '../lib/permissions.js';
+
+// Reasons a client may request a snapshot for; the others are taken by the server itself.
+const CLIENT_REASONS: SnapshotReason[] = ['manual', 'pre-import'];
+
+// This function will be deployed as a Vercel Serverless Function.
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse,
+) {
+  const user = requireSession(req, res);
+  if (!user) return;
+
+  try {
+    const storage = getStorageAdapter();
+
+    if (req.method === 'GET') {
+      const { id } = req.query;
+      if (!storage.supportsSnapshots()) {
+        return typeof id === 'string'
+          ? res.status(404).json({ error: "Backup not found." })
+          : res.status(200).json({ snapshots: [], configured: false });
+      }
+      const snapshots = await storage.snapshots.list();
+
+      if (typeof id === 'string') {
+        const meta = snapshots.find(s => s.id === id);
+        const content = meta ? await storage.snapshots.read(id) : null;
+        if (!meta || content === null) {
+          return res.status(404).json({ error: "Backup not found." });
+        }
+        return res.status(200).json({ snapshot: meta, content });
+      }
+
+      // Newest first.
+      return res.status(200).json({ snapshots: [...snapshots].sort((a, b) => b.createdAt.localeCompare(a.createdAt)), configured: true });
+
+    } else if (req.method === 'POST') {
+      const { action, payload } = req.body;
+
+      switch (action) {
+        case 'create': {
+          const reason: SnapshotReason = payload?.reason ?? 'manual';
+          if (!CLIENT_REASONS.includes(reason)) {
+            return res.status(400).json({ error: `Invalid backup reason '${reason}'.` });
+          }
+          if (reason === 'pre-import' && !can(user, 'data:import')) {
+            return res.status(403).json({ error: "Your role is not allowed to import data." });
+          }
+          // Each manual backup prunes the oldest one, so only those who can restore them may take them.
+          if (reason === 'manual' && !can(user, 'backup:restore')) {
+            return res.status(403).json({ error: "Your role is not allowed to create backups." });
+          }
+          if (!storage.supportsSnapshots()) {
+            // An import goes ahead without its backup; asking for one by hand is an error.
+            if (reason === 'pre-import') return res.status(200).json({ snapshot: null });
+            return res.status(409).json({ error: "Backups are not configured on this server." });
+          }
+          const current = await storage.read();
+          if (!current) {
+            // Nothing has been saved yet, so there is nothing to back up.
+            return res.status(200).json({ snapshot: null });
+          }
+          const snapshot = await createSnapshot(storage, current, reason);
+          return res.status(200).json({ snapshot });
+        }
+
+        case 'restore': {
+          if (!can(user, 'backup:restore')) {
+            return res.status(403).json({ error: "Your role is not allowed to restore backups." });
+          }
+          const id = payload?.id;
+          if (typeof id !== 'string') {
+            return res.status(400).json({ error: "Payload must contain the backup 'id'." });
+          }
+          const content = storage.supportsSnapshots() ? await storage.snapshots.read(id) : null;
+          if (content === null) {
+            return res.status(404).json({ error: "Backup not found." });
+          }
+
+          // Keep the data being replaced, so a restore can itself be undone.
+          const current = await storage.read();
+          if (current) {
+            await createSnapshot(storage, current, 'pre-restore');
+          }
+          const revision = await storage.write(content, current?.revision ?? null);
+          return res.status(200).json({ content, revision });
+        }
+
+        default:
+          return res.status(400).json({ error: `Unknown action '${action}'.` });
+      }
+
+    } else {
+      res.setHeader('Allow', ['GET', 'POST']);
+      return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+    }
+  } catch (error) {
+    if (error instanceof RevisionConflictError) {
+      return res.status(409).json({ error: error.message });
+    }
+    if (error instanceof StorageConfigError) {
+      return res.status(500).json({ error: error.message });
+    }
+    console.error("Error in backups handler:", error);
+    const errorMessage = error instanceof Error ? error.message : "An unknown server error occurred.";
+    return res.status(500).json({ error: errorMessage });
+  }
+}
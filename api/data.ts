@@ -1,76 +1,120 @@
 // /api/data.ts
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getStorageAdapter, RevisionConflictError, StorageConfigError } from './_lib/storage/index.js';
+import { ensureDailySnapshot } from './_lib/backups.js';
+import { requireSession, SessionUser } from './_lib/session.js';
+import { findForbiddenDataChange } from '../lib/permissions.js';
+import { AUDIT_LOG_LIMIT } from '../lib/audit.js';
+import type { AuditEntry } from '../types.js';
 
-const GIST_ID = process.env.GIST_ID;
-const GITHUB_TOKEN = process.env.GITHUB_TOKEN;
-const FILENAME = 'mehrnoosh_cafe_db.json';
+// The log comes from the client, so nothing about its entries is assumed beyond being objects.
+const auditEntriesOf = (log: unknown): Partial<AuditEntry>[] =>
+  Array.isArray(log) ? log.filter((entry: unknown): entry is Partial<AuditEntry> => typeof entry === 'object' && entry !== null) : [];
+
+// The audit trail is append-only, whatever the role: a save may only add entries, and only
+// under the saving user's name. The log keeps its newest AUDIT_LOG_LIMIT entries (see lib/audit),
+// so for each entry added the oldest stored one may drop out; every other stored entry must
+// come back unchanged. The cutoff is taken from the stored log, not from what the client sends.
+const findAuditLogProblem = (user: SessionUser, currentLog: unknown, nextLog: unknown): string | null => {
+  const current = auditEntriesOf(currentLog);
+  const next = auditEntriesOf(nextLog);
+  const currentIds = new Set(current.map(e => e.id));
+  const added = next.filter(e => !currentIds.has(e.id));
+  if (added.some(e => e.userId !== user.id || e.username !== user.username)) {
+    return "New audit log entries must be recorded under your own user.";
+  }
+
+  const keptCount = Math.max(0, AUDIT_LOG_LIMIT - added.length);
+  const kept = keptCount === 0 ? [] : [...current].sort((a, b) => String(a.at).localeCompare(String(b.at))).slice(-keptCount);
+  const nextById = new Map(next.map(e => [e.id, JSON.stringify(e)]));
+  if (kept.some(e => nextById.get(e.id) !== JSON.stringify(e))) {
+    return "Audit log entries cannot be changed or removed.";
+  }
+  return null;
+};
+
+const CHANGE_VERBS = { add: 'add', change: 'edit', delete: 'delete' } as const;
+
+// The whole data set is saved at once, so role checks compare it with the stored copy: a save
+// (or an import, which is a save of a whole new document) may only make changes the role allows.
+const findForbiddenChange = (user: SessionUser, currentContent: string | null, newContent: string): string | null => {
+  if (!currentContent) return null;
+  try {
+    const current = JSON.parse(currentContent);
+    const next = JSON.parse(newContent);
+    const forbidden = findForbiddenDataChange(user, current, next);
+    if (forbidden) {
+      return `Your role is not allowed to ${CHANGE_VERBS[forbidden.change]} ${forbidden.collection} (requires '${forbidden.permission}').`;
+    }
+    return findAuditLogProblem(user, current.auditLog, next.auditLog);
+  } catch {
+    return "Request 'content' is not valid JSON.";
+  }
+  return null;
+};
 
 // This function will be deployed as a Vercel Serverless Function.
+// The storage backend is selected with STORAGE_BACKEND; see api/_lib/storage.
 export default async function handler(
   req: VercelRequest,
   res: VercelResponse,
 ) {
-  if (!GIST_ID || !GITHUB_TOKEN) {
-    return res.status(500).json({ error: "Server configuration error: Gist credentials not set." });
-  }
-
-  const GIST_API_URL = `https://api.github.com/gists/${GIST_ID}`;
-  const headers = {
-    'Accept': 'application/vnd.github.v3+json',
-    'Authorization': `Bearer ${GITHUB_TOKEN}`,
-    'X-GitHub-Api-Version': '2022-11-28',
-  };
+  const user = requireSession(req, res);
+  if (!user) return;
 
   try {
-    if (req.method === 'GET') {
-      const gistResponse = await fetch(GIST_API_URL, { method: 'GET', headers });
-
-      if (!gistResponse.ok) {
-        throw new Error(`GitHub API error: ${gistResponse.status} ${gistResponse.statusText}`);
-      }
+    const storage = getStorageAdapter();
 
-      const gistData = await gistResponse.json();
-      const file = gistData.files[FILENAME];
+    if (req.method === 'GET') {
+      const document = await storage.read();
 
-      if (!file) {
+      if (document === null) {
         // This is not an error; it just means no data has been saved yet.
         return res.status(204).send('No content');
       }
 
-      // Return the file content directly
-      return res.status(200).json({ content: file.content });
+      // Return the file content directly, along with the revision the client must send back when saving.
+      return res.status(200).json({ content: document.content, revision: document.revision });
 
     } else if (req.method === 'POST') {
-      const { content } = req.body;
+      const { content, baseRevision } = req.body;
       if (typeof content !== 'string') {
         return res.status(400).json({ error: "Request body must contain 'content' as a string." });
       }
+      if (baseRevision !== null && typeof baseRevision !== 'string') {
+        return res.status(400).json({ error: "Request body must contain 'baseRevision' as a string or null." });
+      }
 
-      const patchResponse = await fetch(GIST_API_URL, {
-        method: 'PATCH',
-        headers: { ...headers, 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          files: {
-            [FILENAME]: {
-              content: content,
-            },
-          },
-        }),
-      });
-
-      if (!patchResponse.ok) {
-        const errorBody = await patchResponse.text();
-        throw new Error(`GitHub API error on PATCH: ${patchResponse.status} ${patchResponse.statusText} - ${errorBody}`);
+      // A stale write is left to fail with a conflict below; the client re-checks after merging.
+      const current = await storage.read();
+      const forbidden = (current?.revision ?? null) === baseRevision && findForbiddenChange(user, current?.content ?? null, content);
+      if (forbidden) {
+        return res.status(403).json({ error: forbidden });
       }
 
-      return res.status(200).json({ success: true, message: "Data saved successfully." });
+      // A failed backup must not block saving.
+      await ensureDailySnapshot(storage).catch(error => console.error("Daily snapshot failed:", error));
+
+      // Stale writes are rejected: the client must have seen the current stored copy.
+      const revision = await storage.write(content, baseRevision);
+      return res.status(200).json({ success: true, message: "Data saved successfully.", revision });
 
     } else {
       res.setHeader('Allow', ['GET', 'POST']);
       return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
     }
   } catch (error) {
-    console.error("Error in Gist data handler:", error);
+    if (error instanceof RevisionConflictError) {
+      return res.status(409).json({
+        error: error.message,
+        content: error.current?.content ?? null,
+        revision: error.current?.revision ?? null,
+      });
+    }
+    if (error instanceof StorageConfigError) {
+      return res.status(500).json({ error: error.message });
+    }
+    console.error("Error in data handler:", error);
     const errorMessage = error instanceof Error ? error.message : "An unknown server error occurred.";
     return res.status(500).json({ error: errorMessage });
   }
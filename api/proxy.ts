@@ -1,12 +1,16 @@
 // /api/proxy.ts
 import { GoogleGenAI } from "@google/genai";
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireSession } from './_lib/session.js';
 
 // This function will be deployed as a Vercel Serverless Function.
 export default async function handler(
   req: VercelRequest,
   res: VercelResponse,
 ) {
+  // Only logged-in users may spend Gemini quota.
+  if (!requireSession(req, res)) return;
+
   // Only allow POST requests
   if (req.method !== 'POST') {
     res.setHeader('Allow', 'POST');
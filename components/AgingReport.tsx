@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { t } from '../translations';
+import { AgingEntry, AgingReport as AgingReportData, AGING_BUCKETS, AgingBucket } from '../lib/aging';
+import { toJalaliDateString } from '../lib/jalali';
+import { exportComponentAsPdf } from '../lib/pdfExport';
+import { useToast } from './common/Toast';
+import Card from './common/Card';
+import CurrencyDisplay from './common/CurrencyDisplay';
+import { useShoppingStore } from '../store/useShoppingStore';
+import { formatAmount, formatCurrency } from '../lib/currency';
+import { CurrencyUnit } from '../types';
+
+interface AgingReportProps {
+  report: AgingReportData;
+  vendorMap: Map<string, string>;
+  onGoToList: (listId: string) => void;
+}
+
+const BUCKET_STYLES: Record<AgingBucket, string> = {
+  current: 'text-primary',
+  overdue1to30: 'text-yellow-600 dark:text-yellow-400',
+  overdue31to60: 'text-danger',
+  overdue60plus: 'text-danger font-extrabold',
+};
+
+const describeEntry = (entry: AgingEntry, vendorName: string) =>
+  entry.invoice ? t.invoiceLabel(vendorName, entry.invoice.number) : entry.name;
+
+const describeDue = (entry: AgingEntry) =>
+  entry.daysOverdue > 0 ? t.daysOverdue(entry.daysOverdue) : t.dueInDays(-entry.daysOverdue);
+
+// Unpaid purchases by how far past due they are, on the dashboard.
+const AgingReport: React.FC<AgingReportProps> = ({ report, vendorMap, onGoToList }) => {
+  const { addToast } = useToast();
+  const currencyUnit = useShoppingStore(state => state.currencyUnit);
+  const [showDetails, setShowDetails] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const vendorName = (vendorId?: string) => (vendorId && vendorMap.get(vendorId)) || t.unknownVendor;
+
+  const handleExportPdf = async () => {
+    setIsExporting(true);
+    try {
+      const today = toJalaliDateString(new Date().toISOString());
+      await exportComponentAsPdf(<AgingReportForPdf report={report} vendorMap={vendorMap} date={today} currencyUnit={currencyUnit} />, `${t.agingReportTitle}_${today.replace(/\//g, '-')}.pdf`);
+      addToast(t.agingPdfExported, 'success');
+    } catch (error) {
+      console.error("PDF generation failed:", error);
+      addToast((error as Error).message || "An unknown error occurred during PDF generation.", 'error');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-primary">{t.agingReportTitle}</h2>
+        <button
+          onClick={handleExportPdf}
+          disabled={isExporting}
+          className="px-3 py-1.5 text-sm bg-surface text-primary font-medium rounded-lg hover:bg-border transition-colors border border-border shadow-subtle disabled:opacity-50"
+        >
+          {isExporting ? t.downloadingPdf : t.exportAgingPdf}
+        </button>
+      </div>
+      <Card>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center mb-6">
+          {AGING_BUCKETS.map(bucket => (
+            <div key={bucket} className="p-3 bg-background rounded-lg">
+              <p className="text-xs text-secondary mb-1">{t.agingBuckets[bucket]}</p>
+              <CurrencyDisplay value={report.totals[bucket]} className={`font-bold ${report.totals[bucket] > 0 ? BUCKET_STYLES[bucket] : 'text-secondary'}`} />
+            </div>
+          ))}
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-right text-secondary text-xs">
+                <th className="py-1 font-medium">{t.vendor}</th>
+                {AGING_BUCKETS.map(bucket => <th key={bucket} className="py-1 font-medium">{t.agingBuckets[bucket]}</th>)}
+                <th className="py-1 font-medium">{t.agingTotal}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.byVendor.map(row => (
+                <tr key={row.vendorId || ''} className="border-t border-border">
+                  <td className="py-1.5 text-primary">{vendorName(row.vendorId)}</td>
+                  {AGING_BUCKETS.map(bucket => (
+                    <td key={bucket} className="py-1.5">
+                      {row.totals[bucket] > 0 ? <CurrencyDisplay value={row.totals[bucket]} className={BUCKET_STYLES[bucket]} /> : '—'}
+                    </td>
+                  ))}
+                  <td className="py-1.5"><CurrencyDisplay value={row.total} className="font-semibold text-primary" /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <button onClick={() => setShowDetails(prev => !prev)} className="mt-4 text-sm text-accent hover:underline">
+          {showDetails ? t.hideAgingDetails : t.agingDetails}
+        </button>
+        {showDetails && (
+          <ul className="mt-3 divide-y divide-border text-sm">
+            {report.entries.map((entry, i) => (
+              <li key={i} className="flex flex-wrap items-center justify-between gap-2 py-2">
+                <div>
+                  <p className="text-primary">{describeEntry(entry, vendorName(entry.vendorId))}</p>
+                  <p className="text-xs text-secondary">
+                    {vendorName(entry.vendorId)} · {t.dueDate}: {toJalaliDateString(entry.dueDate)} · <span className={BUCKET_STYLES[entry.bucket]}>{describeDue(entry)}</span>
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <CurrencyDisplay value={entry.amount} className={`font-semibold ${BUCKET_STYLES[entry.bucket]}`} />
+                  {entry.listId && (
+                    <button onClick={() => onGoToList(entry.listId!)} className="px-2 py-1 bg-border text-primary text-xs font-medium rounded-md hover:bg-accent hover:text-accent-text transition-colors">
+                      {t.goToShoppingList}
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+const AgingReportForPdf: React.FC<{ report: AgingReportData; vendorMap: Map<string, string>; date: string; currencyUnit: CurrencyUnit }> = ({ report, vendorMap, date, currencyUnit }) => {
+  const vendorName = (vendorId?: string) => (vendorId && vendorMap.get(vendorId)) || t.unknownVendor;
+  const format = (rials: number) => formatAmount(rials, currencyUnit);
+  return (
+    <div className="p-10 pdf-render-container" style={{ direction: 'rtl' }}>
+      <h1 className="text-2xl font-bold text-center mb-6">{t.agingReportPdfTitle(date)}</h1>
+
+      <table className="w-full text-right border-collapse text-sm mb-8">
+        <thead className="bg-gray-100">
+          <tr>
+            <th className="p-2 border">{t.vendor}</th>
+            {AGING_BUCKETS.map(bucket => <th key={bucket} className="p-2 border">{t.agingBuckets[bucket]}</th>)}
+            <th className="p-2 border">{t.agingTotal}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.byVendor.map(row => (
+            <tr key={row.vendorId || ''} className="border-b">
+              <td className="p-2 border">{vendorName(row.vendorId)}</td>
+              {AGING_BUCKETS.map(bucket => <td key={bucket} className="p-2 border">{format(row.totals[bucket])}</td>)}
+              <td className="p-2 border font-bold">{format(row.total)}</td>
+            </tr>
+          ))}
+          <tr className="font-bold">
+            <td className="p-2 border">{t.agingTotal}</td>
+            {AGING_BUCKETS.map(bucket => <td key={bucket} className="p-2 border">{format(report.totals[bucket])}</td>)}
+            <td className="p-2 border">{formatCurrency(report.total, currencyUnit)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      <h2 className="text-xl font-semibold mb-3">{t.agingDetails}</h2>
+      <table className="w-full text-right border-collapse text-sm">
+        <thead className="bg-gray-100">
+          <tr>
+            <th className="p-2 border">{t.itemName}</th>
+            <th className="p-2 border">{t.vendor}</th>
+            <th className="p-2 border">{t.date}</th>
+            <th className="p-2 border">{t.dueDate}</th>
+            <th className="p-2 border">{t.status}</th>
+            <th className="p-2 border">{t.amountRemaining}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.entries.map((entry, i) => (
+            <tr key={i} className="border-b">
+              <td className="p-2 border">{describeEntry(entry, vendorName(entry.vendorId))}</td>
+              <td className="p-2 border">{vendorName(entry.vendorId)}</td>
+              <td className="p-2 border">{toJalaliDateString(entry.date)}</td>
+              <td className="p-2 border">{toJalaliDateString(entry.dueDate)}</td>
+              <td className="p-2 border">{describeDue(entry)}</td>
+              <td className="p-2 border">{format(entry.amount)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default AgingReport;
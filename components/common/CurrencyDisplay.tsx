@@ -1,21 +1,27 @@
 import React from 'react';
 import { t } from '../../translations';
+import { useShoppingStore } from '../../store/useShoppingStore';
+import { formatAmount, formatCurrency } from '../../lib/currency';
 
 interface CurrencyDisplayProps {
-  value: number;
+  value: number; // In Rials
   className?: string;
 }
 
+// Shown in the user's currency; the tooltip gives the Toman equivalent, or the Rials when shown in Tomans.
 const CurrencyDisplay: React.FC<CurrencyDisplayProps> = ({ value, className = '' }) => {
-  const tomanValue = (value / 10).toLocaleString('fa-IR');
+  const currencyUnit = useShoppingStore(state => state.currencyUnit);
+  const equivalent = currencyUnit === 'rial'
+    ? t.tomanEquivalent(formatAmount(value, 'toman'))
+    : t.rialEquivalent(formatAmount(value, 'rial'));
 
   return (
     <span className={`relative group inline-block ${className}`}>
       <span>
-        {value.toLocaleString('fa-IR')} {t.currency}
+        {formatCurrency(value, currencyUnit)}
       </span>
       <span className="absolute top-full left-1/2 -translate-x-1/2 mt-2 w-max px-2 py-1 bg-surface text-primary text-xs font-normal rounded-md shadow-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none border border-border z-10">
-        {t.tomanEquivalent(tomanValue)}
+        {equivalent}
       </span>
     </span>
   );
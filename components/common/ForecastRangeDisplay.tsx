@@ -0,0 +1,26 @@
+import React from 'react';
+import { t } from '../../translations';
+import { ForecastRange } from '../../lib/forecast';
+import { formatCurrency } from '../../lib/currency';
+import { useShoppingStore } from '../../store/useShoppingStore';
+import CurrencyDisplay from './CurrencyDisplay';
+
+interface ForecastRangeDisplayProps {
+  range: ForecastRange;
+  className?: string;
+}
+
+// The expected amount, with the range it will likely fall in underneath.
+const ForecastRangeDisplay: React.FC<ForecastRangeDisplayProps> = ({ range, className = '' }) => {
+  const currencyUnit = useShoppingStore(state => state.currencyUnit);
+  return (
+    <div>
+      <CurrencyDisplay value={range.expected} className={className} />
+      <p className="text-xs text-secondary">
+        {t.forecastRange(formatCurrency(range.low, currencyUnit), formatCurrency(range.high, currencyUnit))}
+      </p>
+    </div>
+  );
+};
+
+export default ForecastRangeDisplay;
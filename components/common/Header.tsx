@@ -3,6 +3,8 @@ import { useTheme } from '../../hooks/useTheme';
 import ThemeToggleButton from './ThemeToggleButton';
 import { logoSvg } from '../../assets/logo';
 import { t } from '../../translations';
+import { useShoppingStore } from '../../store/useShoppingStore';
+import { SyncStatus } from '../../types';
 
 interface HeaderProps {
   title: string;
@@ -18,6 +20,33 @@ const MenuIcon = () => (
     </svg>
 );
 
+const SYNC_STATUS_STYLES: Record<SyncStatus, { label: string; dotClass: string }> = {
+    synced: { label: t.syncStatusSynced, dotClass: 'bg-success' },
+    pending: { label: t.syncStatusPending, dotClass: 'bg-yellow-500 animate-pulse' },
+    error: { label: t.syncStatusError, dotClass: 'bg-danger' },
+};
+
+const SyncStatusIndicator: React.FC = () => {
+    const syncStatus = useShoppingStore(state => state.syncStatus);
+    const { label, dotClass } = SYNC_STATUS_STYLES[syncStatus];
+    return (
+        <span className="flex items-center gap-1.5 px-2 text-xs text-secondary" title={label} role="status">
+            <span className={`w-2 h-2 rounded-full ${dotClass}`} />
+            <span className="hidden md:inline">{label}</span>
+        </span>
+    );
+};
+
+const CurrentUserBadge: React.FC = () => {
+    const currentUser = useShoppingStore(state => state.currentUser);
+    if (!currentUser) return null;
+    return (
+        <span className="hidden md:inline px-2 text-xs text-secondary">
+            {currentUser.username} · {t.roles[currentUser.role]}
+        </span>
+    );
+};
+
 const Header: React.FC<HeaderProps> = ({ title, onBack, backText, children, onLogout }) => {
   const [theme, toggleTheme] = useTheme();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
@@ -66,6 +95,9 @@ const Header: React.FC<HeaderProps> = ({ title, onBack, backText, children, onLo
                 )}
             </div>
 
+            {onLogout && <CurrentUserBadge />}
+            {onLogout && <SyncStatusIndicator />}
+
             <ThemeToggleButton theme={theme} toggleTheme={toggleTheme} />
 
             {(React.Children.count(children) > 0 || onLogout || onBack) && (
@@ -0,0 +1,24 @@
+import React from 'react';
+import { t } from '../../translations';
+import { PriceAnomaly } from '../../lib/priceAnomalies';
+import { formatCurrency } from '../../lib/currency';
+import { useShoppingStore } from '../../store/useShoppingStore';
+
+interface PriceAnomalyWarningProps {
+  anomaly: PriceAnomaly;
+  unit: string;
+  className?: string;
+}
+
+// Inline note under a price that is far from what the item usually costs.
+const PriceAnomalyWarning: React.FC<PriceAnomalyWarningProps> = ({ anomaly, unit, className = '' }) => {
+  const currencyUnit = useShoppingStore(state => state.currencyUnit);
+  return (
+    <p className={`text-xs text-yellow-600 dark:text-yellow-400 ${className}`}>
+      {t.priceAnomaly(anomaly.ratio, formatCurrency(anomaly.median, currencyUnit), unit)}
+      {anomaly.decimalShift && ` ${t.priceDecimalShift}`}
+    </p>
+  );
+};
+
+export default PriceAnomalyWarning;
@@ -0,0 +1,70 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { t } from '../../translations';
+import { useShoppingStore } from '../../store/useShoppingStore';
+import { formatAmount, parseAmount, toRials } from '../../lib/currency';
+
+interface PriceInputProps {
+  value: number | ''; // In Rials
+  onChange: (value: number | '') => void;
+  className?: string;
+  placeholder?: string;
+  required?: boolean;
+  autoFocus?: boolean;
+}
+
+/**
+ * A price typed in the user's currency and handed back in Rials. Persian and Arabic digits
+ * and thousands separators are accepted; the amount is tidied up when the field loses focus.
+ */
+const PriceInput: React.FC<PriceInputProps> = ({ value, onChange, className = '', placeholder, required, autoFocus }) => {
+  const currencyUnit = useShoppingStore(state => state.currencyUnit);
+  const format = (rials: number | '') => rials === '' ? '' : formatAmount(rials, currencyUnit);
+  const [text, setText] = useState(() => format(value));
+  const lastValue = useRef(value);
+  const lastUnit = useRef(currencyUnit);
+
+  // Follow values set from outside, such as a suggested price, and a change of currency unit.
+  useEffect(() => {
+    if (value !== lastValue.current || currencyUnit !== lastUnit.current) {
+      lastValue.current = value;
+      lastUnit.current = currencyUnit;
+      setText(format(value));
+    }
+  }, [value, currencyUnit]);
+
+  const parsed = parseAmount(text);
+  const isInvalid = text.trim() !== '' && parsed === null;
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setText(e.target.value);
+    // Something that is not a number leaves no price, so forms cannot be submitted with a stale one.
+    const amount = e.target.value.trim() === '' ? null : parseAmount(e.target.value);
+    const rials = amount === null ? '' : toRials(amount, currencyUnit);
+    lastValue.current = rials;
+    onChange(rials);
+  };
+
+  const handleBlur = () => {
+    if (!isInvalid) setText(format(value));
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        inputMode="decimal"
+        value={text}
+        onChange={handleChange}
+        onBlur={handleBlur}
+        placeholder={placeholder}
+        required={required}
+        autoFocus={autoFocus}
+        title={isInvalid ? t.invalidAmount : value !== '' && currencyUnit !== 'rial' ? t.rialEquivalent(formatAmount(value, 'rial')) : undefined}
+        className={`${className} pl-16 ${isInvalid ? 'ring-2 ring-danger' : ''}`}
+      />
+      <span className="absolute inset-y-0 left-2 flex items-center text-xs text-secondary pointer-events-none">{t.currencyUnits[currencyUnit]}</span>
+    </div>
+  );
+};
+
+export default PriceInput;
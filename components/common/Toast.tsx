@@ -1,15 +1,28 @@
-import React, { createContext, useContext, useState, useCallback, ReactNode, useEffect } from 'react';
+import React, { createContext, useContext, useState, useCallback, ReactNode, useEffect, useSyncExternalStore } from 'react';
 
 type ToastType = 'success' | 'error' | 'info';
 
+// An optional button on the toast, e.g. "Undo".
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+  // For actions that can stop making sense while the toast is up: the button is hidden once this is false.
+  isAvailable?: () => boolean;
+  subscribe?: (onChange: () => void) => () => void;
+}
+
+const alwaysAvailable = () => true;
+const noSubscription = () => () => {};
+
 interface ToastMessage {
   id: number;
   message: string;
   type: ToastType;
+  action?: ToastAction;
 }
 
 interface ToastContextType {
-  addToast: (message: string, type: ToastType) => void;
+  addToast: (message: string, type: ToastType, action?: ToastAction) => void;
 }
 
 const ToastContext = createContext<ToastContextType | undefined>(undefined);
@@ -24,15 +37,18 @@ export const useToast = () => {
 
 const Toast: React.FC<{ toast: ToastMessage; onRemove: (id: number) => void }> = ({ toast, onRemove }) => {
     const [isExiting, setIsExiting] = useState(false);
+    const isActionAvailable = useSyncExternalStore(toast.action?.subscribe ?? noSubscription, toast.action?.isAvailable ?? alwaysAvailable);
 
-    useEffect(() => {
-        const timer = setTimeout(() => {
-            setIsExiting(true);
-            setTimeout(() => onRemove(toast.id), 300);
-        }, 3000);
+    const dismiss = useCallback(() => {
+        setIsExiting(true);
+        setTimeout(() => onRemove(toast.id), 300);
+    }, [toast.id, onRemove]);
 
+    useEffect(() => {
+        // Toasts with an action stay longer, so there is time to use it.
+        const timer = setTimeout(dismiss, toast.action ? 6000 : 3000);
         return () => clearTimeout(timer);
-    }, [toast.id, onRemove]);
+    }, [dismiss, toast.action]);
     
     const toastColors: Record<ToastType, string> = {
         success: 'bg-success text-success-soft',
@@ -45,7 +61,14 @@ const Toast: React.FC<{ toast: ToastMessage; onRemove: (id: number) => void }> =
           className={`p-4 rounded-lg shadow-lg flex items-center justify-between text-sm font-medium transition-all duration-300 ${toastColors[toast.type]} ${isExiting ? 'opacity-0 translate-x-full' : 'opacity-100 translate-x-0'}`}
         >
           <span>{toast.message}</span>
-          <button onClick={() => { setIsExiting(true); setTimeout(() => onRemove(toast.id), 300); }} className="ml-4 text-xl leading-none">&times;</button>
+          <div className="flex items-center gap-3 ml-4">
+            {toast.action && isActionAvailable && (
+              <button onClick={() => { toast.action!.onClick(); dismiss(); }} className="px-2 py-1 rounded-md bg-black/15 hover:bg-black/25 transition-colors font-bold whitespace-nowrap">
+                {toast.action.label}
+              </button>
+            )}
+            <button onClick={dismiss} className="text-xl leading-none">&times;</button>
+          </div>
         </div>
     )
 }
@@ -53,14 +76,14 @@ const Toast: React.FC<{ toast: ToastMessage; onRemove: (id: number) => void }> =
 export const ToastProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
 
-  const addToast = useCallback((message: string, type: ToastType) => {
+  const addToast = useCallback((message: string, type: ToastType, action?: ToastAction) => {
     const id = Date.now();
-    setToasts((prevToasts) => [...prevToasts, { id, message, type }]);
+    setToasts((prevToasts) => [...prevToasts, { id, message, type, action }]);
   }, []);
 
-  const removeToast = (id: number) => {
+  const removeToast = useCallback((id: number) => {
     setToasts((prevToasts) => prevToasts.filter((toast) => toast.id !== id));
-  };
+  }, []);
 
   return (
     <ToastContext.Provider value={{ addToast }}>
@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import { t } from '../../translations';
+import { useShoppingStore } from '../../store/useShoppingStore';
+import { useToast } from '../common/Toast';
+import { useUndoRedo } from '../../hooks/useUndoRedo';
+import { requestBudgetNotifications } from '../../hooks/useBudgetAlerts';
+import { jalaliMonthOf } from '../../lib/budgets';
+import PriceInput from '../common/PriceInput';
+
+interface BudgetsModalProps {
+  onClose: () => void;
+}
+
+type Scope = 'every' | 'month';
+
+// '' stands for the overall budget.
+const OVERALL = '';
+
+const BudgetsModal: React.FC<BudgetsModalProps> = ({ onClose }) => {
+  const { budgets, allCategories, saveBudgets } = useShoppingStore();
+  const { addToast } = useToast();
+  const { undoAction } = useUndoRedo();
+  const [isOpen, setIsOpen] = useState(false);
+  const [scope, setScope] = useState<Scope>('every');
+  const currentMonth = jalaliMonthOf(new Date().toISOString());
+  const [year, month] = currentMonth.split('/').map(Number);
+  const monthName = `${t.jalaliMonths[month - 1]} ${year.toLocaleString('fa-IR')}`;
+
+  const amountsFor = (selected: Scope): Record<string, number | ''> => {
+    const monthKey = selected === 'month' ? currentMonth : undefined;
+    return Object.fromEntries([OVERALL, ...allCategories()].map(category => [
+      category,
+      budgets.find(b => (b.category ?? OVERALL) === category && b.month === monthKey)?.amount ?? '',
+    ]));
+  };
+  const [amounts, setAmounts] = useState<Record<string, number | ''>>(() => amountsFor('every'));
+
+  useEffect(() => { setIsOpen(true); }, []);
+
+  const handleClose = () => {
+    setIsOpen(false);
+    setTimeout(onClose, 300);
+  };
+
+  const handleScopeChange = (selected: Scope) => {
+    setScope(selected);
+    setAmounts(amountsFor(selected));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveBudgets(
+      Object.entries(amounts).map(([category, amount]) => ({
+        category: category === OVERALL ? undefined : category,
+        amount: Number(amount) > 0 ? Number(amount) : undefined,
+      })),
+      scope === 'month' ? currentMonth : undefined
+    );
+    requestBudgetNotifications();
+    addToast(t.budgetsSaved, 'success', undoAction());
+    handleClose();
+  };
+
+  return (
+    <div
+      className={`fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 transition-opacity duration-300 ${isOpen ? 'opacity-100' : 'opacity-0'}`}
+      onClick={handleClose}
+    >
+      <div
+        className={`bg-surface p-6 rounded-xl border border-border w-full max-w-md max-h-[90vh] flex flex-col transition-all duration-300 ${isOpen ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-10'}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold text-primary mb-4">{t.editBudgetsTitle}</h2>
+        <form onSubmit={handleSubmit} className="flex flex-col min-h-0 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-secondary mb-1">{t.budgetScope}</label>
+            <select value={scope} onChange={e => handleScopeChange(e.target.value as Scope)} className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent">
+              <option value="every">{t.budgetEveryMonth}</option>
+              <option value="month">{t.budgetThisMonthOnly(monthName)}</option>
+            </select>
+            <p className="text-xs text-secondary mt-1">{t.budgetsHint}</p>
+          </div>
+          <div className="overflow-y-auto space-y-2">
+            {Object.keys(amounts).map(category => (
+              <div key={category} className="flex items-center gap-3">
+                <label className={`flex-1 text-sm ${category === OVERALL ? 'font-bold text-primary' : 'text-secondary'}`}>{category || t.overallBudget}</label>
+                <PriceInput
+                  value={amounts[category]}
+                  onChange={value => setAmounts(prev => ({ ...prev, [category]: value }))}
+                  className="w-44 px-3 py-1.5 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent"
+                />
+              </div>
+            ))}
+          </div>
+          <div className="mt-2 flex justify-end gap-3">
+            <button type="button" onClick={handleClose} className="px-4 py-2 bg-border text-primary font-medium rounded-lg hover:bg-border/70 transition-colors">
+              {t.cancel}
+            </button>
+            <button type="submit" className="px-4 py-2 bg-accent text-accent-text font-medium rounded-lg hover:opacity-90 transition-opacity">
+              {t.saveChanges}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default BudgetsModal;
@@ -2,8 +2,10 @@ import React, { useState, useMemo, useEffect } from 'react';
 import { ShoppingItem, ItemStatus, PaymentMethod, PaymentStatus } from '../../types';
 import { t } from '../../translations';
 import CurrencyDisplay from '../common/CurrencyDisplay';
+import PriceInput from '../common/PriceInput';
 import { useShoppingStore } from '../../store/useShoppingStore';
 import { compressImage } from '../../lib/image';
+import PriceAnomalyWarning from '../common/PriceAnomalyWarning';
 
 interface BulkBuyModalProps {
   items: ShoppingItem[];
@@ -17,7 +19,7 @@ interface PurchaseDetail {
 }
 
 const BulkBuyModal: React.FC<BulkBuyModalProps> = ({ items, onClose, onConfirm }) => {
-  const { vendors } = useShoppingStore();
+  const { vendors, checkPurchasePrice } = useShoppingStore();
   const [isOpen, setIsOpen] = useState(false);
   const [sharedVendor, setSharedVendor] = useState('');
   const [sharedPaymentMethod, setSharedPaymentMethod] = useState<PaymentMethod>(PaymentMethod.Card);
@@ -33,8 +35,8 @@ const BulkBuyModal: React.FC<BulkBuyModalProps> = ({ items, onClose, onConfirm }
     setTimeout(onClose, 300);
   };
 
-  const handleDetailChange = (itemId: string, field: keyof PurchaseDetail, value: string) => {
-    setPurchaseDetails(prev => ({ ...prev, [itemId]: { ...prev[itemId], [field]: value === '' ? '' : parseFloat(value) } }));
+  const handleDetailChange = (itemId: string, field: keyof PurchaseDetail, value: number | '') => {
+    setPurchaseDetails(prev => ({ ...prev, [itemId]: { ...prev[itemId], [field]: value } }));
   };
   
   const isFormValid = useMemo(() => items.every(item => {
@@ -42,6 +44,12 @@ const BulkBuyModal: React.FC<BulkBuyModalProps> = ({ items, onClose, onConfirm }
     return d && d.purchasedAmount !== '' && Number(d.purchasedAmount) > 0 && d.pricePerUnit !== '' && Number(d.pricePerUnit) >= 0;
   }), [items, purchaseDetails]);
 
+  const priceAnomalies = useMemo(() => new Map(items.map(item => {
+    const d = purchaseDetails[item.id];
+    const total = (Number(d?.purchasedAmount) || 0) * (Number(d?.pricePerUnit) || 0);
+    return [item.id, total > 0 ? checkPurchasePrice(item.name, item.unit, Number(d.purchasedAmount), total) : null];
+  })), [items, purchaseDetails, checkPurchasePrice]);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!isFormValid) return;
@@ -79,15 +87,15 @@ const BulkBuyModal: React.FC<BulkBuyModalProps> = ({ items, onClose, onConfirm }
                 const d = purchaseDetails[item.id];
                 const total = (Number(d?.purchasedAmount) || 0) * (Number(d?.pricePerUnit) || 0);
                 return (<div key={item.id} className="p-3 bg-background rounded-lg border border-border"><p className="font-bold text-primary mb-2">{item.name}</p><div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
-                    <input type="number" value={d.purchasedAmount} onChange={e => handleDetailChange(item.id, 'purchasedAmount', e.target.value)} className="w-full px-2 py-1 bg-surface border border-border rounded-md focus:outline-none focus:ring-1 focus:ring-accent" placeholder={t.quantityPurchased} required/>
+                    <input type="number" value={d.purchasedAmount} onChange={e => handleDetailChange(item.id, 'purchasedAmount', e.target.value === '' ? '' : parseFloat(e.target.value))} className="w-full px-2 py-1 bg-surface border border-border rounded-md focus:outline-none focus:ring-1 focus:ring-accent" placeholder={t.quantityPurchased} required/>
                     <div>
-                        <input type="number" value={d.pricePerUnit} onChange={e => handleDetailChange(item.id, 'pricePerUnit', e.target.value)} className="w-full px-2 py-1 bg-surface border border-border rounded-md focus:outline-none focus:ring-1 focus:ring-accent" placeholder={t.pricePerUnitLabel} required/>
+                        <PriceInput value={d.pricePerUnit} onChange={value => handleDetailChange(item.id, 'pricePerUnit', value)} className="w-full px-2 py-1 bg-surface border border-border rounded-md focus:outline-none focus:ring-1 focus:ring-accent" placeholder={t.pricePerUnitLabel} required/>
                     </div>
                     <div className="self-center text-center">
                         <span className="text-xs text-secondary">{t.calculatedTotal}: </span>
                         <CurrencyDisplay value={total} className="font-semibold text-accent" />
                     </div>
-                </div></div>);
+                </div>{priceAnomalies.get(item.id) && <PriceAnomalyWarning anomaly={priceAnomalies.get(item.id)!} unit={item.unit} className="mt-2" />}</div>);
             })}
           </div>
           <div className="mt-6 flex justify-end gap-3 flex-shrink-0 border-t border-border pt-4">
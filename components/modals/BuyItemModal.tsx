@@ -2,8 +2,11 @@ import React, { useState, useMemo, useEffect } from 'react';
 import { ShoppingItem, PaymentMethod, PaymentStatus } from '../../types';
 import { t } from '../../translations';
 import CurrencyDisplay from '../common/CurrencyDisplay';
+import PriceInput from '../common/PriceInput';
 import { useShoppingStore } from '../../store/useShoppingStore';
 import { compressImage } from '../../lib/image';
+import { PRICE_COMPARISON_DAYS } from '../../lib/vendorPrices';
+import PriceAnomalyWarning from '../common/PriceAnomalyWarning';
 
 interface BuyItemModalProps {
   item: ShoppingItem;
@@ -15,7 +18,7 @@ interface BuyItemModalProps {
 }
 
 const BuyItemModal: React.FC<BuyItemModalProps> = ({ item, onClose, onConfirm }) => {
-  const { vendors, categoryVendorMap, getLatestPurchaseInfo } = useShoppingStore();
+  const { vendors, categoryVendorMap, getLatestPurchaseInfo, findCatalogItem, getVendorRecommendation, checkPurchasePrice } = useShoppingStore();
   const [isOpen, setIsOpen] = useState(false);
   const [purchasedAmount, setPurchasedAmount] = useState<number | ''>(item.amount);
   const [pricePerUnit, setPricePerUnit] = useState<number | ''>('');
@@ -31,6 +34,13 @@ const BuyItemModal: React.FC<BuyItemModalProps> = ({ item, onClose, onConfirm })
         setPricePerUnit(latestInfo.pricePerUnit);
     }
 
+    // A vendor planned for the item (e.g. on a generated reorder list) comes first.
+    const plannedVendor = item.vendorId && vendors.find(v => v.id === item.vendorId);
+    if (plannedVendor) {
+        setVendor(plannedVendor.name);
+        return;
+    }
+
     if (latestInfo.vendorId) {
         const latestVendor = vendors.find(v => v.id === latestInfo.vendorId);
         if (latestVendor) {
@@ -39,18 +49,30 @@ const BuyItemModal: React.FC<BuyItemModalProps> = ({ item, onClose, onConfirm })
         }
     }
 
-    // Fallback to category-based vendor
-    const suggestedVendorId = categoryVendorMap[item.category];
+    // Fallback to the item's default vendor, then the category-based one
+    const suggestedVendorId = findCatalogItem(item.name)?.defaultVendorId || categoryVendorMap[item.category];
     if (suggestedVendorId) {
         const suggestedVendor = vendors.find(v => v.id === suggestedVendorId);
         if (suggestedVendor) {
             setVendor(suggestedVendor.name);
         }
     }
-  }, [item, getLatestPurchaseInfo, vendors, categoryVendorMap]);
+  }, [item, getLatestPurchaseInfo, findCatalogItem, vendors, categoryVendorMap]);
+
+  // Compared with the vendor entered, or the one bought from last while it is still empty.
+  const recommendation = useMemo(() => {
+    const vendorId = vendors.find(v => v.name === vendor.trim())?.id;
+    const found = getVendorRecommendation(item.name, vendorId);
+    return found && found.vendorId !== vendorId ? found : null;
+  }, [getVendorRecommendation, item.name, vendors, vendor]);
+  const vendorName = (vendorId: string) => vendors.find(v => v.id === vendorId)?.name || '';
 
 
   const totalPrice = useMemo(() => (Number(purchasedAmount) || 0) * (Number(pricePerUnit) || 0), [purchasedAmount, pricePerUnit]);
+  const priceAnomaly = useMemo(
+    () => totalPrice > 0 ? checkPurchasePrice(item.name, item.unit, Number(purchasedAmount), totalPrice) : null,
+    [checkPurchasePrice, item.name, item.unit, purchasedAmount, totalPrice]
+  );
 
   const handleClose = () => {
     setIsOpen(false);
@@ -78,15 +100,24 @@ const BuyItemModal: React.FC<BuyItemModalProps> = ({ item, onClose, onConfirm })
               </div>
               <div>
                 <label className="block text-sm font-medium text-secondary mb-1">{t.pricePerUnitLabel}</label>
-                <input type="number" value={pricePerUnit} onChange={(e) => setPricePerUnit(e.target.value === '' ? '' : parseFloat(e.target.value))} className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent" required />
+                <PriceInput value={pricePerUnit} onChange={setPricePerUnit} className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent" required />
               </div>
             </div>
+            {priceAnomaly && <PriceAnomalyWarning anomaly={priceAnomaly} unit={item.unit} />}
              <div>
                 <label className="block text-sm font-medium text-secondary mb-1">{t.vendor}</label>
                 <input type="text" list="vendors" value={vendor} onChange={(e) => setVendor(e.target.value)} placeholder={t.vendorPlaceholder} className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent"/>
                  <datalist id="vendors">
                     {vendors.map(v => <option key={v.id} value={v.name} />)}
                  </datalist>
+                {recommendation && (
+                  <div className="mt-2 flex items-center justify-between gap-2 text-xs text-success">
+                    <span>{t.vendorCheaper(vendorName(recommendation.vendorId), vendorName(recommendation.comparedToVendorId), recommendation.saving, PRICE_COMPARISON_DAYS)}</span>
+                    <button type="button" onClick={() => setVendor(vendorName(recommendation.vendorId))} className="flex-shrink-0 px-2 py-1 bg-success-soft rounded-md font-medium hover:opacity-80">
+                      {t.useVendor(vendorName(recommendation.vendorId))}
+                    </button>
+                  </div>
+                )}
               </div>
 
             <div className="grid grid-cols-2 gap-4">
@@ -111,7 +142,7 @@ const BuyItemModal: React.FC<BuyItemModalProps> = ({ item, onClose, onConfirm })
 
           <div className="mt-6 flex justify-end gap-3">
              <button type="button" onClick={handleClose} className="px-4 py-2 bg-border text-primary font-medium rounded-lg hover:bg-border/70 transition-colors">{t.cancel}</button>
-            <button type="submit" className="px-4 py-2 bg-accent text-accent-text font-medium rounded-lg hover:opacity-90 transition-opacity">{t.confirm}</button>
+            <button type="submit" className="px-4 py-2 bg-accent text-accent-text font-medium rounded-lg hover:opacity-90 transition-opacity">{priceAnomaly ? t.confirmAnyway : t.confirm}</button>
           </div>
         </form>
       </div>
@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import { t } from '../../translations';
+import { CatalogItem, PackSize, Unit } from '../../types';
+import { useShoppingStore } from '../../store/useShoppingStore';
+import { useToast } from '../common/Toast';
+import { useUndoRedo } from '../../hooks/useUndoRedo';
+
+interface CatalogItemModalProps {
+  onClose: () => void;
+  itemToEdit?: CatalogItem;
+}
+
+type PackSizeDraft = Omit<PackSize, 'amount'> & { amount: number | '' };
+
+// Accepts both Latin and Persian commas.
+const parseAliases = (value: string) => [...new Set(value.split(/[,،]/).map(a => a.trim()).filter(Boolean))];
+
+const CatalogItemModal: React.FC<CatalogItemModalProps> = ({ onClose, itemToEdit }) => {
+  const { addCatalogItem, updateCatalogItem, findCatalogItem, allCategories, vendors } = useShoppingStore();
+  const { addToast } = useToast();
+  const { undoAction } = useUndoRedo();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState(itemToEdit?.name || '');
+  const [aliases, setAliases] = useState(itemToEdit?.aliases.join('، ') || '');
+  const [category, setCategory] = useState(itemToEdit?.category || '');
+  const [defaultUnit, setDefaultUnit] = useState(itemToEdit?.defaultUnit || Unit.Piece);
+  const [defaultVendorId, setDefaultVendorId] = useState(itemToEdit?.defaultVendorId || '');
+  const [parLevel, setParLevel] = useState<number | ''>(itemToEdit?.parLevel ?? '');
+  const [minLevel, setMinLevel] = useState<number | ''>(itemToEdit?.minLevel ?? '');
+  const [packSizes, setPackSizes] = useState<PackSizeDraft[]>(itemToEdit?.packSizes || []);
+
+  useEffect(() => { setIsOpen(true); }, []);
+
+  const handleClose = () => {
+    setIsOpen(false);
+    setTimeout(onClose, 300);
+  };
+
+  const updatePackSize = (index: number, updates: Partial<PackSizeDraft>) => {
+    setPackSizes(prev => prev.map((p, i) => i === index ? { ...p, ...updates } : p));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    const existing = findCatalogItem(name);
+    if (existing && existing.id !== itemToEdit?.id) {
+      addToast(t.catalogNameTaken(name.trim()), 'error');
+      return;
+    }
+
+    const data = {
+      name: name.trim(),
+      aliases: parseAliases(aliases),
+      category: category.trim() || t.other,
+      defaultUnit,
+      defaultVendorId: defaultVendorId || undefined,
+      parLevel: Number(parLevel) > 0 ? Number(parLevel) : undefined,
+      minLevel: Number(parLevel) > 0 && minLevel !== '' && minLevel >= 0 ? minLevel : undefined,
+      packSizes: packSizes
+        .filter(p => Number(p.amount) > 0 && p.unit !== p.of)
+        .map(p => ({ ...p, amount: Number(p.amount) })),
+    };
+    if (itemToEdit) {
+      updateCatalogItem(itemToEdit.id, data);
+      addToast(t.catalogItemUpdated, 'success', undoAction());
+    } else {
+      addCatalogItem(data);
+      addToast(t.catalogItemAdded, 'success');
+    }
+    handleClose();
+  };
+
+  return (
+    <div
+      className={`fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 transition-opacity duration-300 ${isOpen ? 'opacity-100' : 'opacity-0'}`}
+      onClick={handleClose}
+    >
+      <div
+        className={`bg-surface p-6 rounded-xl border border-border w-full max-w-md transition-all duration-300 ${isOpen ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-10'}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold text-primary mb-6">{itemToEdit ? t.editCatalogItemTitle : t.addCatalogItemTitle}</h2>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-secondary mb-1">{t.itemName}</label>
+            <input
+              type="text" value={name} onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent"
+              required autoFocus
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-secondary mb-1">{t.aliases}</label>
+            <input
+              type="text" value={aliases} onChange={(e) => setAliases(e.target.value)}
+              className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent"
+            />
+            <p className="text-xs text-secondary mt-1">{t.aliasesHint}</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-secondary mb-1">{t.category}</label>
+             <input type="text" list="categories" value={category} onChange={e => setCategory(e.target.value)} placeholder={t.categoryPlaceholder} className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent"/>
+              <datalist id="categories">
+                  {allCategories().map(cat => <option key={cat} value={cat}/>)}
+              </datalist>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-secondary mb-1">{t.defaultUnit}</label>
+              <select value={defaultUnit} onChange={e => setDefaultUnit(e.target.value as Unit)} className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent">
+                  {Object.values(Unit).map(u => <option key={u} value={u}>{u}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-secondary mb-1">{t.defaultVendor}</label>
+              <select value={defaultVendorId} onChange={e => setDefaultVendorId(e.target.value)} className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent">
+                  <option value="">{t.noDefaultVendor}</option>
+                  {vendors.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-secondary mb-1">{t.parLevel} ({defaultUnit})</label>
+              <input
+                type="number" min="0" step="any" value={parLevel} onChange={(e) => setParLevel(e.target.value === '' ? '' : Number(e.target.value))}
+                className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-secondary mb-1">{t.minLevel} ({defaultUnit})</label>
+              <input
+                type="number" min="0" step="any" value={minLevel} onChange={(e) => setMinLevel(e.target.value === '' ? '' : Number(e.target.value))}
+                placeholder={parLevel === '' ? '' : String(parLevel)} disabled={!(Number(parLevel) > 0)}
+                className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent disabled:opacity-50"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-secondary -mt-2">{t.parLevelHint} {t.minLevelHint}</p>
+          <div>
+            <label className="block text-sm font-medium text-secondary mb-1">{t.packSizes}</label>
+            <div className="space-y-2">
+              {packSizes.map((packSize, index) => (
+                <div key={index} className="flex items-center gap-2 text-sm">
+                  <span className="text-secondary">{(1).toLocaleString('fa-IR')}</span>
+                  <select value={packSize.unit} onChange={e => updatePackSize(index, { unit: e.target.value as Unit })} className="flex-1 px-2 py-1.5 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent">
+                    {Object.values(Unit).map(u => <option key={u} value={u}>{u}</option>)}
+                  </select>
+                  <span className="text-secondary">=</span>
+                  <input type="number" min="0" step="any" value={packSize.amount} onChange={e => updatePackSize(index, { amount: e.target.value === '' ? '' : Number(e.target.value) })} className="w-20 px-2 py-1.5 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent" />
+                  <select value={packSize.of} onChange={e => updatePackSize(index, { of: e.target.value as Unit })} className="flex-1 px-2 py-1.5 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent">
+                    {Object.values(Unit).map(u => <option key={u} value={u}>{u}</option>)}
+                  </select>
+                  <button type="button" onClick={() => setPackSizes(prev => prev.filter((_, i) => i !== index))} className="p-1 text-secondary hover:text-danger">&times;</button>
+                </div>
+              ))}
+            </div>
+            <button type="button" onClick={() => setPackSizes(prev => [...prev, { unit: Unit.Carton, amount: '', of: defaultUnit }])} className="mt-2 text-sm text-accent hover:underline">{t.addPackSize}</button>
+            <p className="text-xs text-secondary mt-1">{t.packSizesHint}</p>
+          </div>
+          <div className="mt-6 flex justify-end gap-3">
+            <button type="button" onClick={handleClose} className="px-4 py-2 bg-border text-primary font-medium rounded-lg hover:bg-border/70 transition-colors">
+              {t.cancel}
+            </button>
+            <button type="submit" className="px-4 py-2 bg-accent text-accent-text font-medium rounded-lg hover:opacity-90 transition-opacity">
+              {itemToEdit ? t.saveChanges : t.create}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CatalogItemModal;
@@ -0,0 +1,142 @@
+import React, { useState, useEffect } from 'react';
+import { t } from '../../translations';
+import { MergeConflict, PaymentTerms } from '../../types';
+import { useShoppingStore } from '../../store/useShoppingStore';
+import { formatPackSize } from '../../lib/units';
+import { formatIngredient } from '../../lib/recipes';
+import { formatPaymentTerms } from '../../lib/aging';
+
+type Resolution = 'local' | 'remote';
+
+interface ConflictReviewModalProps {
+  conflicts: MergeConflict[];
+  onResolve: (resolutions: Record<string, Resolution>) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: t.itemName,
+  amount: t.amount,
+  unit: t.unit,
+  category: t.category,
+  status: t.status,
+  paidPrice: t.totalCost,
+  purchasedAmount: t.quantityPurchased,
+  vendorId: t.vendor,
+  paymentStatus: t.paymentStatus,
+  paymentMethod: t.paymentMethod,
+  estimatedPrice: t.estimatedPrice,
+  contactPerson: t.contactPerson,
+  phone: t.phone,
+  address: t.address,
+  aliases: t.aliases,
+  defaultUnit: t.defaultUnit,
+  defaultVendorId: t.defaultVendor,
+  packSizes: t.packSizes,
+  parLevel: t.parLevel,
+  minLevel: t.minLevel,
+  servings: t.servings,
+  salePrice: t.salePrice,
+  ingredients: t.ingredients,
+  invoiceId: t.invoice,
+  paymentTerms: t.paymentTerms,
+};
+
+const ENTITY_LABELS: Record<MergeConflict['entity'], string> = {
+  list: t.conflictEntityList,
+  item: t.conflictEntityItem,
+  vendor: t.conflictEntityVendor,
+  categoryVendorMap: t.conflictEntityCategoryVendor,
+  catalogItem: t.conflictEntityCatalogItem,
+  recipe: t.conflictEntityRecipe,
+  budget: t.conflictEntityBudget,
+};
+
+const ConflictReviewModal: React.FC<ConflictReviewModalProps> = ({ conflicts, onResolve }) => {
+  const { vendors, catalog, invoices } = useShoppingStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [resolutions, setResolutions] = useState<Record<string, Resolution>>(
+    conflicts.reduce((acc, c) => ({ ...acc, [c.id]: 'local' }), {})
+  );
+
+  useEffect(() => { setIsOpen(true); }, []);
+
+  const vendorName = (id: unknown) => vendors.find(v => v.id === id)?.name || String(id);
+  const catalogItemName = (id: string) => catalog.find(c => c.id === id)?.name || id;
+  const invoiceLabel = (id: unknown) => {
+    const invoice = invoices.find(i => i.id === id);
+    return invoice ? t.invoiceLabel(vendorName(invoice.vendorId), invoice.number) : String(id);
+  };
+
+  const formatValue = (conflict: MergeConflict, value: unknown): string => {
+    if (conflict.field === 'paymentTerms') return formatPaymentTerms(value as PaymentTerms | undefined);
+    if (value === undefined || value === null || value === '') return '-';
+    if (conflict.entity === 'categoryVendorMap' || conflict.field === 'vendorId' || conflict.field === 'defaultVendorId') return vendorName(value);
+    if (conflict.field === 'invoiceId') return invoiceLabel(value);
+    if (conflict.field === 'packSizes' && Array.isArray(value)) return value.map(formatPackSize).join('، ') || '-';
+    if (conflict.field === 'ingredients' && Array.isArray(value)) return value.map(i => formatIngredient(i, catalogItemName(i.catalogItemId))).join('، ') || '-';
+    if (Array.isArray(value)) return value.join('، ') || '-';
+    if (typeof value === 'number') return value.toLocaleString('fa-IR');
+    return String(value);
+  };
+
+  const setAll = (resolution: Resolution) => {
+    setResolutions(conflicts.reduce((acc, c) => ({ ...acc, [c.id]: resolution }), {}));
+  };
+
+  const handleConfirm = () => {
+    setIsOpen(false);
+    setTimeout(() => onResolve(resolutions), 300);
+  };
+
+  const OptionButton: React.FC<{ conflict: MergeConflict; side: Resolution }> = ({ conflict, side }) => {
+    const isSelected = resolutions[conflict.id] === side;
+    const value = side === 'local' ? conflict.localValue : conflict.remoteValue;
+    return (
+      <button
+        type="button"
+        onClick={() => setResolutions(prev => ({ ...prev, [conflict.id]: side }))}
+        className={`flex-1 text-right p-2 rounded-md border transition-colors ${isSelected ? 'border-accent bg-accent/10' : 'border-border hover:bg-border/50'}`}
+      >
+        <span className="block text-xs text-secondary">{side === 'local' ? t.myVersion : t.serverVersion}</span>
+        <span className="block text-sm font-medium text-primary">{formatValue(conflict, value)}</span>
+      </button>
+    );
+  };
+
+  return (
+    <div
+      className={`fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 transition-opacity duration-300 ${isOpen ? 'opacity-100' : 'opacity-0'}`}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="conflict-review-title"
+    >
+      <div className={`bg-surface p-6 rounded-xl border border-border w-full max-w-2xl max-h-[90vh] flex flex-col transition-all duration-300 ${isOpen ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-10'}`}>
+        <h2 id="conflict-review-title" className="text-xl font-bold text-primary mb-2 flex-shrink-0">{t.syncConflictTitle}</h2>
+        <p className="text-sm text-secondary mb-4 flex-shrink-0">{t.syncConflictMessage(conflicts.length)}</p>
+        <div className="flex justify-end gap-2 mb-3 flex-shrink-0">
+          <button type="button" onClick={() => setAll('local')} className="px-3 py-1 text-xs bg-border text-primary font-medium rounded-md hover:bg-border/70 transition-colors">{t.keepAllMine}</button>
+          <button type="button" onClick={() => setAll('remote')} className="px-3 py-1 text-xs bg-border text-primary font-medium rounded-md hover:bg-border/70 transition-colors">{t.keepAllServer}</button>
+        </div>
+        <div className="flex-grow overflow-y-auto pr-2 space-y-3">
+          {conflicts.map(conflict => (
+            <div key={conflict.id} className="p-3 bg-background rounded-lg border border-border">
+              <p className="font-bold text-primary text-sm">{conflict.label}</p>
+              <p className="text-xs text-secondary mb-2">{ENTITY_LABELS[conflict.entity]} / {FIELD_LABELS[conflict.field] || conflict.field}</p>
+              <div className="flex gap-2">
+                <OptionButton conflict={conflict} side="local" />
+                <OptionButton conflict={conflict} side="remote" />
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="mt-6 flex justify-end gap-3 flex-shrink-0 border-t border-border pt-4">
+          <button type="button" onClick={handleConfirm} className="px-4 py-2 bg-accent text-accent-text font-medium rounded-lg hover:opacity-90 transition-opacity">
+            {t.applyAndSync}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictReviewModal;
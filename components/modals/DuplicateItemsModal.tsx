@@ -0,0 +1,75 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { t } from '../../translations';
+import { CatalogItem } from '../../types';
+import { useShoppingStore } from '../../store/useShoppingStore';
+import { useToast } from '../common/Toast';
+import { useUndoRedo } from '../../hooks/useUndoRedo';
+import { findPossibleDuplicates } from '../../lib/catalog';
+
+interface DuplicateItemsModalProps {
+  onClose: () => void;
+}
+
+const DuplicateItemsModal: React.FC<DuplicateItemsModalProps> = ({ onClose }) => {
+  const { catalog, lists, getAllKnownItems, mergeCatalogItems } = useShoppingStore();
+  const { addToast } = useToast();
+  const { undoAction } = useUndoRedo();
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => { setIsOpen(true); }, []);
+
+  const candidates = useMemo(() => findPossibleDuplicates(catalog), [catalog]);
+  const purchaseCounts = useMemo(() => new Map(getAllKnownItems().map(item => [item.id, item.purchaseCount])), [getAllKnownItems, lists, catalog]);
+
+  const handleClose = () => {
+    setIsOpen(false);
+    setTimeout(onClose, 300);
+  };
+
+  const handleMerge = (keep: CatalogItem, duplicate: CatalogItem) => {
+    mergeCatalogItems(keep.id, duplicate.id);
+    addToast(t.catalogItemsMerged(duplicate.name, keep.name), 'success', undoAction());
+  };
+
+  const renderKeepButton = (keep: CatalogItem, duplicate: CatalogItem) => (
+    <button onClick={() => handleMerge(keep, duplicate)} className="flex-1 px-3 py-2 text-sm bg-border text-primary rounded-lg hover:bg-accent hover:text-accent-text transition-colors">
+      {t.keepItem(keep.name)}
+      <span className="block text-xs opacity-75">{keep.category} / {keep.defaultUnit} · {t.purchaseCountLabel(purchaseCounts.get(keep.id) || 0)}</span>
+    </button>
+  );
+
+  return (
+    <div
+      className={`fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 transition-opacity duration-300 ${isOpen ? 'opacity-100' : 'opacity-0'}`}
+      onClick={handleClose}
+    >
+      <div
+        className={`bg-surface p-6 rounded-xl border border-border w-full max-w-2xl max-h-[90vh] flex flex-col transition-all duration-300 ${isOpen ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-10'}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold text-primary mb-2">{t.possibleDuplicatesTitle}</h2>
+        <p className="text-sm text-secondary mb-4">{t.possibleDuplicatesHint}</p>
+        <div className="overflow-y-auto space-y-3 flex-grow">
+          {candidates.length === 0 ? (
+            <p className="text-center text-secondary py-8">{t.noDuplicatesFound}</p>
+          ) : candidates.map(({ first, second, similarity }) => (
+            <div key={`${first.id}-${second.id}`} className="p-3 bg-background rounded-lg border border-border">
+              <p className="text-xs text-secondary mb-2">{t.similarity}: {Math.round(similarity * 100).toLocaleString('fa-IR')}٪</p>
+              <div className="flex gap-2">
+                {renderKeepButton(first, second)}
+                {renderKeepButton(second, first)}
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="mt-6 flex justify-end">
+          <button type="button" onClick={handleClose} className="px-4 py-2 bg-border text-primary font-medium rounded-lg hover:bg-border/70 transition-colors">
+            {t.close}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateItemsModal;
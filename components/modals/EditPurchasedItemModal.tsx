@@ -2,8 +2,10 @@ import React, { useState, useMemo, useEffect } from 'react';
 import { ShoppingItem, PaymentMethod, PaymentStatus } from '../../types';
 import { t } from '../../translations';
 import CurrencyDisplay from '../common/CurrencyDisplay';
+import PriceInput from '../common/PriceInput';
 import { useShoppingStore } from '../../store/useShoppingStore';
 import { compressImage } from '../../lib/image';
+import { can } from '../../lib/permissions';
 
 interface EditPurchasedItemModalProps {
   item: ShoppingItem;
@@ -12,7 +14,9 @@ interface EditPurchasedItemModalProps {
 }
 
 const EditPurchasedItemModal: React.FC<EditPurchasedItemModalProps> = ({ item, onClose, onSave }) => {
-  const { vendors, findOrCreateVendor } = useShoppingStore();
+  const { vendors, findOrCreateVendor, currentUser } = useShoppingStore();
+  // Correcting a purchase is for buyers; settling what is owed for it is not.
+  const canMarkPaid = can(currentUser, 'payment:markPaid');
   const [isOpen, setIsOpen] = useState(false);
   
   const [purchasedAmount, setPurchasedAmount] = useState<number | ''>(item.purchasedAmount || item.amount);
@@ -41,7 +45,7 @@ const EditPurchasedItemModal: React.FC<EditPurchasedItemModalProps> = ({ item, o
         paidPrice: totalPrice,
         vendorId,
         paymentMethod,
-        paymentStatus,
+        ...(canMarkPaid && { paymentStatus }),
       });
       handleClose();
     }
@@ -60,7 +64,7 @@ const EditPurchasedItemModal: React.FC<EditPurchasedItemModalProps> = ({ item, o
               </div>
               <div>
                 <label className="block text-sm font-medium text-secondary mb-1">{t.pricePerUnitLabel}</label>
-                <input type="number" value={pricePerUnit} onChange={(e) => setPricePerUnit(e.target.value === '' ? '' : parseFloat(e.target.value))} className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent" required />
+                <PriceInput value={pricePerUnit} onChange={setPricePerUnit} className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent" required />
               </div>
             </div>
              <div>
@@ -80,7 +84,7 @@ const EditPurchasedItemModal: React.FC<EditPurchasedItemModalProps> = ({ item, o
               </div>
               <div>
                 <label className="block text-sm font-medium text-secondary mb-1">{t.paymentStatus}</label>
-                <select value={paymentStatus} onChange={(e) => setPaymentStatus(e.target.value as PaymentStatus)} className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent">
+                <select value={paymentStatus} onChange={(e) => setPaymentStatus(e.target.value as PaymentStatus)} disabled={!canMarkPaid} className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent disabled:opacity-50">
                   {Object.values(PaymentStatus).map((status) => <option key={status} value={status}>{status}</option>)}
                 </select>
               </div>
@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { t } from '../../translations';
+import { Vendor } from '../../types';
+import { useShoppingStore } from '../../store/useShoppingStore';
+import { useToast } from '../common/Toast';
+import { useUndoRedo } from '../../hooks/useUndoRedo';
+import JalaliCalendar from '../common/JalaliCalendar';
+import CurrencyDisplay from '../common/CurrencyDisplay';
+import { BilledItem } from '../../lib/payables';
+import { parseJalaliDate, toJalaliDateString } from '../../lib/jalali';
+
+interface InvoiceModalProps {
+  vendor: Vendor;
+  unbilled: BilledItem[];
+  onClose: () => void;
+}
+
+const keyOf = (b: BilledItem) => `${b.listId}/${b.item.id}`;
+
+const InvoiceModal: React.FC<InvoiceModalProps> = ({ vendor, unbilled, onClose }) => {
+  const { createInvoice } = useShoppingStore();
+  const { addToast } = useToast();
+  const { undoAction } = useUndoRedo();
+  const [isOpen, setIsOpen] = useState(false);
+  const [number, setNumber] = useState('');
+  // Bills are usually issued on the day of the latest purchase on them.
+  const [date, setDate] = useState(toJalaliDateString(unbilled[unbilled.length - 1]?.purchaseDate ?? new Date().toISOString()));
+  const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(unbilled.map(keyOf)));
+
+  useEffect(() => { setIsOpen(true); }, []);
+
+  const handleClose = () => {
+    setIsOpen(false);
+    setTimeout(onClose, 300);
+  };
+
+  const toggle = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  const selectedTotal = unbilled.filter(b => selected.has(keyOf(b))).reduce((sum, b) => sum + (b.item.paidPrice || 0), 0);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const items = unbilled.filter(b => selected.has(keyOf(b))).map(b => ({ listId: b.listId, itemId: b.item.id }));
+    if (items.length === 0) {
+      addToast(t.noInvoiceItemsSelected, 'error');
+      return;
+    }
+    createInvoice(vendor.id, items, { number, issuedAt: (parseJalaliDate(date) || new Date()).toISOString() });
+    addToast(t.invoiceCreated, 'success', undoAction());
+    handleClose();
+  };
+
+  return (
+    <div
+      className={`fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 transition-opacity duration-300 ${isOpen ? 'opacity-100' : 'opacity-0'}`}
+      onClick={handleClose}
+    >
+      <div
+        className={`bg-surface p-6 rounded-xl border border-border w-full max-w-lg max-h-[90vh] flex flex-col transition-all duration-300 ${isOpen ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-10'}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold text-primary mb-1">{t.createInvoiceTitle}</h2>
+        <p className="text-sm text-secondary mb-4">{vendor.name}</p>
+        <form onSubmit={handleSubmit} className="flex flex-col min-h-0 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-secondary mb-1">{t.invoiceNumber}</label>
+              <input
+                type="text" value={number} onChange={(e) => setNumber(e.target.value)}
+                className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent"
+                autoFocus
+              />
+            </div>
+            <div className="relative">
+              <label className="block text-sm font-medium text-secondary mb-1">{t.invoiceDate}</label>
+              <input type="text" readOnly value={date} onFocus={() => setIsCalendarOpen(true)} placeholder={t.datePlaceholder} className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent cursor-pointer" />
+              {isCalendarOpen && (
+                <JalaliCalendar
+                  selectedDate={parseJalaliDate(date) || new Date()}
+                  onSelectDate={(selectedDate) => { setDate(toJalaliDateString(selectedDate.toISOString())); setIsCalendarOpen(false); }}
+                />
+              )}
+            </div>
+          </div>
+          <div className="min-h-0 flex flex-col">
+            <label className="block text-sm font-medium text-secondary mb-1">{t.selectInvoiceItems}</label>
+            <ul className="overflow-y-auto divide-y divide-border border border-border rounded-lg">
+              {unbilled.map(b => (
+                <li key={keyOf(b)}>
+                  <label className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer">
+                    <input type="checkbox" checked={selected.has(keyOf(b))} onChange={() => toggle(keyOf(b))} className="accent-accent" />
+                    <span className="flex-1 text-primary">{b.item.name} <span className="text-xs text-secondary">({toJalaliDateString(b.purchaseDate)})</span></span>
+                    <CurrencyDisplay value={b.item.paidPrice || 0} className="text-secondary" />
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div className="flex justify-between items-center text-sm">
+            <span className="text-secondary">{t.invoiceAmount}</span>
+            <CurrencyDisplay value={selectedTotal} className="font-bold text-primary" />
+          </div>
+          <div className="mt-2 flex justify-end gap-3">
+            <button type="button" onClick={handleClose} className="px-4 py-2 bg-border text-primary font-medium rounded-lg hover:bg-border/70 transition-colors">
+              {t.cancel}
+            </button>
+            <button type="submit" className="px-4 py-2 bg-accent text-accent-text font-medium rounded-lg hover:opacity-90 transition-opacity">
+              {t.createInvoice}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default InvoiceModal;
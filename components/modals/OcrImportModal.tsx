@@ -1,21 +1,26 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { t } from '../../translations';
 import { OcrParsedItem, OcrResult, PaymentMethod, PaymentStatus, Unit } from '../../types';
 import { parseReceipt } from '../../lib/gemini';
 import { useShoppingStore } from '../../store/useShoppingStore';
 import { compressImage } from '../../lib/image';
+import PriceAnomalyWarning from '../common/PriceAnomalyWarning';
+import PriceInput from '../common/PriceInput';
 
 interface OcrImportModalProps {
   onClose: () => void;
   onConfirm: (result: OcrResult, paymentMethod: PaymentMethod, paymentStatus: PaymentStatus, vendorName?: string) => void;
 }
 
+// The receipt as it is being corrected; a price can be left empty while it is retyped.
+type OcrDraft = Omit<OcrResult, 'items'> & { items: (Omit<OcrParsedItem, 'price'> & { price: number | '' })[] };
+
 const OcrImportModal: React.FC<OcrImportModalProps> = ({ onClose, onConfirm }) => {
-  const { allCategories, vendors } = useShoppingStore();
+  const { allCategories, vendors, checkPurchasePrice } = useShoppingStore();
   const [isOpen, setIsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [parsedResult, setParsedResult] = useState<OcrResult | null>(null);
+  const [parsedResult, setParsedResult] = useState<OcrDraft | null>(null);
   const [receiptImage, setReceiptImage] = useState<string>('');
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>(PaymentMethod.Card);
   const [paymentStatus, setPaymentStatus] = useState<PaymentStatus>(PaymentStatus.Paid);
@@ -55,12 +60,21 @@ const OcrImportModal: React.FC<OcrImportModalProps> = ({ onClose, onConfirm }) =
     }
   }, [allCategories]);
   
-  const handleItemChange = (index: number, field: keyof OcrParsedItem, value: string | number) => {
+  // Lines without a unit are added in pieces.
+  const priceAnomalies = useMemo(
+    () => (parsedResult?.items || []).map(item => item.price !== '' && item.price > 0 ? checkPurchasePrice(item.name, item.unit || Unit.Piece, item.quantity, item.price) : null),
+    [parsedResult, checkPurchasePrice]
+  );
+
+  const handleItemChange = (index: number, field: keyof OcrParsedItem, value: string | number | '') => {
     if (!parsedResult) return;
     const newItems = [...parsedResult.items];
     const targetItem = newItems[index];
     
-    if (field === 'name' || field === 'suggestedCategory' || field === 'unit') {
+    if (field === 'price' && value === '') {
+        // A cleared price stays empty while editing; it counts as no price when submitted.
+        targetItem.price = '';
+    } else if (field === 'name' || field === 'suggestedCategory' || field === 'unit') {
         // @ts-ignore
         targetItem[field] = value as string;
     } else {
@@ -72,7 +86,8 @@ const OcrImportModal: React.FC<OcrImportModalProps> = ({ onClose, onConfirm }) =
 
   const handleSubmit = () => {
     if (parsedResult) {
-        onConfirm(parsedResult, paymentMethod, paymentStatus, vendorName);
+        const items = parsedResult.items.map(item => ({ ...item, price: item.price === '' ? 0 : item.price }));
+        onConfirm({ ...parsedResult, items }, paymentMethod, paymentStatus, vendorName);
         handleClose();
     }
   };
@@ -137,16 +152,10 @@ const OcrImportModal: React.FC<OcrImportModalProps> = ({ onClose, onConfirm }) =
                         <option value="" disabled>{t.unit}</option>
                         {Object.values(Unit).map(u => <option key={u} value={u}>{u}</option>)}
                     </select>
-                    <div className="relative group">
-                        <input type="number" value={item.price} onChange={e => handleItemChange(index, 'price', e.target.value)} className="w-full px-2 py-1 bg-surface border border-border rounded-md"/>
-                        {item.price > 0 && (
-                            <span className="absolute top-full left-1/2 -translate-x-1/2 mt-1 w-max px-2 py-1 bg-surface text-primary text-xs font-normal rounded-md shadow-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none border border-border z-10">
-                                {t.tomanEquivalent((item.price / 10).toLocaleString('fa-IR'))}
-                            </span>
-                        )}
-                    </div>
+                    <PriceInput value={item.price} onChange={value => handleItemChange(index, 'price', value)} className="w-full px-2 py-1 bg-surface border border-border rounded-md"/>
                     <input type="text" list="categories-ocr" value={item.suggestedCategory || ''} onChange={e => handleItemChange(index, 'suggestedCategory', e.target.value)} placeholder={t.category} className="w-full px-2 py-1 bg-surface border border-border rounded-md"/>
                     <datalist id="categories-ocr">{allCategories().map(cat => <option key={cat} value={cat}/>)}</datalist>
+                    {priceAnomalies[index] && <PriceAnomalyWarning anomaly={priceAnomalies[index]!} unit={item.unit || Unit.Piece} className="col-span-6" />}
                 </div>))}
             </div>
         </>)}
@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import { t } from '../../translations';
+import { PaymentMethod, Vendor } from '../../types';
+import { useShoppingStore } from '../../store/useShoppingStore';
+import { useToast } from '../common/Toast';
+import { useUndoRedo } from '../../hooks/useUndoRedo';
+import JalaliCalendar from '../common/JalaliCalendar';
+import PriceInput from '../common/PriceInput';
+import { InvoiceBalance } from '../../lib/payables';
+import { parseJalaliDate, toJalaliDateString } from '../../lib/jalali';
+import { formatCurrency } from '../../lib/currency';
+
+interface PaymentModalProps {
+  vendor: Vendor;
+  openInvoices: InvoiceBalance[];
+  totalDue: number;
+  invoiceId?: string; // Preselects the invoice being paid
+  onClose: () => void;
+}
+
+// '' stands for a payment on account.
+const ON_ACCOUNT = '';
+
+const PaymentModal: React.FC<PaymentModalProps> = ({ vendor, openInvoices, totalDue, invoiceId, onClose }) => {
+  const { recordPayment, currencyUnit } = useShoppingStore();
+  const { addToast } = useToast();
+  const { undoAction } = useUndoRedo();
+  const [isOpen, setIsOpen] = useState(false);
+  const [target, setTarget] = useState(invoiceId ?? ON_ACCOUNT);
+  const remainingOf = (selected: string) => selected === ON_ACCOUNT
+    ? Math.max(totalDue, 0)
+    : openInvoices.find(b => b.invoice.id === selected)?.balance ?? 0;
+  const [amount, setAmount] = useState<number | ''>(() => remainingOf(invoiceId ?? ON_ACCOUNT) || '');
+  const [date, setDate] = useState(toJalaliDateString(new Date().toISOString()));
+  const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const [method, setMethod] = useState<PaymentMethod>(PaymentMethod.Transfer);
+  const [note, setNote] = useState('');
+
+  useEffect(() => { setIsOpen(true); }, []);
+
+  const handleClose = () => {
+    setIsOpen(false);
+    setTimeout(onClose, 300);
+  };
+
+  const handleTargetChange = (selected: string) => {
+    setTarget(selected);
+    setAmount(remainingOf(selected) || '');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!(Number(amount) > 0)) {
+      addToast(t.invalidPaymentAmount, 'error');
+      return;
+    }
+    recordPayment({
+      vendorId: vendor.id,
+      ...(target !== ON_ACCOUNT && { invoiceId: target }),
+      paidAt: (parseJalaliDate(date) || new Date()).toISOString(),
+      amount: Number(amount),
+      method,
+      note,
+    });
+    addToast(t.paymentRecorded, 'success', undoAction());
+    handleClose();
+  };
+
+  return (
+    <div
+      className={`fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 transition-opacity duration-300 ${isOpen ? 'opacity-100' : 'opacity-0'}`}
+      onClick={handleClose}
+    >
+      <div
+        className={`bg-surface p-6 rounded-xl border border-border w-full max-w-md max-h-[90vh] overflow-y-auto transition-all duration-300 ${isOpen ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-10'}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold text-primary mb-6">{t.recordPaymentTitle(vendor.name)}</h2>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-secondary mb-1">{t.paymentFor}</label>
+            <select value={target} onChange={e => handleTargetChange(e.target.value)} className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent">
+              <option value={ON_ACCOUNT}>{t.onAccount}</option>
+              {openInvoices.map(b => (
+                <option key={b.invoice.id} value={b.invoice.id}>
+                  {t.invoiceLabel(vendor.name, b.invoice.number)} – {toJalaliDateString(b.invoice.issuedAt)} ({formatCurrency(b.balance, currencyUnit)})
+                </option>
+              ))}
+            </select>
+            {target === ON_ACCOUNT && <p className="text-xs text-secondary mt-1">{t.onAccountHint}</p>}
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-secondary mb-1">{t.paymentAmount}</label>
+              <PriceInput
+                value={amount} onChange={setAmount}
+                className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent"
+                required autoFocus
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-secondary mb-1">{t.paymentMethod}</label>
+              <select value={method} onChange={e => setMethod(e.target.value as PaymentMethod)} className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent">
+                {Object.values(PaymentMethod).map(m => <option key={m} value={m}>{m}</option>)}
+              </select>
+            </div>
+          </div>
+          <div className="relative">
+            <label className="block text-sm font-medium text-secondary mb-1">{t.paymentDate}</label>
+            <input type="text" readOnly value={date} onFocus={() => setIsCalendarOpen(true)} placeholder={t.datePlaceholder} className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent cursor-pointer" />
+            {isCalendarOpen && (
+              <JalaliCalendar
+                selectedDate={parseJalaliDate(date) || new Date()}
+                onSelectDate={(selected) => { setDate(toJalaliDateString(selected.toISOString())); setIsCalendarOpen(false); }}
+              />
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-secondary mb-1">{t.paymentNote}</label>
+            <input
+              type="text" value={note} onChange={(e) => setNote(e.target.value)}
+              className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent"
+            />
+          </div>
+          <div className="mt-6 flex justify-end gap-3">
+            <button type="button" onClick={handleClose} className="px-4 py-2 bg-border text-primary font-medium rounded-lg hover:bg-border/70 transition-colors">
+              {t.cancel}
+            </button>
+            <button type="submit" className="px-4 py-2 bg-accent text-accent-text font-medium rounded-lg hover:opacity-90 transition-opacity">
+              {t.recordPayment}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PaymentModal;
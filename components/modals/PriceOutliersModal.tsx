@@ -0,0 +1,96 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { t } from '../../translations';
+import { ShoppingItem } from '../../types';
+import { useShoppingStore } from '../../store/useShoppingStore';
+import { useToast } from '../common/Toast';
+import { useUndoRedo } from '../../hooks/useUndoRedo';
+import CurrencyDisplay from '../common/CurrencyDisplay';
+import PriceAnomalyWarning from '../common/PriceAnomalyWarning';
+import EditPurchasedItemModal from './EditPurchasedItemModal';
+import { can } from '../../lib/permissions';
+import { toJalaliDateString } from '../../lib/jalali';
+
+const EditIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.5L14.732 3.732z" /></svg>;
+
+interface PriceOutliersModalProps {
+  onClose: () => void;
+}
+
+// Past purchases whose price stands out, to catch entry mistakes already in the books.
+const PriceOutliersModal: React.FC<PriceOutliersModalProps> = ({ onClose }) => {
+  const { lists, catalog, getPriceOutliers, updateItem, currentUser } = useShoppingStore();
+  const canEditPurchases = can(currentUser, 'item:buy');
+  const { addToast } = useToast();
+  const { undoAction } = useUndoRedo();
+  const [isOpen, setIsOpen] = useState(false);
+  const [editing, setEditing] = useState<{ listId: string; item: ShoppingItem } | null>(null);
+
+  useEffect(() => { setIsOpen(true); }, []);
+
+  const outliers = useMemo(() => getPriceOutliers(), [getPriceOutliers, lists, catalog]);
+  const catalogMap = useMemo(() => new Map(catalog.map(item => [item.id, item])), [catalog]);
+  const listMap = useMemo(() => new Map(lists.map(list => [list.id, list])), [lists]);
+
+  const handleClose = () => {
+    setIsOpen(false);
+    setTimeout(onClose, 300);
+  };
+
+  const handleSave = (itemId: string, updates: Partial<ShoppingItem>) => {
+    if (!editing) return;
+    updateItem(editing.listId, itemId, updates);
+    addToast(t.itemUpdated, 'info', undoAction());
+  };
+
+  return (
+    <>
+      <div
+        className={`fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 transition-opacity duration-300 ${isOpen ? 'opacity-100' : 'opacity-0'}`}
+        onClick={handleClose}
+      >
+        <div
+          className={`bg-surface p-6 rounded-xl border border-border w-full max-w-2xl max-h-[90vh] flex flex-col transition-all duration-300 ${isOpen ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-10'}`}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <h2 className="text-xl font-bold text-primary mb-2">{t.priceOutliersTitle}</h2>
+          <p className="text-sm text-secondary mb-4">{t.priceOutliersHint}</p>
+          <div className="overflow-y-auto space-y-3 flex-grow">
+            {outliers.length === 0 ? (
+              <p className="text-center text-secondary py-8">{t.noPriceOutliers}</p>
+            ) : outliers.map(({ catalogItemId, point, anomaly }) => {
+              const catalogItem = catalogMap.get(catalogItemId);
+              const list = listMap.get(point.listId);
+              const item = list?.items.find(i => i.id === point.itemId);
+              if (!catalogItem || !list || !item) return null;
+              return (
+                <div key={`${point.listId}/${point.itemId}`} className="p-3 bg-background rounded-lg border border-border">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="font-medium text-primary">{item.name}</p>
+                      <p className="text-xs text-secondary">{list.name} · {toJalaliDateString(list.createdAt)}</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <CurrencyDisplay value={item.paidPrice || 0} className="font-semibold text-primary" />
+                      {canEditPurchases && (
+                        <button onClick={() => setEditing({ listId: list.id, item })} className="p-1.5 text-secondary hover:text-primary"><EditIcon /></button>
+                      )}
+                    </div>
+                  </div>
+                  <PriceAnomalyWarning anomaly={anomaly} unit={catalogItem.defaultUnit} className="mt-2" />
+                </div>
+              );
+            })}
+          </div>
+          <div className="mt-6 flex justify-end">
+            <button type="button" onClick={handleClose} className="px-4 py-2 bg-border text-primary font-medium rounded-lg hover:bg-border/70 transition-colors">
+              {t.close}
+            </button>
+          </div>
+        </div>
+      </div>
+      {editing && <EditPurchasedItemModal item={editing.item} onClose={() => setEditing(null)} onSave={handleSave} />}
+    </>
+  );
+};
+
+export default PriceOutliersModal;
@@ -0,0 +1,150 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { t } from '../../translations';
+import { Recipe, RecipeIngredient, Unit } from '../../types';
+import { useShoppingStore } from '../../store/useShoppingStore';
+import { useToast } from '../common/Toast';
+import { useUndoRedo } from '../../hooks/useUndoRedo';
+import { conversionFactor } from '../../lib/units';
+import PriceInput from '../common/PriceInput';
+
+interface RecipeModalProps {
+  onClose: () => void;
+  recipeToEdit?: Recipe;
+}
+
+type IngredientDraft = Omit<RecipeIngredient, 'quantity'> & { quantity: number | '' };
+
+const RecipeModal: React.FC<RecipeModalProps> = ({ onClose, recipeToEdit }) => {
+  const { catalog, addRecipe, updateRecipe } = useShoppingStore();
+  const { addToast } = useToast();
+  const { undoAction } = useUndoRedo();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState(recipeToEdit?.name || '');
+  const [servings, setServings] = useState<number | ''>(recipeToEdit?.servings ?? 1);
+  const [salePrice, setSalePrice] = useState<number | ''>(recipeToEdit?.salePrice ?? '');
+  const [ingredients, setIngredients] = useState<IngredientDraft[]>(recipeToEdit?.ingredients || []);
+
+  useEffect(() => { setIsOpen(true); }, []);
+
+  const sortedCatalog = useMemo(() => [...catalog].sort((a, b) => a.name.localeCompare(b.name, 'fa')), [catalog]);
+  const catalogById = useMemo(() => new Map(catalog.map(c => [c.id, c])), [catalog]);
+
+  // Only units the ingredient can be converted from can be costed.
+  const unitsFor = (catalogItemId: string): Unit[] => {
+    const item = catalogById.get(catalogItemId);
+    if (!item) return [];
+    return Object.values(Unit).filter(u => conversionFactor(u, item.defaultUnit, item.packSizes) !== null);
+  };
+
+  const handleClose = () => {
+    setIsOpen(false);
+    setTimeout(onClose, 300);
+  };
+
+  const updateIngredient = (index: number, updates: Partial<IngredientDraft>) => {
+    setIngredients(prev => prev.map((ingredient, i) => i === index ? { ...ingredient, ...updates } : ingredient));
+  };
+
+  const handleSelectIngredient = (index: number, catalogItemId: string) => {
+    const item = catalogById.get(catalogItemId);
+    if (item) updateIngredient(index, { catalogItemId, unit: item.defaultUnit });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    const validIngredients = ingredients
+      .filter(i => catalogById.has(i.catalogItemId) && Number(i.quantity) > 0)
+      .map(i => ({ ...i, quantity: Number(i.quantity) }));
+    if (validIngredients.length === 0) {
+      addToast(t.noIngredients, 'error');
+      return;
+    }
+
+    const data = {
+      name: name.trim(),
+      servings: Number(servings) > 0 ? Number(servings) : 1,
+      salePrice: Number(salePrice) > 0 ? Number(salePrice) : undefined,
+      ingredients: validIngredients,
+    };
+    if (recipeToEdit) {
+      updateRecipe(recipeToEdit.id, data);
+      addToast(t.recipeUpdated, 'success', undoAction());
+    } else {
+      addRecipe(data);
+      addToast(t.recipeAdded, 'success');
+    }
+    handleClose();
+  };
+
+  return (
+    <div
+      className={`fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 transition-opacity duration-300 ${isOpen ? 'opacity-100' : 'opacity-0'}`}
+      onClick={handleClose}
+    >
+      <div
+        className={`bg-surface p-6 rounded-xl border border-border w-full max-w-lg max-h-[90vh] overflow-y-auto transition-all duration-300 ${isOpen ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-10'}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold text-primary mb-6">{recipeToEdit ? t.editRecipeTitle : t.addRecipeTitle}</h2>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-secondary mb-1">{t.recipeName}</label>
+            <input
+              type="text" value={name} onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent"
+              required autoFocus
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-secondary mb-1">{t.servings}</label>
+              <input
+                type="number" min="1" step="any" value={servings} onChange={(e) => setServings(e.target.value === '' ? '' : Number(e.target.value))}
+                className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-secondary mb-1">{t.salePrice}</label>
+              <PriceInput
+                value={salePrice} onChange={setSalePrice}
+                className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-secondary -mt-2">{t.servingsHint}</p>
+          <div>
+            <label className="block text-sm font-medium text-secondary mb-1">{t.ingredients}</label>
+            <div className="space-y-2">
+              {ingredients.map((ingredient, index) => (
+                <div key={index} className="flex items-center gap-2 text-sm">
+                  <select value={ingredient.catalogItemId} onChange={e => handleSelectIngredient(index, e.target.value)} className="flex-1 min-w-0 px-2 py-1.5 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent">
+                    <option value="" disabled>{t.selectIngredient}</option>
+                    {sortedCatalog.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                  </select>
+                  <input type="number" min="0" step="any" value={ingredient.quantity} onChange={e => updateIngredient(index, { quantity: e.target.value === '' ? '' : Number(e.target.value) })} className="w-20 px-2 py-1.5 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent" />
+                  <select value={ingredient.unit} onChange={e => updateIngredient(index, { unit: e.target.value as Unit })} disabled={!ingredient.catalogItemId} className="w-24 px-2 py-1.5 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent">
+                    {(ingredient.catalogItemId ? unitsFor(ingredient.catalogItemId) : [ingredient.unit]).map(u => <option key={u} value={u}>{u}</option>)}
+                  </select>
+                  <button type="button" onClick={() => setIngredients(prev => prev.filter((_, i) => i !== index))} className="p-1 text-secondary hover:text-danger">&times;</button>
+                </div>
+              ))}
+            </div>
+            <button type="button" onClick={() => setIngredients(prev => [...prev, { catalogItemId: '', quantity: '', unit: Unit.Gram }])} disabled={catalog.length === 0} className="mt-2 text-sm text-accent hover:underline disabled:opacity-50">{t.addIngredient}</button>
+          </div>
+          <div className="mt-6 flex justify-end gap-3">
+            <button type="button" onClick={handleClose} className="px-4 py-2 bg-border text-primary font-medium rounded-lg hover:bg-border/70 transition-colors">
+              {t.cancel}
+            </button>
+            <button type="submit" className="px-4 py-2 bg-accent text-accent-text font-medium rounded-lg hover:opacity-90 transition-opacity">
+              {recipeToEdit ? t.saveChanges : t.create}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default RecipeModal;
@@ -8,6 +8,8 @@ import { generateReportSummary } from '../../lib/gemini';
 import JalaliCalendar from '../common/JalaliCalendar';
 import { exportComponentAsPdf } from '../../lib/pdfExport';
 import { useToast } from '../common/Toast';
+import { indexCatalog } from '../../lib/catalog';
+import { normalizePurchase } from '../../lib/units';
 
 interface ReportsModalProps {
   onClose: () => void;
@@ -21,7 +23,7 @@ const CalendarIcon = () => (
 
 
 const ReportsModal: React.FC<ReportsModalProps> = ({ onClose }) => {
-  const { lists, vendors } = useShoppingStore();
+  const { lists, vendors, catalog } = useShoppingStore();
   const [isOpen, setIsOpen] = useState(false);
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
@@ -68,14 +70,16 @@ const ReportsModal: React.FC<ReportsModalProps> = ({ onClose }) => {
 
       const filteredLists = lists.filter(list => new Date(list.createdAt) >= start && new Date(list.createdAt) <= end);
       const aggregationMap = new Map<string, Omit<AggregatedShoppingItem, 'purchaseHistory'>>();
+      const catalogIndex = indexCatalog(catalog);
 
       filteredLists.forEach(list => list.items.forEach(item => {
           if (item.status === ItemStatus.Bought) {
-            const key = `${item.name}|${item.unit}|${item.vendorId || 'N/A'}|${item.paymentStatus || 'N/A'}|${item.paymentMethod || 'N/A'}`;
+            const { name, unit, amount } = normalizePurchase(item, item.purchasedAmount ?? item.amount, catalogIndex);
+            const key = `${name}|${unit}|${item.vendorId || 'N/A'}|${item.paymentStatus || 'N/A'}|${item.paymentMethod || 'N/A'}`;
             if (!aggregationMap.has(key)) {
               aggregationMap.set(key, {
-                  name: item.name,
-                  unit: item.unit,
+                  name,
+                  unit,
                   category: item.category || t.other,
                   vendorId: item.vendorId,
                   paymentStatus: item.paymentStatus,
@@ -85,7 +89,7 @@ const ReportsModal: React.FC<ReportsModalProps> = ({ onClose }) => {
               });
             }
             const existing = aggregationMap.get(key)!;
-            existing.totalAmount += item.purchasedAmount ?? item.amount;
+            existing.totalAmount += amount;
             existing.totalPrice += item.paidPrice ?? 0;
           }
       }));
@@ -294,6 +298,7 @@ const PeriodicReportForPdf: React.FC<{
                             <th className="p-2 border">{t.vendor}</th>
                             <th className="p-2 border">{t.totalPurchasedAmount}</th>
                             <th className="p-2 border">{t.totalCost}</th>
+                            <th className="p-2 border">{t.avgPricePerUnit}</th>
                             <th className="p-2 border">{t.paymentStatus}</th>
                             <th className="p-2 border">{t.paymentMethod}</th>
                         </tr>
@@ -305,6 +310,7 @@ const PeriodicReportForPdf: React.FC<{
                                 <td className="p-2 border">{item.vendorId ? vendorMap.get(item.vendorId) || '-' : '-'}</td>
                                 <td className="p-2 border">{item.totalAmount.toLocaleString('fa-IR')} {item.unit}</td>
                                 <td className="p-2 border">{item.totalPrice.toLocaleString('fa-IR')}</td>
+                                <td className="p-2 border">{item.totalAmount > 0 ? Math.round(item.totalPrice / item.totalAmount).toLocaleString('fa-IR') : '-'}</td>
                                 <td className="p-2 border">{item.paymentStatus || '-'}</td>
                                 <td className="p-2 border">{item.paymentMethod || '-'}</td>
                             </tr>
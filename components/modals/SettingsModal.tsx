@@ -1,38 +1,247 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { t } from '../../translations';
+import { BackupSnapshot, CurrencyUnit } from '../../types';
+import { useShoppingStore } from '../../store/useShoppingStore';
+import { useToast } from '../common/Toast';
+import ConfirmModal from './ConfirmModal';
+import { fetchBackups, fetchBackup, createBackup } from '../../lib/api';
+import { migrateStoredData } from '../../lib/schema';
+import { diffStoredData, StoredDataDiff, EntityDiff } from '../../lib/diff';
+import { toJalaliDateString } from '../../lib/jalali';
+import { can } from '../../lib/permissions';
+import { CURRENCY_UNITS } from '../../lib/currency';
 
 interface SettingsModalProps {
   onClose: () => void;
 }
 
+const MAX_NAMES_SHOWN = 5;
+
+const formatBackupDate = (iso: string) =>
+  `${toJalaliDateString(iso)} - ${new Date(iso).toLocaleTimeString('fa-IR', { hour: '2-digit', minute: '2-digit' })}`;
+
+const DiffSection: React.FC<{ title: string; diff: EntityDiff }> = ({ title, diff }) => {
+  const rows = [
+    { names: diff.added, label: t.diffAdded, className: 'text-success' },
+    { names: diff.removed, label: t.diffRemoved, className: 'text-danger' },
+    { names: diff.changed, label: t.diffChanged, className: 'text-accent' },
+  ].filter(row => row.names.length > 0);
+
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="p-3 bg-background rounded-lg border border-border">
+      <p className="font-bold text-primary text-sm mb-2">{title}</p>
+      {rows.map(row => (
+        <div key={row.className} className="mb-2 last:mb-0">
+          <p className={`text-sm font-medium ${row.className}`}>{row.label(row.names.length)}</p>
+          <p className="text-xs text-secondary">
+            {row.names.slice(0, MAX_NAMES_SHOWN).join('، ')}
+            {row.names.length > MAX_NAMES_SHOWN && ` ${t.andMore(row.names.length - MAX_NAMES_SHOWN)}`}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+};
+
 const SettingsModal: React.FC<SettingsModalProps> = ({ onClose }) => {
+  const { lists, vendors, restoreBackup, currentUser, currencyUnit, setCurrencyUnit } = useShoppingStore();
+  const { addToast } = useToast();
   const [isOpen, setIsOpen] = useState(false);
+  const [backups, setBackups] = useState<BackupSnapshot[]>([]);
+  const [backupsConfigured, setBackupsConfigured] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [preview, setPreview] = useState<{ snapshot: BackupSnapshot; diff: StoredDataDiff } | null>(null);
+  const [isRestoreConfirmOpen, setIsRestoreConfirmOpen] = useState(false);
 
   useEffect(() => { setIsOpen(true); }, []);
 
+  const loadBackups = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { snapshots, configured } = await fetchBackups();
+      setBackups(snapshots);
+      setBackupsConfigured(configured);
+    } catch (error) {
+      console.error("Failed to load backups:", error);
+      addToast(t.backupError, 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [addToast]);
+
+  useEffect(() => { loadBackups(); }, [loadBackups]);
+
   const handleClose = () => {
     setIsOpen(false);
     setTimeout(onClose, 300);
   };
 
+  const handleCreateBackup = async () => {
+    setIsBusy(true);
+    try {
+      await createBackup('manual');
+      addToast(t.backupCreated, 'success');
+      await loadBackups();
+    } catch (error) {
+      console.error("Failed to create backup:", error);
+      addToast(t.backupError, 'error');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handlePreview = async (backup: BackupSnapshot) => {
+    setIsBusy(true);
+    try {
+      const { snapshot, data } = await fetchBackup(backup.id);
+      // Older backups are migrated first, so schema changes alone do not show up as differences.
+      const target = migrateStoredData(data).data;
+      setPreview({ snapshot, diff: diffStoredData({ lists, vendors }, target) });
+    } catch (error) {
+      console.error("Failed to preview backup:", error);
+      addToast(t.backupError, 'error');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!preview) return;
+    setIsBusy(true);
+    try {
+      await restoreBackup(preview.snapshot.id);
+      addToast(t.restoreSuccess, 'success');
+      handleClose();
+    } catch (error) {
+      console.error("Failed to restore backup:", error);
+      addToast(t.restoreError, 'error');
+      setIsBusy(false);
+    }
+  };
+
+  const hasChanges = preview && [preview.diff.lists, preview.diff.items, preview.diff.vendors]
+    .some(d => d.added.length + d.removed.length + d.changed.length > 0);
+
   return (
-    <div
-      className={`fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 transition-opacity duration-300 ${isOpen ? 'opacity-100' : 'opacity-0'}`}
-      onClick={handleClose}
-    >
+    <>
       <div
-        className={`bg-surface p-6 rounded-xl border border-border w-full max-w-md transition-all duration-300 ${isOpen ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-10'}`}
-        onClick={(e) => e.stopPropagation()}
+        className={`fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 transition-opacity duration-300 ${isOpen ? 'opacity-100' : 'opacity-0'}`}
+        onClick={handleClose}
       >
-        <h2 className="text-xl font-bold text-primary mb-2">تنظیمات</h2>
-        <p className="text-sm text-secondary mb-6">هیچ تنظیماتی برای نمایش وجود ندارد.</p>
-        <div className="mt-6 flex justify-end gap-3">
-          <button type="button" onClick={handleClose} className="px-4 py-2 bg-accent text-accent-text font-medium rounded-lg hover:opacity-90 transition-opacity">
-            {t.close}
-          </button>
+        <div
+          className={`bg-surface p-6 rounded-xl border border-border w-full max-w-2xl max-h-[90vh] flex flex-col transition-all duration-300 ${isOpen ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-10'}`}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <h2 className="text-xl font-bold text-primary mb-4 flex-shrink-0">{t.settings}</h2>
+
+          <div className="flex-grow overflow-y-auto pr-2">
+            {preview ? (
+              <div className="space-y-3">
+                <button type="button" onClick={() => setPreview(null)} className="text-accent hover:underline text-sm font-medium">
+                  &larr; {t.backToBackups}
+                </button>
+                <h3 className="text-lg font-bold text-primary">{t.restorePreviewTitle(formatBackupDate(preview.snapshot.createdAt))}</h3>
+                {hasChanges ? (
+                  <>
+                    <DiffSection title={t.diffLists} diff={preview.diff.lists} />
+                    <DiffSection title={t.diffItems} diff={preview.diff.items} />
+                    <DiffSection title={t.diffVendors} diff={preview.diff.vendors} />
+                  </>
+                ) : (
+                  <p className="text-sm text-secondary">{t.restoreNoChanges}</p>
+                )}
+              </div>
+            ) : (
+              <div>
+                <div className="mb-6 pb-6 border-b border-border">
+                  <div className="flex items-center justify-between gap-4 mb-2">
+                    <h3 className="text-lg font-bold text-primary">{t.currencyPreference}</h3>
+                    <select
+                      value={currencyUnit}
+                      onChange={(e) => setCurrencyUnit(e.target.value as CurrencyUnit)}
+                      className="px-3 py-1.5 text-sm bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent"
+                    >
+                      {CURRENCY_UNITS.map(unit => <option key={unit} value={unit}>{t.currencyUnits[unit]}</option>)}
+                    </select>
+                  </div>
+                  <p className="text-sm text-secondary">{t.currencyPreferenceHint}</p>
+                </div>
+                <div className="flex items-center justify-between gap-4 mb-2">
+                  <h3 className="text-lg font-bold text-primary">{t.backups}</h3>
+                  {can(currentUser, 'backup:restore') && backupsConfigured && (
+                    <button
+                      type="button"
+                      onClick={handleCreateBackup}
+                      disabled={isBusy}
+                      className="px-3 py-1.5 text-sm bg-surface text-accent font-medium rounded-lg hover:bg-border transition-colors border border-border disabled:opacity-50"
+                    >
+                      {t.createBackupNow}
+                    </button>
+                  )}
+                </div>
+                <p className="text-sm text-secondary mb-4">{t.backupsDescription}</p>
+                {isLoading ? (
+                  <p className="text-sm text-secondary text-center py-6">{t.loadingBackups}</p>
+                ) : !backupsConfigured ? (
+                  <p className="text-sm text-yellow-600 text-center py-6">{t.backupsNotConfigured}</p>
+                ) : backups.length === 0 ? (
+                  <p className="text-sm text-secondary text-center py-6">{t.noBackupsYet}</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {backups.map(backup => (
+                      <li key={backup.id} className="flex items-center justify-between gap-4 p-3 bg-background rounded-lg border border-border">
+                        <div>
+                          <p className="font-medium text-primary text-sm">{formatBackupDate(backup.createdAt)}</p>
+                          <p className="text-xs text-secondary">
+                            {t.backupReasons[backup.reason]} · {t.backupCounts(backup.listCount, backup.itemCount)}
+                          </p>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => handlePreview(backup)}
+                          disabled={isBusy}
+                          className="px-3 py-1 text-xs bg-border text-primary font-medium rounded-md hover:bg-border/70 transition-colors disabled:opacity-50"
+                        >
+                          {t.previewRestore}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="mt-6 flex justify-end gap-3 flex-shrink-0 border-t border-border pt-4">
+            <button type="button" onClick={handleClose} className="px-4 py-2 bg-border text-primary font-medium rounded-lg hover:bg-border/70 transition-colors">
+              {t.close}
+            </button>
+            {preview && hasChanges && can(currentUser, 'backup:restore') && (
+              <button
+                type="button"
+                onClick={() => setIsRestoreConfirmOpen(true)}
+                disabled={isBusy}
+                className="px-4 py-2 bg-danger text-primary font-medium rounded-lg hover:bg-danger/90 transition-opacity disabled:opacity-50"
+              >
+                {t.restoreBackup}
+              </button>
+            )}
+          </div>
         </div>
       </div>
-    </div>
+      <ConfirmModal
+        isOpen={isRestoreConfirmOpen}
+        onClose={() => setIsRestoreConfirmOpen(false)}
+        onConfirm={handleRestore}
+        title={t.restoreBackup}
+        message={t.confirmRestoreBackup}
+        confirmText={t.restoreBackup}
+        variant="danger"
+      />
+    </>
   );
 };
 
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { t } from '../../translations';
-import { Vendor } from '../../types';
+import { Vendor, PaymentTerms } from '../../types';
 import { useShoppingStore } from '../../store/useShoppingStore';
 import { useToast } from '../common/Toast';
 
@@ -17,6 +17,8 @@ const VendorModal: React.FC<VendorModalProps> = ({ onClose, vendorToEdit }) => {
   const [contactPerson, setContactPerson] = useState(vendorToEdit?.contactPerson || '');
   const [phone, setPhone] = useState(vendorToEdit?.phone || '');
   const [address, setAddress] = useState(vendorToEdit?.address || '');
+  const [termsType, setTermsType] = useState<PaymentTerms['type'] | ''>(vendorToEdit?.paymentTerms?.type || '');
+  const [termsDays, setTermsDays] = useState<number | ''>(vendorToEdit?.paymentTerms?.type === 'net' ? vendorToEdit.paymentTerms.days : 30);
 
   const isEditing = !!vendorToEdit;
 
@@ -31,7 +33,11 @@ const VendorModal: React.FC<VendorModalProps> = ({ onClose, vendorToEdit }) => {
     e.preventDefault();
     if (!name.trim()) return;
 
-    const vendorData = { name, contactPerson, phone, address };
+    const paymentTerms: PaymentTerms | undefined =
+      termsType === 'net' ? { type: 'net', days: Math.max(0, Math.round(Number(termsDays) || 0)) }
+      : termsType === 'endOfMonth' ? { type: 'endOfMonth' }
+      : undefined;
+    const vendorData = { name, contactPerson, phone, address, paymentTerms };
 
     if (isEditing) {
       updateVendor(vendorToEdit.id, vendorData);
@@ -84,6 +90,25 @@ const VendorModal: React.FC<VendorModalProps> = ({ onClose, vendorToEdit }) => {
               className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent"
             />
           </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div className={termsType === 'net' ? 'col-span-2' : 'col-span-3'}>
+              <label className="block text-sm font-medium text-secondary mb-1">{t.paymentTerms}</label>
+              <select value={termsType} onChange={(e) => setTermsType(e.target.value as PaymentTerms['type'] | '')} className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent">
+                <option value="">{t.termsOnDelivery}</option>
+                <option value="net">{t.termsNetOption}</option>
+                <option value="endOfMonth">{t.termsEndOfMonth}</option>
+              </select>
+            </div>
+            {termsType === 'net' && (
+              <div>
+                <label className="block text-sm font-medium text-secondary mb-1">{t.termsDays}</label>
+                <input
+                  type="number" min="0" value={termsDays} onChange={(e) => setTermsDays(e.target.value === '' ? '' : Number(e.target.value))}
+                  className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent"
+                />
+              </div>
+            )}
+          </div>
           <div className="mt-6 flex justify-end gap-3">
             <button type="button" onClick={handleClose} className="px-4 py-2 bg-border text-primary font-medium rounded-lg hover:bg-border/70 transition-colors">
               {t.cancel}
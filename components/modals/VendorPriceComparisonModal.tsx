@@ -0,0 +1,107 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { t } from '../../translations';
+import { MasterItem } from '../../types';
+import { useShoppingStore } from '../../store/useShoppingStore';
+import CurrencyDisplay from '../common/CurrencyDisplay';
+import { recommendVendor } from '../../lib/vendorPrices';
+import { toJalaliDateString } from '../../lib/jalali';
+
+interface VendorPriceComparisonModalProps {
+  item: MasterItem;
+  onClose: () => void;
+}
+
+// Days to compare over; 0 is all purchases.
+const PERIODS = [30, 90, 365, 0];
+
+const formatPercent = (fraction: number) => `${Math.round(Math.abs(fraction) * 100).toLocaleString('fa-IR')}٪`;
+
+const VendorPriceComparisonModal: React.FC<VendorPriceComparisonModalProps> = ({ item, onClose }) => {
+  const { lists, catalog, vendors, getVendorPriceComparison } = useShoppingStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [days, setDays] = useState(90);
+
+  const stats = useMemo(() => getVendorPriceComparison(item.id, days || undefined), [getVendorPriceComparison, item.id, days, lists, catalog]);
+  const recommendation = useMemo(() => recommendVendor(stats), [stats]);
+  const vendorName = (vendorId: string) => vendors.find(v => v.id === vendorId)?.name || t.unknownVendor;
+
+  useEffect(() => { setIsOpen(true); }, []);
+
+  const handleClose = () => {
+    setIsOpen(false);
+    setTimeout(onClose, 300);
+  };
+
+  return (
+    <div
+      className={`fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 transition-opacity duration-300 ${isOpen ? 'opacity-100' : 'opacity-0'}`}
+      onClick={handleClose}
+    >
+      <div
+        className={`bg-surface p-6 rounded-xl border border-border w-full max-w-2xl max-h-[90vh] flex flex-col transition-all duration-300 ${isOpen ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-10'}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4 flex-shrink-0">
+          <h2 className="text-xl font-bold text-primary">{t.vendorPriceComparisonTitle(item.name)}</h2>
+          <button onClick={handleClose} className="text-secondary hover:text-primary text-2xl">&times;</button>
+        </div>
+
+        <div className="flex items-center gap-3 mb-4 flex-shrink-0">
+          <label className="text-sm font-medium text-secondary">{t.comparisonPeriod}</label>
+          <select value={days} onChange={(e) => setDays(Number(e.target.value))} className="px-3 py-1.5 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent text-sm">
+            {PERIODS.map(period => <option key={period} value={period}>{period ? t.lastNDays(period) : t.allTime}</option>)}
+          </select>
+          <span className="text-xs text-secondary">{t.pricesPerUnit(item.defaultUnit)}</span>
+        </div>
+
+        {recommendation && (
+          <p className="mb-4 p-3 bg-success-soft text-success text-sm rounded-lg flex-shrink-0">
+            {t.vendorCheaper(vendorName(recommendation.vendorId), vendorName(recommendation.comparedToVendorId), recommendation.saving, days)}
+          </p>
+        )}
+
+        <div className="overflow-y-auto">
+          {stats.length === 0 ? (
+            <p className="text-center text-secondary py-8">{t.noVendorPrices}</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-right text-secondary text-xs">
+                  <th className="py-1 font-medium">{t.vendor}</th>
+                  <th className="py-1 font-medium">{t.lastPrice}</th>
+                  <th className="py-1 font-medium">{t.averagePrice}</th>
+                  <th className="py-1 font-medium">{t.minPrice}</th>
+                  <th className="py-1 font-medium">{t.priceTrend}</th>
+                  <th className="py-1 font-medium">{t.totalPurchases}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.map((s, i) => (
+                  <tr key={s.vendorId} className="border-t border-border">
+                    <td className="py-1.5">
+                      <span className={i === 0 && stats.length > 1 ? 'font-bold text-success' : 'text-primary'}>{vendorName(s.vendorId)}</span>
+                      <span className="block text-xs text-secondary">{toJalaliDateString(s.lastAt)}</span>
+                    </td>
+                    <td className="py-1.5"><CurrencyDisplay value={s.last} /></td>
+                    <td className="py-1.5"><CurrencyDisplay value={s.average} className="font-semibold" /></td>
+                    <td className="py-1.5"><CurrencyDisplay value={s.min} /></td>
+                    <td className="py-1.5">
+                      {s.trend === undefined ? '—' : (
+                        <span className={s.trend > 0 ? 'text-danger' : s.trend < 0 ? 'text-success' : 'text-secondary'}>
+                          {s.trend > 0 ? '▲' : s.trend < 0 ? '▼' : ''} {formatPercent(s.trend)}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-1.5">{s.purchaseCount.toLocaleString('fa-IR')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VendorPriceComparisonModal;
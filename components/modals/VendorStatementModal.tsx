@@ -0,0 +1,227 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { t } from '../../translations';
+import { Vendor, Invoice, Payment } from '../../types';
+import { useShoppingStore } from '../../store/useShoppingStore';
+import { useToast } from '../common/Toast';
+import { useUndoRedo } from '../../hooks/useUndoRedo';
+import CurrencyDisplay from '../common/CurrencyDisplay';
+import ConfirmModal from './ConfirmModal';
+import InvoiceModal from './InvoiceModal';
+import PaymentModal from './PaymentModal';
+import { can } from '../../lib/permissions';
+import { toJalaliDateString } from '../../lib/jalali';
+
+const DeleteIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>;
+
+interface VendorStatementModalProps {
+  vendor: Vendor;
+  onClose: () => void;
+}
+
+type PendingDelete = { invoice: Invoice } | { payment: Payment };
+
+const VendorStatementModal: React.FC<VendorStatementModalProps> = ({ vendor, onClose }) => {
+  const { lists, invoices, payments, getVendorStatement, deleteInvoice, deletePayment, currentUser } = useShoppingStore();
+  const canManage = can(currentUser, 'payment:markPaid');
+  const { addToast } = useToast();
+  const { undoAction } = useUndoRedo();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isInvoiceModalOpen, setIsInvoiceModalOpen] = useState(false);
+  const [paymentModal, setPaymentModal] = useState<{ open: boolean; invoiceId?: string }>({ open: false });
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null);
+
+  const statement = useMemo(() => getVendorStatement(vendor.id), [getVendorStatement, vendor.id, lists, invoices, payments]);
+  const openInvoices = statement.invoices.filter(b => b.balance > 0);
+
+  useEffect(() => { setIsOpen(true); }, []);
+
+  const handleClose = () => {
+    setIsOpen(false);
+    setTimeout(onClose, 300);
+  };
+
+  const confirmDelete = () => {
+    if (!pendingDelete) return;
+    if ('invoice' in pendingDelete) {
+      deleteInvoice(pendingDelete.invoice.id);
+      addToast(t.invoiceDeleted, 'info', undoAction());
+    } else {
+      deletePayment(pendingDelete.payment.id);
+      addToast(t.paymentDeleted, 'info', undoAction());
+    }
+  };
+
+  const describePayment = (payment: Payment) => {
+    const invoice = payment.invoiceId ? invoices.find(i => i.id === payment.invoiceId) : undefined;
+    return [
+      t.paymentLabel(vendor.name),
+      payment.method,
+      invoice ? t.onInvoice(t.invoiceLabel(vendor.name, invoice.number)) : t.onAccount,
+      payment.note,
+    ].filter(Boolean).join(' · ');
+  };
+
+  return (
+    <>
+      <div
+        className={`fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 transition-opacity duration-300 ${isOpen ? 'opacity-100' : 'opacity-0'}`}
+        onClick={handleClose}
+      >
+        <div
+          className={`bg-surface p-6 rounded-xl border border-border w-full max-w-4xl max-h-[90vh] flex flex-col transition-all duration-300 ${isOpen ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-10'}`}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="flex justify-between items-center mb-4 flex-shrink-0">
+            <h2 className="text-xl font-bold text-primary">{t.vendorStatementTitle(vendor.name)}</h2>
+            <button onClick={handleClose} className="text-secondary hover:text-primary text-2xl">&times;</button>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4 p-4 bg-background rounded-lg text-center flex-shrink-0">
+            <div>
+              <p className="text-xs text-secondary">{statement.balance < 0 ? t.vendorCredit : t.invoicesBalance}</p>
+              <CurrencyDisplay value={Math.abs(statement.balance)} className={`font-bold ${statement.balance < 0 ? 'text-success' : 'text-primary'}`} />
+            </div>
+            <div>
+              <p className="text-xs text-secondary">{t.unbilledPurchases}</p>
+              <CurrencyDisplay value={statement.unbilledTotal} className="font-bold text-primary" />
+            </div>
+            <div>
+              <p className="text-xs text-secondary">{t.totalDue}</p>
+              <CurrencyDisplay value={Math.max(statement.totalDue, 0)} className={`font-bold ${statement.totalDue > 0 ? 'text-danger' : 'text-success'}`} />
+            </div>
+          </div>
+
+          {canManage && (
+            <div className="flex justify-end gap-2 mb-4 flex-shrink-0">
+              <button
+                onClick={() => setIsInvoiceModalOpen(true)}
+                disabled={statement.unbilled.length === 0}
+                className="px-3 py-1.5 text-sm bg-surface text-primary font-medium rounded-lg hover:bg-border transition-colors border border-border disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {t.createInvoice}
+              </button>
+              <button
+                onClick={() => setPaymentModal({ open: true })}
+                className="px-3 py-1.5 text-sm bg-accent text-accent-text font-medium rounded-lg hover:opacity-90 transition-opacity"
+              >
+                {t.recordPayment}
+              </button>
+            </div>
+          )}
+
+          <div className="overflow-y-auto space-y-6 pr-1">
+            {statement.invoices.length > 0 && (
+              <section>
+                <h3 className="text-sm font-bold text-secondary mb-2">{t.invoices}</h3>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-right text-secondary text-xs">
+                      <th className="py-1 font-medium">{t.invoice}</th>
+                      <th className="py-1 font-medium">{t.invoiceAmount}</th>
+                      <th className="py-1 font-medium">{t.amountPaid}</th>
+                      <th className="py-1 font-medium">{t.amountRemaining}</th>
+                      {canManage && <th></th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {statement.invoices.map(b => (
+                      <tr key={b.invoice.id} className="border-t border-border">
+                        <td className="py-1.5">
+                          <span className="text-primary">{t.invoiceLabel(vendor.name, b.invoice.number)}</span>
+                          <span className="block text-xs text-secondary">{toJalaliDateString(b.invoice.issuedAt)} · {b.items.map(i => i.item.name).join('، ')}</span>
+                        </td>
+                        <td className="py-1.5"><CurrencyDisplay value={b.amount} /></td>
+                        <td className="py-1.5"><CurrencyDisplay value={b.paid} /></td>
+                        <td className="py-1.5">
+                          {b.balance > 0 ? <CurrencyDisplay value={b.balance} className="text-danger" /> : <span className="text-success">{t.invoiceSettled}</span>}
+                        </td>
+                        {canManage && (
+                          <td className="py-1.5 text-left whitespace-nowrap">
+                            {b.balance > 0 && <button onClick={() => setPaymentModal({ open: true, invoiceId: b.invoice.id })} className="text-xs text-accent hover:underline ml-2">{t.recordPayment}</button>}
+                            <button onClick={() => setPendingDelete({ invoice: b.invoice })} className="p-1.5 text-secondary hover:text-danger align-middle"><DeleteIcon /></button>
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            )}
+
+            {statement.unbilled.length > 0 && (
+              <section>
+                <h3 className="text-sm font-bold text-secondary mb-2">{t.unbilledPurchases}</h3>
+                <ul className="divide-y divide-border text-sm">
+                  {statement.unbilled.map(b => (
+                    <li key={`${b.listId}/${b.item.id}`} className="flex justify-between py-1.5">
+                      <span className="text-primary">{b.item.name} <span className="text-xs text-secondary">({b.listName})</span></span>
+                      <CurrencyDisplay value={b.item.paidPrice || 0} className="text-secondary" />
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            <section>
+              <h3 className="text-sm font-bold text-secondary mb-2">{t.statementLines}</h3>
+              {statement.lines.length === 0 ? (
+                <p className="text-center text-secondary py-4">{t.noTransactionsYet}</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-right text-secondary text-xs">
+                      <th className="py-1 font-medium">{t.date}</th>
+                      <th className="py-1 font-medium"></th>
+                      <th className="py-1 font-medium">{t.charge}</th>
+                      <th className="py-1 font-medium">{t.credit}</th>
+                      <th className="py-1 font-medium">{t.runningBalance}</th>
+                      {canManage && <th></th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {statement.lines.map(line => (
+                      <tr key={line.invoice?.id ?? line.payment!.id} className="border-t border-border">
+                        <td className="py-1.5 whitespace-nowrap">{toJalaliDateString(line.at)}</td>
+                        <td className="py-1.5 text-primary">{line.invoice ? t.invoiceLabel(vendor.name, line.invoice.number) : describePayment(line.payment!)}</td>
+                        <td className="py-1.5">{line.charge > 0 ? <CurrencyDisplay value={line.charge} /> : '—'}</td>
+                        <td className="py-1.5">{line.credit > 0 ? <CurrencyDisplay value={line.credit} /> : '—'}</td>
+                        <td className="py-1.5"><CurrencyDisplay value={line.balance} className={line.balance > 0 ? 'text-danger' : 'text-success'} /></td>
+                        {canManage && (
+                          <td className="py-1.5 text-left">
+                            {line.payment && <button onClick={() => setPendingDelete({ payment: line.payment! })} className="p-1.5 text-secondary hover:text-danger"><DeleteIcon /></button>}
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+          </div>
+        </div>
+      </div>
+      {isInvoiceModalOpen && (
+        <InvoiceModal vendor={vendor} unbilled={statement.unbilled} onClose={() => setIsInvoiceModalOpen(false)} />
+      )}
+      {paymentModal.open && (
+        <PaymentModal
+          vendor={vendor}
+          openInvoices={openInvoices}
+          totalDue={statement.balance}
+          invoiceId={paymentModal.invoiceId}
+          onClose={() => setPaymentModal({ open: false })}
+        />
+      )}
+      <ConfirmModal
+        isOpen={pendingDelete !== null}
+        onClose={() => setPendingDelete(null)}
+        onConfirm={confirmDelete}
+        title={t.confirmDeleteTitle}
+        message={pendingDelete ? ('invoice' in pendingDelete ? t.confirmDeleteInvoice : t.confirmDeletePayment) : ''}
+        variant="danger"
+      />
+    </>
+  );
+};
+
+export default VendorStatementModal;
@@ -0,0 +1,35 @@
+import { useCallback } from 'react';
+import { useShoppingStore } from '../store/useShoppingStore';
+import { useToast } from '../components/common/Toast';
+import { findNewlyExceeded, jalaliMonthOf } from '../lib/budgets';
+import { formatCurrency } from '../lib/currency';
+import { t } from '../translations';
+
+// Asks once for permission to show budget alerts as system notifications too.
+export const requestBudgetNotifications = () => {
+  if ('Notification' in window && Notification.permission === 'default') {
+    Notification.requestPermission();
+  }
+};
+
+// Wraps recording purchases: warns about every budget the purchases push over, in a
+// toast and, where allowed, a system notification.
+export const useBudgetAlerts = () => {
+  const { addToast } = useToast();
+
+  return useCallback((listCreatedAt: string, recordPurchases: () => void) => {
+    const month = jalaliMonthOf(listCreatedAt);
+    const before = useShoppingStore.getState().getBudgetStatus(month);
+    recordPurchases();
+    const { getBudgetStatus, currencyUnit } = useShoppingStore.getState();
+    const after = getBudgetStatus(month);
+
+    findNewlyExceeded(before, after).forEach(status => {
+      const message = t.budgetExceeded(status.category || t.overallBudget, formatCurrency(status.spent, currencyUnit), formatCurrency(status.budget, currencyUnit));
+      addToast(message, 'error');
+      if ('Notification' in window && Notification.permission === 'granted') {
+        new Notification(t.budgetExceededTitle, { body: message });
+      }
+    });
+  }, [addToast]);
+};
@@ -0,0 +1,64 @@
+import { useCallback, useEffect } from 'react';
+import { useShoppingStore, latestCheckpointId, latestUndoEntryId } from '../store/useShoppingStore';
+import { useToast, ToastAction } from '../components/common/Toast';
+import { t } from '../translations';
+
+// Undo/redo through the store, reporting the outcome in a toast.
+export const useUndoRedo = () => {
+  const { addToast } = useToast();
+
+  const run = useCallback((action: 'undo' | 'redo', entryId?: number) => {
+    try {
+      const label = action === 'undo' ? useShoppingStore.getState().undo(entryId) : useShoppingStore.getState().redo();
+      if (label === null) {
+        addToast(action === 'undo' ? t.nothingToUndo : t.nothingToRedo, 'info');
+      } else {
+        addToast(action === 'undo' ? t.undoDone(label) : t.redoDone(label), 'success');
+      }
+    } catch (error) {
+      addToast((error as Error).message, 'error');
+    }
+  }, [addToast]);
+
+  const undo = useCallback(() => run('undo'), [run]);
+  const redo = useCallback(() => run('redo'), [run]);
+
+  // An Undo button for a toast about the change just made. It only ever undoes that change, and
+  // goes away as soon as anything else (another edit, data from the server) has changed the data since.
+  const undoAction = useCallback((): ToastAction | undefined => {
+    const entryId = latestCheckpointId();
+    if (entryId === null || latestUndoEntryId() !== entryId) return undefined;
+    return {
+      label: t.undo,
+      onClick: () => run('undo', entryId),
+      isAvailable: () => latestUndoEntryId() === entryId,
+      subscribe: onChange => useShoppingStore.subscribe(onChange),
+    };
+  }, [run]);
+
+  return { undo, redo, undoAction };
+};
+
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS, or Ctrl+Y). Text fields keep their own undo.
+// Physical key codes are used so the shortcuts also work with a Persian keyboard layout.
+export const useUndoRedoShortcuts = () => {
+  const { undo, redo } = useUndoRedo();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextField(e.target)) return;
+      if (e.code === 'KeyZ' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((e.code === 'KeyZ' && e.shiftKey) || e.code === 'KeyY') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+};
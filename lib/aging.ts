@@ -0,0 +1,119 @@
+import { Invoice, ItemStatus, Payment, PaymentStatus, PaymentTerms, ShoppingList, Vendor } from '../types';
+import { gregorianToJalali } from './jalali';
+import { computeVendorStatement } from './payables';
+import { t } from '../translations';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole days since the epoch, on the same UTC calendar the Jalali dates use.
+const dayNumber = (date: Date): number => Math.floor(date.getTime() / DAY_MS);
+
+export const formatPaymentTerms = (terms?: PaymentTerms): string => {
+    if (!terms) return t.termsOnDelivery;
+    return terms.type === 'net' ? t.termsNet(terms.days) : t.termsEndOfMonth;
+};
+
+// The day a purchase on these terms has to be paid by. Purchases without terms are due on the day.
+export const dueDateOf = (purchasedAt: string, terms?: PaymentTerms): Date => {
+    const purchased = new Date(dayNumber(new Date(purchasedAt)) * DAY_MS);
+    if (!terms) return purchased;
+    if (terms.type === 'net') return new Date(purchased.getTime() + terms.days * DAY_MS);
+    // The last day still in the purchase's Jalali month.
+    const jalaliMonth = (date: Date) => gregorianToJalali(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate())[1];
+    let due = purchased;
+    for (let next = new Date(due.getTime() + DAY_MS); jalaliMonth(next) === jalaliMonth(purchased); next = new Date(next.getTime() + DAY_MS)) {
+        due = next;
+    }
+    return due;
+};
+
+export type AgingBucket = 'current' | 'overdue1to30' | 'overdue31to60' | 'overdue60plus';
+export const AGING_BUCKETS: AgingBucket[] = ['current', 'overdue1to30', 'overdue31to60', 'overdue60plus'];
+
+export const agingBucketOf = (daysOverdue: number): AgingBucket => {
+    if (daysOverdue <= 0) return 'current';
+    if (daysOverdue <= 30) return 'overdue1to30';
+    if (daysOverdue <= 60) return 'overdue31to60';
+    return 'overdue60plus';
+};
+
+// Something still to pay: what is left on an invoice, or a purchase on credit not billed yet.
+export interface AgingEntry {
+    vendorId?: string;
+    invoice?: Invoice;
+    listId?: string; // For purchases not on an invoice
+    name: string; // Item name, for purchases not on an invoice
+    date: string;
+    dueDate: string;
+    amount: number;
+    daysOverdue: number;
+    bucket: AgingBucket;
+}
+
+export type AgingTotals = Record<AgingBucket, number>;
+
+export interface AgingReport {
+    entries: AgingEntry[]; // Most overdue first
+    byVendor: { vendorId?: string; totals: AgingTotals; total: number }[]; // Largest balance first
+    totals: AgingTotals;
+    total: number;
+}
+
+const emptyTotals = (): AgingTotals => ({ current: 0, overdue1to30: 0, overdue31to60: 0, overdue60plus: 0 });
+
+/**
+ * Unpaid purchases by how long past their due date they are. Invoices are due on the
+ * vendor's terms from the invoice date, purchases not billed yet from the purchase date.
+ */
+export const buildAgingReport = (
+    lists: ShoppingList[],
+    vendors: Vendor[],
+    invoices: Invoice[],
+    payments: Payment[],
+    now = new Date(),
+): AgingReport => {
+    const today = dayNumber(now);
+    const entries: AgingEntry[] = [];
+    const addEntry = (entry: Omit<AgingEntry, 'dueDate' | 'daysOverdue' | 'bucket'>, terms?: PaymentTerms) => {
+        const dueDate = dueDateOf(entry.date, terms);
+        const daysOverdue = today - dayNumber(dueDate);
+        entries.push({ ...entry, dueDate: dueDate.toISOString(), daysOverdue, bucket: agingBucketOf(daysOverdue) });
+    };
+
+    vendors.forEach(vendor => {
+        const statement = computeVendorStatement(vendor.id, lists, invoices, payments);
+        statement.invoices
+            .filter(b => b.balance > 0)
+            .forEach(b => addEntry({ vendorId: vendor.id, invoice: b.invoice, name: '', date: b.invoice.issuedAt, amount: b.balance }, vendor.paymentTerms));
+        statement.unbilled.forEach(b =>
+            addEntry({ vendorId: vendor.id, listId: b.listId, name: b.item.name, date: b.purchaseDate, amount: b.item.paidPrice || 0 }, vendor.paymentTerms));
+    });
+
+    // Purchases on credit from a vendor that has since been deleted, or none recorded.
+    const vendorIds = new Set(vendors.map(v => v.id));
+    lists.forEach(list => list.items.forEach(item => {
+        if (item.status !== ItemStatus.Bought || item.paymentStatus !== PaymentStatus.Due) return;
+        if (item.vendorId && vendorIds.has(item.vendorId)) return;
+        addEntry({ listId: list.id, name: item.name, date: list.createdAt, amount: item.paidPrice || 0 });
+    }));
+
+    const totals = emptyTotals();
+    const vendorTotals = new Map<string, AgingTotals>();
+    entries.forEach(entry => {
+        totals[entry.bucket] += entry.amount;
+        const key = entry.vendorId || '';
+        const forVendor = vendorTotals.get(key) || emptyTotals();
+        forVendor[entry.bucket] += entry.amount;
+        vendorTotals.set(key, forVendor);
+    });
+    const sum = (byBucket: AgingTotals) => AGING_BUCKETS.reduce((acc, bucket) => acc + byBucket[bucket], 0);
+
+    return {
+        entries: entries.sort((a, b) => b.daysOverdue - a.daysOverdue),
+        byVendor: [...vendorTotals.entries()]
+            .map(([vendorId, byBucket]) => ({ vendorId: vendorId || undefined, totals: byBucket, total: sum(byBucket) }))
+            .sort((a, b) => b.total - a.total),
+        totals,
+        total: sum(totals),
+    };
+};
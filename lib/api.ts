@@ -1,12 +1,36 @@
-interface StoredData {
-    lists: any[];
-    customCategories: string[];
-    vendors: any[];
-    categoryVendorMap: Record<string, string>;
-    itemInfoMap: Record<string, any>;
+import { StoredData, BackupSnapshot } from '../types';
+
+export interface RemoteSnapshot {
+    data: StoredData | null;
+    revision: string | null;
+}
+
+// Thrown by saveData when the backend copy has changed since `baseRevision`.
+// Carries the current server copy so the caller can decide how to resolve it.
+export class SyncConflictError extends Error {
+    serverData: StoredData | null;
+    serverRevision: string | null;
+
+    constructor(serverData: StoredData | null, serverRevision: string | null) {
+        super("Data was modified on another device since it was last synced.");
+        this.name = 'SyncConflictError';
+        this.serverData = serverData;
+        this.serverRevision = serverRevision;
+    }
+}
+
+// Thrown when the session cookie is missing or has expired.
+export class UnauthorizedError extends Error {
+    constructor() {
+        super("The session has expired. Please log in again.");
+        this.name = 'UnauthorizedError';
+    }
 }
 
 const handleApiError = async (response: Response, context: string): Promise<Error> => {
+    if (response.status === 401) {
+        return new UnauthorizedError();
+    }
     const errorBody = await response.text();
     if (errorBody.trim().startsWith('<!DOCTYPE')) {
         const message = `Backend endpoint not found during ${context}. This is expected if you are not running a Vercel-like development server (e.g., using 'vercel dev'). The application cannot connect to the backend.`;
@@ -16,7 +40,18 @@ const handleApiError = async (response: Response, context: string): Promise<Erro
     return new Error(`Failed during ${context}: ${response.status} ${response.statusText} - ${errorBody}`);
 }
 
-export const fetchData = async (): Promise<StoredData | null> => {
+const parseContent = (content: unknown): StoredData | null => {
+    if (typeof content !== 'string') return null;
+    try {
+        // The content from the backend should already be a JSON string
+        return JSON.parse(content);
+    } catch (e) {
+        console.error("Failed to parse JSON content from backend.", e);
+        return null;
+    }
+};
+
+export const fetchData = async (): Promise<RemoteSnapshot | null> => {
     try {
         const response = await fetch('/api/data', {
             method: 'GET',
@@ -25,7 +60,7 @@ export const fetchData = async (): Promise<StoredData | null> => {
 
         if (response.status === 404 || response.status === 204) {
              console.log("No existing data found on backend.");
-             return null;
+             return { data: null, revision: null };
         }
 
         if (!response.ok) {
@@ -40,39 +75,94 @@ export const fetchData = async (): Promise<StoredData | null> => {
         const data = await response.json();
 
         if (data && data.content) {
-            try {
-                // The content from the backend should already be a JSON string
-                return JSON.parse(data.content);
-            } catch (e) {
-                console.error("Failed to parse JSON content from backend.", e);
-                return null;
-            }
+            return { data: parseContent(data.content), revision: data.revision ?? null };
         }
 
-        return null;
+        return { data: null, revision: null };
 
     } catch (error) {
         console.error("Error in fetchData:", error);
-        // Do not re-throw; let the app load in an empty state. The error is already logged.
+        // An expired session must reach the caller so it can ask the user to log in again.
+        if (error instanceof UnauthorizedError) throw error;
+        // Otherwise do not re-throw; let the app load in an empty state. The error is already logged.
         return null;
     }
 };
 
 
-export const saveData = async (data: StoredData): Promise<void> => {
+// Saves the data on top of `baseRevision` and resolves with the new revision.
+export const saveData = async (data: StoredData, baseRevision: string | null): Promise<string> => {
     try {
         const response = await fetch(`/api/data`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ content: JSON.stringify(data, null, 2) }),
+            body: JSON.stringify({ content: JSON.stringify(data, null, 2), baseRevision }),
         });
 
+        if (response.status === 409) {
+            const conflict = await response.json();
+            throw new SyncConflictError(parseContent(conflict.content), conflict.revision ?? null);
+        }
+
         if (!response.ok) {
             throw await handleApiError(response, 'saveData');
         }
+
+        const result = await response.json();
+        return result.revision;
     } catch (error) {
         console.error("Error in saveData:", error);
         // Re-throw to allow UI to catch and notify the user of a save failure.
         throw error;
     }
 };
+
+
+// --- Backups ---
+
+// `configured` is false when the server has nowhere to keep backups, so none are taken.
+export const fetchBackups = async (): Promise<{ snapshots: BackupSnapshot[]; configured: boolean }> => {
+    const response = await fetch('/api/backups', { headers: { 'Accept': 'application/json' } });
+    if (!response.ok) {
+        throw await handleApiError(response, 'fetchBackups');
+    }
+    const result = await response.json();
+    return { snapshots: result.snapshots, configured: result.configured !== false };
+};
+
+export const fetchBackup = async (id: string): Promise<{ snapshot: BackupSnapshot; data: StoredData | null }> => {
+    const response = await fetch(`/api/backups?id=${encodeURIComponent(id)}`, { headers: { 'Accept': 'application/json' } });
+    if (!response.ok) {
+        throw await handleApiError(response, 'fetchBackup');
+    }
+    const result = await response.json();
+    return { snapshot: result.snapshot, data: parseContent(result.content) };
+};
+
+// Resolves with null when there was no data on the backend to back up.
+export const createBackup = async (reason: 'manual' | 'pre-import'): Promise<BackupSnapshot | null> => {
+    const response = await fetch('/api/backups', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'create', payload: { reason } }),
+    });
+    if (!response.ok) {
+        throw await handleApiError(response, 'createBackup');
+    }
+    const result = await response.json();
+    return result.snapshot;
+};
+
+// Replaces the backend data with the backup; the replaced data is snapshotted first.
+export const restoreFromBackup = async (id: string): Promise<RemoteSnapshot> => {
+    const response = await fetch('/api/backups', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'restore', payload: { id } }),
+    });
+    if (!response.ok) {
+        throw await handleApiError(response, 'restoreBackup');
+    }
+    const result = await response.json();
+    return { data: parseContent(result.content), revision: result.revision };
+};
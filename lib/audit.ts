@@ -0,0 +1,99 @@
+import { AuditEntry, AuditEntity, ShoppingList, User } from '../types';
+
+// The log is saved with the rest of the data, so only the most recent entries are kept.
+export const AUDIT_LOG_LIMIT = 2000;
+
+// What a mutation reports; who made it and when is filled in by `createAuditEntries`.
+export type AuditChange = Omit<AuditEntry, 'id' | 'at' | 'userId' | 'username'>;
+
+type FieldValues = Record<string, unknown>;
+
+export const createAuditEntries = (user: User | null, changes: AuditChange[], at = new Date()): AuditEntry[] =>
+    changes.map((change, index) => ({
+        ...change,
+        id: `audit-${at.getTime()}-${index}-${Math.random().toString(36).slice(2, 6)}`,
+        at: at.toISOString(),
+        userId: user?.id ?? 'unknown',
+        username: user?.username ?? '?',
+    }));
+
+// Combines logs (e.g. this device's and the server's), dropping duplicates and
+// keeping the newest AUDIT_LOG_LIMIT entries in chronological order.
+export const mergeAuditLogs = (...logs: AuditEntry[][]): AuditEntry[] => {
+    const byId = new Map<string, AuditEntry>();
+    logs.forEach(log => log.forEach(entry => {
+        if (!byId.has(entry.id)) byId.set(entry.id, entry);
+    }));
+    return [...byId.values()].sort((a, b) => a.at.localeCompare(b.at)).slice(-AUDIT_LOG_LIMIT);
+};
+
+// The before/after values of the fields that differ, or null when nothing changed.
+export const changedFields = (before: object, after: object, ignore: string[] = []): { before: FieldValues; after: FieldValues } | null => {
+    const from = before as FieldValues;
+    const to = after as FieldValues;
+    const result = { before: {} as FieldValues, after: {} as FieldValues };
+    const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+    keys.forEach(key => {
+        if (ignore.includes(key) || JSON.stringify(from[key]) === JSON.stringify(to[key])) return;
+        result.before[key] = from[key];
+        result.after[key] = to[key];
+    });
+    return Object.keys(result.before).length > 0 ? result : null;
+};
+
+const withoutId = ({ id, ...rest }: { id: string } & FieldValues): FieldValues => rest;
+
+// Describes an edit to a list as changes to the list itself and to each of its items.
+export const diffListChanges = (before: ShoppingList, after: ShoppingList): AuditChange[] => {
+    const changes: AuditChange[] = [];
+
+    const header = changedFields(before, after, ['items']);
+    if (header) {
+        changes.push({ action: 'update', entity: 'list', entityId: after.id, label: after.name, ...header });
+    }
+
+    const beforeItems = new Map(before.items.map(i => [i.id, i]));
+    const afterIds = new Set(after.items.map(i => i.id));
+    const itemChange = (action: AuditChange['action'], item: { id: string; name: string }) => ({
+        action,
+        entity: 'item' as AuditEntity,
+        entityId: `${after.id}/${item.id}`,
+        label: `${item.name} (${after.name})`,
+    });
+
+    after.items.forEach(item => {
+        const previous = beforeItems.get(item.id);
+        if (!previous) {
+            changes.push({ ...itemChange('create', item), after: withoutId({ ...item }) });
+            return;
+        }
+        const fields = changedFields(previous, item);
+        if (fields) changes.push({ ...itemChange('update', item), ...fields });
+    });
+    before.items
+        .filter(item => !afterIds.has(item.id))
+        .forEach(item => changes.push({ ...itemChange('delete', item), before: withoutId({ ...item }) }));
+
+    return changes;
+};
+
+export interface AuditFilter {
+    userId?: string;
+    entity?: AuditEntity;
+    from?: Date | null;
+    to?: Date | null;
+}
+
+// Matching entries, newest first. `to` includes the whole of that day.
+export const filterAuditLog = (log: AuditEntry[], { userId, entity, from, to }: AuditFilter): AuditEntry[] => {
+    const start = from ? new Date(from).setHours(0, 0, 0, 0) : -Infinity;
+    const end = to ? new Date(to).setHours(23, 59, 59, 999) : Infinity;
+    return log
+        .filter(entry => {
+            const time = new Date(entry.at).getTime();
+            return (!userId || entry.userId === userId)
+                && (!entity || entry.entity === entity)
+                && time >= start && time <= end;
+        })
+        .reverse();
+};
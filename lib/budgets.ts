@@ -0,0 +1,55 @@
+import { Budget, ItemStatus, ShoppingList } from '../types';
+import { getDaysInJalaliMonth, toJalaliDateString } from './jalali';
+
+// Jalali "YYYY/MM" of a date, the same calendar day lists are named after.
+export const jalaliMonthOf = (isoDate: string): string => toJalaliDateString(isoDate).slice(0, 7);
+
+export const budgetId = (category?: string, month?: string): string => `budget-${category ?? '*'}-${month ?? '*'}`;
+
+// The budget that applies in a month: the one set for that month, else the recurring one.
+export const budgetFor = (budgets: Budget[], month: string, category?: string): Budget | undefined =>
+    budgets.find(b => b.category === category && b.month === month)
+    ?? budgets.find(b => b.category === category && b.month === undefined);
+
+export interface BudgetStatus {
+    category?: string; // Absent for the overall budget
+    budget: number;
+    spent: number;
+    projected: number; // Month-end spend at the month's rate so far
+}
+
+/**
+ * Spend against every budget that applies in a Jalali month. The projection assumes
+ * the rest of the current month goes like the days so far.
+ */
+export const computeBudgetStatus = (lists: ShoppingList[], budgets: Budget[], month: string, now = new Date()): BudgetStatus[] => {
+    const spentByCategory = new Map<string, number>();
+    let spentTotal = 0;
+    lists
+        .filter(list => jalaliMonthOf(list.createdAt) === month)
+        .forEach(list => list.items.forEach(item => {
+            if (item.status !== ItemStatus.Bought || !item.paidPrice) return;
+            spentByCategory.set(item.category, (spentByCategory.get(item.category) || 0) + item.paidPrice);
+            spentTotal += item.paidPrice;
+        }));
+
+    const [year, monthNumber] = month.split('/').map(Number);
+    const daysInMonth = getDaysInJalaliMonth(year, monthNumber);
+    const today = toJalaliDateString(now.toISOString());
+    const daysElapsed = jalaliMonthOf(now.toISOString()) === month ? Number(today.slice(8)) : daysInMonth;
+
+    const categories = [...new Set(budgets.filter(b => b.category !== undefined).map(b => b.category!))];
+    return [undefined, ...categories].flatMap((category): BudgetStatus[] => {
+        const budget = budgetFor(budgets, month, category);
+        if (!budget) return [];
+        const spent = category === undefined ? spentTotal : spentByCategory.get(category) || 0;
+        return [{ category, budget: budget.amount, spent, projected: spent / daysElapsed * daysInMonth }];
+    });
+};
+
+// Budgets that were within their limit in `before` and are over it in `after`.
+export const findNewlyExceeded = (before: BudgetStatus[], after: BudgetStatus[]): BudgetStatus[] =>
+    after.filter(status => {
+        const previous = before.find(b => b.category === status.category);
+        return status.spent > status.budget && (!previous || previous.spent <= previous.budget);
+    });
@@ -0,0 +1,85 @@
+import { CatalogItem, ShoppingItem } from '../types';
+import { normalizePersian } from './persian';
+
+// Names are matched ignoring case, spacing and Arabic/Persian letter variants,
+// so "شير  پاستوريزه" and "شیر پاستوریزه" are the same item.
+export const normalizeItemName = (name: string): string => normalizePersian(name).toLowerCase();
+
+export const createCatalogItemId = (): string => `catalog-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+type ItemRef = Pick<ShoppingItem, 'name' | 'catalogItemId'>;
+
+export interface CatalogIndex {
+    byId: Map<string, CatalogItem>;
+    // The catalog item with this name or alias.
+    findByName: (name: string) => CatalogItem | undefined;
+    // The catalog item a shopping item belongs to: its linked item, else a name match.
+    resolve: (item: ItemRef) => CatalogItem | undefined;
+    // Groups the purchases of one product, whatever name each was recorded under.
+    // Items not (yet) in the catalog fall back to their name.
+    keyOf: (item: ItemRef) => string;
+}
+
+export const indexCatalog = (catalog: CatalogItem[]): CatalogIndex => {
+    const byId = new Map(catalog.map(c => [c.id, c]));
+    const byName = new Map<string, CatalogItem>();
+    // Canonical names are added last, so they win over another item's alias.
+    catalog.forEach(c => c.aliases.forEach(alias => byName.set(normalizeItemName(alias), c)));
+    catalog.forEach(c => byName.set(normalizeItemName(c.name), c));
+
+    const findByName = (name: string) => byName.get(normalizeItemName(name));
+    const resolve = (item: ItemRef) => (item.catalogItemId && byId.get(item.catalogItemId)) || findByName(item.name);
+    return {
+        byId,
+        findByName,
+        resolve,
+        keyOf: item => resolve(item)?.id ?? `name:${normalizeItemName(item.name)}`,
+    };
+};
+
+// Spaces are ignored when comparing, as "شیرکاکائو" / "شیر کاکائو" / "شیر‌کاکائو" are all common.
+const compactName = (name: string) => normalizeItemName(name).replace(/ /g, '');
+
+const editDistance = (a: string, b: string): number => {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+// 1 for names that only differ in spelling variants, down to 0 for unrelated names.
+export const nameSimilarity = (a: string, b: string): number => {
+    const x = compactName(a);
+    const y = compactName(b);
+    const longest = Math.max(x.length, y.length);
+    return longest === 0 ? 0 : 1 - editDistance(x, y) / longest;
+};
+
+export interface DuplicateCandidate {
+    first: CatalogItem;
+    second: CatalogItem;
+    similarity: number;
+}
+
+// At this threshold one typo is tolerated in names of five letters or more.
+export const DUPLICATE_SIMILARITY = 0.8;
+
+// Pairs of catalog items whose names (or aliases) look like the same product, most similar first.
+export const findPossibleDuplicates = (catalog: CatalogItem[], threshold = DUPLICATE_SIMILARITY): DuplicateCandidate[] => {
+    const candidates: DuplicateCandidate[] = [];
+    catalog.forEach((first, i) => {
+        catalog.slice(i + 1).forEach(second => {
+            let similarity = 0;
+            [first.name, ...first.aliases].forEach(a => [second.name, ...second.aliases].forEach(b => {
+                similarity = Math.max(similarity, nameSimilarity(a, b));
+            }));
+            if (similarity >= threshold) candidates.push({ first, second, similarity });
+        });
+    });
+    return candidates.sort((a, b) => b.similarity - a.similarity);
+};
@@ -0,0 +1,66 @@
+import { Unit } from '../types';
+import { CONTINUOUS_UNITS } from './reorder';
+
+const ONE_DAY = 24 * 60 * 60 * 1000;
+
+// How fast old purchases stop counting: one this many days old weighs half as much as today's.
+const HALF_LIFE_DAYS = 60;
+
+export interface Consumption {
+    dailyUsage: number; // Per day, in the unit of the purchases
+    cycleDays: number; // Typical days between purchases
+    lastQuantity: number;
+    coverDays: number; // How long the last purchase should last at the current usage
+    daysSinceLast: number;
+    daysLeft: number; // Negative once it should have run out
+}
+
+const dayOf = (date: Date) => Math.floor(date.getTime() / ONE_DAY);
+
+/**
+ * How fast an item is used, from what was bought and when. Each purchase is taken to have
+ * run out when the next one was made, so usage is what was bought over the days it lasted;
+ * recent purchases count more, so a change in how much the cafe uses shows up quickly.
+ * Needs purchases on at least two days.
+ */
+export const estimateConsumption = (purchases: { at: Date; quantity: number }[], now = new Date()): Consumption | null => {
+    // Purchases on the same day are one restock.
+    const byDay = new Map<number, number>();
+    purchases.forEach(p => byDay.set(dayOf(p.at), (byDay.get(dayOf(p.at)) || 0) + p.quantity));
+    const restocks = [...byDay.entries()].sort((a, b) => a[0] - b[0]);
+    if (restocks.length < 2) return null;
+
+    const today = dayOf(now);
+    let weightedQuantity = 0;
+    let weightedDays = 0;
+    let totalWeight = 0;
+    for (let i = 1; i < restocks.length; i++) {
+        const weight = 0.5 ** ((today - restocks[i][0]) / HALF_LIFE_DAYS);
+        const days = restocks[i][0] - restocks[i - 1][0];
+        weightedQuantity += weight * restocks[i - 1][1];
+        weightedDays += weight * days;
+        totalWeight += weight;
+    }
+    const dailyUsage = weightedQuantity / weightedDays;
+    if (!(dailyUsage > 0)) return null;
+
+    const [lastDay, lastQuantity] = restocks[restocks.length - 1];
+    const coverDays = lastQuantity / dailyUsage;
+    const daysSinceLast = Math.max(0, today - lastDay);
+    return {
+        dailyUsage,
+        cycleDays: weightedDays / totalWeight,
+        lastQuantity,
+        coverDays,
+        daysSinceLast,
+        daysLeft: coverDays - daysSinceLast,
+    };
+};
+
+// Rounded up to an amount the unit is bought in.
+export const roundRestockQuantity = (quantity: number, unit: Unit): number =>
+    CONTINUOUS_UNITS.has(unit) ? Math.ceil(quantity * 10) / 10 : Math.max(1, Math.ceil(quantity));
+
+// Enough to last until the next usual purchase.
+export const suggestedRestockQuantity = (consumption: Consumption, unit: Unit): number =>
+    roundRestockQuantity(consumption.dailyUsage * consumption.cycleDays, unit);
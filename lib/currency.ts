@@ -0,0 +1,32 @@
+import { CurrencyUnit } from '../types';
+import { t } from '../translations';
+import { toLatinDigits } from './persian';
+
+export const CURRENCY_UNITS: CurrencyUnit[] = ['rial', 'toman', 'thousandToman'];
+
+const RIALS_PER_UNIT: Record<CurrencyUnit, number> = { rial: 1, toman: 10, thousandToman: 10_000 };
+
+export const toRials = (amount: number, unit: CurrencyUnit): number => Math.round(amount * RIALS_PER_UNIT[unit]);
+export const fromRials = (rials: number, unit: CurrencyUnit): number => rials / RIALS_PER_UNIT[unit];
+
+// Whole Rials and Tomans are precise enough; thousands of Tomans need a decimal place.
+const fractionDigits = (unit: CurrencyUnit) => unit === 'thousandToman' ? 1 : 0;
+
+/** An amount in Rials as a number in `unit`, with Persian digits and separators. */
+export const formatAmount = (rials: number, unit: CurrencyUnit): string =>
+    fromRials(rials, unit).toLocaleString('fa-IR', { maximumFractionDigits: fractionDigits(unit) });
+
+export const formatCurrency = (rials: number, unit: CurrencyUnit): string =>
+    `${formatAmount(rials, unit)} ${t.currencyUnits[unit]}`;
+
+/**
+ * Reads a typed amount. Persian and Arabic-Indic digits, thousands separators (, ٬ ،) and
+ * spaces are accepted, and the decimal point may be "." or "٫". Null when it is not a number.
+ */
+export const parseAmount = (text: string): number | null => {
+    const cleaned = toLatinDigits(text)
+        .replace(/[\s,٬،]/g, '')
+        .replace(/٫/g, '.');
+    if (!/^(\d+\.?\d*|\.\d+)$/.test(cleaned)) return null;
+    return Number(cleaned);
+};
@@ -0,0 +1,42 @@
+import { StoredData } from '../types';
+import { isEqual } from './merge';
+
+export interface EntityDiff {
+    added: string[];
+    removed: string[];
+    changed: string[];
+}
+
+export interface StoredDataDiff {
+    lists: EntityDiff;
+    items: EntityDiff;
+    vendors: EntityDiff;
+}
+
+const diffRecords = <T extends { id: string }>(from: T[], to: T[], label: (record: T) => string): EntityDiff => {
+    const fromMap = new Map(from.map(r => [r.id, r]));
+    const toMap = new Map(to.map(r => [r.id, r]));
+    return {
+        added: to.filter(r => !fromMap.has(r.id)).map(label),
+        removed: from.filter(r => !toMap.has(r.id)).map(label),
+        changed: to.filter(r => fromMap.has(r.id) && !isEqual(fromMap.get(r.id), r)).map(label),
+    };
+};
+
+type DiffableData = Pick<StoredData, 'lists' | 'vendors'>;
+
+// Describes what replacing `from` with `to` would change, e.g. before restoring a backup.
+export const diffStoredData = (from: DiffableData, to: DiffableData): StoredDataDiff => {
+    const flattenItems = (data: DiffableData) => data.lists.flatMap(list =>
+        list.items.map(item => ({ ...item, id: `${list.id}/${item.id}`, listName: list.name }))
+    );
+
+    // Items are compared on their own, so a list only counts as changed when its own fields differ.
+    const listHeaders = (data: DiffableData) => data.lists.map(({ items, ...list }) => list);
+
+    return {
+        lists: diffRecords(listHeaders(from), listHeaders(to), l => l.name),
+        items: diffRecords(flattenItems(from), flattenItems(to), i => `${i.name} (${i.listName})`),
+        vendors: diffRecords(from.vendors, to.vendors, v => v.name),
+    };
+};
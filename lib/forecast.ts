@@ -0,0 +1,278 @@
+import { ItemStatus, ShoppingList } from '../types';
+import { gregorianToJalali } from './jalali';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Purchases have to span this many days, and be this many, before there is anything to forecast from.
+const MIN_HISTORY_DAYS = 30;
+const MIN_PURCHASES = 5;
+// Shorter histories get no trend; a line through a few weeks of lumpy purchases says little.
+const MIN_TREND_DAYS = 90;
+// Models are fitted on at most the last two years; older prices say little about today's.
+const FIT_WINDOW_DAYS = 730;
+// Each of these past months is forecast from the ones before it, to see how far off forecasts tend to be.
+const BACKTEST_MONTHS = 6;
+const HISTORY_MONTHS = 12;
+const UPCOMING_MONTHS = 3;
+// Ranges cover about 80% of outcomes, assuming forecast errors like the past ones.
+const Z_80 = 1.28;
+// Relative error assumed until there are enough past months to measure it.
+const DEFAULT_LOG_ERROR = 0.3;
+
+export interface ForecastRange {
+    expected: number;
+    low: number;
+    high: number;
+}
+
+export interface MonthForecast {
+    month: string; // Jalali YYYY/MM
+    actual?: number; // Spent so far, for months that have started
+    forecast?: ForecastRange; // What was (or is) forecast for the whole month
+}
+
+export interface CategoryForecast {
+    category: string;
+    nextMonth: ForecastRange;
+    nextQuarter: ForecastRange;
+}
+
+export interface ExpenseForecast {
+    daily: number; // Expected average per day next month
+    nextMonth: ForecastRange;
+    nextQuarter: ForecastRange; // The three months after this one
+    byCategory: CategoryForecast[]; // Largest first
+    months: MonthForecast[]; // Recent months, this one and the coming three
+}
+
+// Calendar facts about one day, looked up once.
+interface DayInfo {
+    day: number; // Days since the epoch (UTC)
+    weekday: number;
+    jalaliMonth: number; // 1-12
+    monthKey: string;
+    isRamadan: boolean;
+}
+
+interface Seasonality {
+    weekday: number[];
+    jalaliMonth: number[];
+    ramadan: number;
+}
+
+interface Model {
+    seasonality: Seasonality;
+    intercept: number;
+    slope: number; // Per day
+}
+
+let islamicMonthFormat: Intl.DateTimeFormat | null | undefined;
+
+// Ramadan moves through the solar year, so it is looked up in the Islamic calendar where the browser has one.
+const isRamadan = (date: Date): boolean => {
+    if (islamicMonthFormat === undefined) {
+        try {
+            islamicMonthFormat = new Intl.DateTimeFormat('en-u-ca-islamic-umalqura', { month: 'numeric', timeZone: 'UTC' });
+        } catch {
+            islamicMonthFormat = null;
+        }
+    }
+    return islamicMonthFormat?.formatToParts(date).find(part => part.type === 'month')?.value === '9';
+};
+
+const dayInfo = (day: number): DayInfo => {
+    const date = new Date(day * DAY_MS);
+    const [year, month] = gregorianToJalali(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+    return {
+        day,
+        weekday: date.getUTCDay(),
+        jalaliMonth: month,
+        monthKey: `${year}/${String(month).padStart(2, '0')}`,
+        isRamadan: isRamadan(date),
+    };
+};
+
+const sum = (values: number[]) => values.reduce((acc, value) => acc + value, 0);
+
+// Least-squares line through the values, by day.
+const fitLine = (days: DayInfo[], values: number[]): { intercept: number; slope: number } => {
+    const meanX = sum(days.map(d => d.day)) / days.length;
+    const meanY = sum(values) / values.length;
+    let sxx = 0;
+    let sxy = 0;
+    days.forEach((d, i) => {
+        sxx += (d.day - meanX) ** 2;
+        sxy += (d.day - meanX) * (values[i] - meanY);
+    });
+    const slope = sxx > 0 && days.length >= MIN_TREND_DAYS ? sxy / sxx : 0;
+    return { intercept: meanY - slope * meanX, slope };
+};
+
+/**
+ * How much more or less than the trend is spent on each weekday, in each Jalali month (Nowruz,
+ * summer) and during Ramadan. Each factor is pulled toward 1 until there are enough days behind
+ * it, so a single unusual Farvardin does not carry over in full to the next one.
+ */
+const estimateSeasonality = (days: DayInfo[], values: number[]): Seasonality => {
+    const line = fitLine(days, values);
+    const mean = sum(values) / values.length;
+    const ratios = days.map((d, i) => {
+        const trend = line.intercept + line.slope * d.day;
+        return values[i] / (trend > mean / 10 ? trend : mean);
+    });
+    const factor = (matches: (d: DayInfo) => boolean, daysToTrust: number) => {
+        const matching = ratios.filter((_, i) => matches(days[i]));
+        if (matching.length === 0) return 1;
+        const weight = matching.length / (matching.length + daysToTrust);
+        return 1 + (sum(matching) / matching.length - 1) * weight;
+    };
+    const normalized = (factors: number[]) => {
+        const average = sum(factors) / factors.length;
+        return factors.map(f => f / average);
+    };
+    return {
+        weekday: normalized([0, 1, 2, 3, 4, 5, 6].map(weekday => factor(d => d.weekday === weekday, 14))),
+        jalaliMonth: normalized([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12].map(month => factor(d => d.jalaliMonth === month, 60))),
+        ramadan: factor(d => d.isRamadan, 30),
+    };
+};
+
+const seasonalFactor = (seasonality: Seasonality, d: DayInfo) =>
+    seasonality.weekday[d.weekday] * seasonality.jalaliMonth[d.jalaliMonth - 1] * (d.isRamadan ? seasonality.ramadan : 1);
+
+// The trend of the spending with the seasonal ups and downs taken out.
+const fitModel = (days: DayInfo[], values: number[], seasonality: Seasonality): Model => ({
+    seasonality,
+    ...fitLine(days, values.map((value, i) => value / seasonalFactor(seasonality, days[i]))),
+});
+
+const predict = (model: Model, days: DayInfo[]): number =>
+    sum(days.map(d => Math.max(model.intercept + model.slope * d.day, 0) * seasonalFactor(model.seasonality, d)));
+
+const rangeOf = (expected: number, logError: number): ForecastRange => ({
+    expected,
+    low: expected * Math.exp(-Z_80 * logError),
+    high: expected * Math.exp(Z_80 * logError),
+});
+
+// Typical relative error of past forecasts, from their actual/forecast ratios.
+const logErrorOf = (pairs: { actual: number; forecast: number }[]): number => {
+    const logs = pairs.filter(p => p.actual > 0 && p.forecast > 0).map(p => Math.log(p.actual / p.forecast) ** 2);
+    return logs.length >= 2 ? Math.sqrt(sum(logs) / logs.length) : DEFAULT_LOG_ERROR;
+};
+
+/**
+ * Spending forecast for this month and the next three, for the whole cafe and per category.
+ * Seasonality is estimated from all spending; each category gets its own level and trend on top.
+ */
+export const buildExpenseForecast = (lists: ShoppingList[], now = new Date()): ExpenseForecast | null => {
+    const today = Math.floor(now.getTime() / DAY_MS);
+    const purchases = lists.flatMap(list => list.items
+        .filter(item => item.status === ItemStatus.Bought && item.paidPrice)
+        .map(item => ({ day: Math.floor(new Date(list.createdAt).getTime() / DAY_MS), category: item.category, amount: item.paidPrice! })))
+        .filter(p => p.day <= today);
+    if (purchases.length < MIN_PURCHASES) return null;
+
+    // Fitted on whole days only: up to yesterday.
+    const start = Math.min(...purchases.map(p => p.day));
+    const end = today - 1;
+    if (end - start + 1 < MIN_HISTORY_DAYS) return null;
+
+    const days: DayInfo[] = [];
+    for (let day = start; day <= end; day++) days.push(dayInfo(day));
+    const categories = [...new Set(purchases.map(p => p.category))];
+    const series = new Map<string, number[]>(categories.map(category => [category, days.map(() => 0)]));
+    const total = days.map(() => 0);
+    let spentToday = 0;
+    purchases.forEach(p => {
+        if (p.day === today) {
+            spentToday += p.amount;
+            return;
+        }
+        series.get(p.category)![p.day - start] += p.amount;
+        total[p.day - start] += p.amount;
+    });
+
+    // Months with history, oldest first; the first counts only if the history starts on its first day.
+    const pastMonths: { key: string; from: number; to: number }[] = [];
+    days.forEach((d, i) => {
+        const last = pastMonths[pastMonths.length - 1];
+        if (last?.key === d.monthKey) last.to = i;
+        else pastMonths.push({ key: d.monthKey, from: i, to: i });
+    });
+    const isComplete = (m: { from: number }) => m.from > 0 || dayInfo(start - 1).monthKey !== days[0].monthKey;
+    const currentKey = dayInfo(today).monthKey;
+    const completeMonths = pastMonths.filter(m => m.key !== currentKey && isComplete(m));
+
+    const windowBefore = (index: number) => Math.max(0, index - FIT_WINDOW_DAYS);
+    const fitBefore = (index: number, values: number[], seasonality: Seasonality) =>
+        fitModel(days.slice(windowBefore(index), index), values.slice(windowBefore(index), index), seasonality);
+
+    // Past months forecast from what came before them, with seasonality as known then.
+    const backtested = completeMonths.slice(-BACKTEST_MONTHS).filter(m => m.from >= MIN_HISTORY_DAYS);
+    const backtestSeasonality = new Map(backtested.map(m =>
+        [m.key, estimateSeasonality(days.slice(windowBefore(m.from), m.from), total.slice(windowBefore(m.from), m.from))]));
+    const backtest = (values: number[]) => new Map(backtested.map(m => {
+        const model = fitBefore(m.from, values, backtestSeasonality.get(m.key)!);
+        return [m.key, { actual: sum(values.slice(m.from, m.to + 1)), forecast: predict(model, days.slice(m.from, m.to + 1)) }];
+    }));
+
+    // This month and the coming ones, day by day.
+    const upcomingDays: DayInfo[][] = [];
+    for (let day = today; ; day++) {
+        const d = dayInfo(day);
+        const month = upcomingDays[upcomingDays.length - 1];
+        if (month?.[0].monthKey === d.monthKey) month.push(d);
+        else if (upcomingDays.length <= UPCOMING_MONTHS) upcomingDays.push([d]);
+        else break;
+    }
+    // Today is only partly over, so this month is what has been spent so far plus the days after today.
+    const [thisMonthRest, ...comingMonths] = upcomingDays.map(month => month.filter(d => d.day > today));
+
+    const seasonality = estimateSeasonality(days.slice(windowBefore(days.length)), total.slice(windowBefore(days.length)));
+    const forecastSeries = (values: number[], spentThisMonthSoFar: number) => {
+        const model = fitBefore(days.length, values, seasonality);
+        const tested = backtest(values);
+        const logError = logErrorOf([...tested.values()]);
+        const months = comingMonths.map(month => predict(model, month));
+        return {
+            tested,
+            logError,
+            thisMonth: spentThisMonthSoFar + predict(model, thisMonthRest),
+            nextMonth: rangeOf(months[0], logError),
+            nextQuarter: rangeOf(sum(months), logError),
+            coming: months.map(expected => rangeOf(expected, logError)),
+        };
+    };
+
+    const currentMonth = pastMonths.find(m => m.key === currentKey);
+    const spentSoFar = (values: number[]) => (currentMonth ? sum(values.slice(currentMonth.from, currentMonth.to + 1)) : 0);
+    const overall = forecastSeries(total, spentSoFar(total) + spentToday);
+
+    const byCategory = categories
+        .map(category => {
+            const values = series.get(category)!;
+            const spentTodayInCategory = sum(purchases.filter(p => p.day === today && p.category === category).map(p => p.amount));
+            const forecast = forecastSeries(values, spentSoFar(values) + spentTodayInCategory);
+            return { category, nextMonth: forecast.nextMonth, nextQuarter: forecast.nextQuarter };
+        })
+        .filter(c => c.nextQuarter.expected > 0)
+        .sort((a, b) => b.nextMonth.expected - a.nextMonth.expected);
+
+    const months: MonthForecast[] = [
+        ...completeMonths.slice(-HISTORY_MONTHS).map(m => {
+            const tested = overall.tested.get(m.key);
+            return { month: m.key, actual: sum(total.slice(m.from, m.to + 1)), forecast: tested && rangeOf(tested.forecast, overall.logError) };
+        }),
+        { month: currentKey, actual: spentSoFar(total) + spentToday, forecast: rangeOf(overall.thisMonth, overall.logError) },
+        ...comingMonths.map((month, i) => ({ month: month[0].monthKey, forecast: overall.coming[i] })),
+    ];
+
+    return {
+        daily: overall.nextMonth.expected / comingMonths[0].length,
+        nextMonth: overall.nextMonth,
+        nextQuarter: overall.nextQuarter,
+        byCategory,
+        months,
+    };
+};
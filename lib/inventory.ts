@@ -0,0 +1,126 @@
+import { CatalogItem, ItemStatus, ShoppingList, StockCount } from '../types';
+import { indexCatalog } from './catalog';
+import { toDefaultUnit } from './units';
+
+const ONE_DAY = 24 * 60 * 60 * 1000;
+
+export interface StockMovement {
+    at: string;
+    type: 'purchase' | 'count';
+    quantity: number; // Bought or counted, in the item's default unit
+    balance: number | null; // Stock after this movement; unknown until the first count
+    consumed?: number; // On counts after the first: what was used since the previous count
+}
+
+export interface StockLevel {
+    catalogItemId: string;
+    onHand: number; // Last count plus what was bought since
+    estimatedOnHand: number; // `onHand` less the expected usage since the count
+    lastCountedAt: string;
+    dailyUsage?: number; // Unknown until the item has been counted twice
+    daysLeft?: number;
+}
+
+// Purchases and counts per catalog item, oldest first.
+const collectMovements = (lists: ShoppingList[], stockCounts: StockCount[], catalog: CatalogItem[]) => {
+    const index = indexCatalog(catalog);
+    const movements = new Map<string, Omit<StockMovement, 'balance'>[]>();
+    const add = (catalogItemId: string, movement: Omit<StockMovement, 'balance'>) => {
+        if (!movements.has(catalogItemId)) movements.set(catalogItemId, []);
+        movements.get(catalogItemId)!.push(movement);
+    };
+
+    lists.forEach(list => list.items.forEach(item => {
+        if (item.status !== ItemStatus.Bought) return;
+        const catalogItem = index.resolve(item);
+        const quantity = catalogItem && toDefaultUnit(item.purchasedAmount ?? item.amount, item.unit, catalogItem);
+        if (catalogItem && quantity) add(catalogItem.id, { at: list.createdAt, type: 'purchase', quantity });
+    }));
+    stockCounts.forEach(count => count.entries.forEach(entry => {
+        if (index.byId.has(entry.catalogItemId)) add(entry.catalogItemId, { at: count.countedAt, type: 'count', quantity: entry.quantity });
+    }));
+
+    // On the same instant a purchase comes first, so a count right after it includes it.
+    movements.forEach(list => list.sort((a, b) => a.at.localeCompare(b.at) || (a.type === 'purchase' ? -1 : 1)));
+    return movements;
+};
+
+// Running balance through an item's movements, with the usage between counts.
+const runLedger = (movements: Omit<StockMovement, 'balance'>[]): StockMovement[] => {
+    let balance: number | null = null;
+    return movements.map(movement => {
+        if (movement.type === 'purchase') {
+            if (balance !== null) balance += movement.quantity;
+            return { ...movement, balance };
+        }
+        const consumed = balance === null ? undefined : balance - movement.quantity;
+        balance = movement.quantity;
+        return { ...movement, balance, consumed };
+    });
+};
+
+export const getStockLedger = (catalogItemId: string, lists: ShoppingList[], stockCounts: StockCount[], catalog: CatalogItem[]): StockMovement[] =>
+    runLedger(collectMovements(lists, stockCounts, catalog).get(catalogItemId) || []);
+
+/**
+ * Current stock of every item that has been counted at least once. Daily usage is
+ * what was used between counts over the days between them; a count that is higher
+ * than expected (e.g. a purchase that wasn't recorded) counts as no usage.
+ */
+export const computeStockLevels = (lists: ShoppingList[], stockCounts: StockCount[], catalog: CatalogItem[], now = new Date()): Map<string, StockLevel> => {
+    const levels = new Map<string, StockLevel>();
+
+    collectMovements(lists, stockCounts, catalog).forEach((movements, catalogItemId) => {
+        const ledger = runLedger(movements);
+        const counts = ledger.filter(m => m.type === 'count');
+        if (counts.length === 0) return;
+
+        let usedTotal = 0;
+        let daysTotal = 0;
+        for (let i = 1; i < counts.length; i++) {
+            const days = (new Date(counts[i].at).getTime() - new Date(counts[i - 1].at).getTime()) / ONE_DAY;
+            if (days <= 0) continue;
+            usedTotal += Math.max(0, counts[i].consumed ?? 0);
+            daysTotal += days;
+        }
+        const dailyUsage = daysTotal > 0 ? usedTotal / daysTotal : undefined;
+
+        const lastCountedAt = counts[counts.length - 1].at;
+        const onHand = ledger[ledger.length - 1].balance ?? 0;
+        const daysSinceCount = Math.max(0, (now.getTime() - new Date(lastCountedAt).getTime()) / ONE_DAY);
+        const estimatedOnHand = Math.max(0, onHand - (dailyUsage ?? 0) * daysSinceCount);
+
+        levels.set(catalogItemId, {
+            catalogItemId,
+            onHand,
+            estimatedOnHand,
+            lastCountedAt,
+            dailyUsage,
+            daysLeft: dailyUsage ? estimatedOnHand / dailyUsage : undefined,
+        });
+    });
+
+    return levels;
+};
+
+/**
+ * For items that have never been counted: stock estimated from purchase history alone,
+ * assuming each purchase was made as the previous one ran out. Needs two purchases.
+ */
+export const estimateStockFromPurchases = (lists: ShoppingList[], catalog: CatalogItem[], now = new Date()): Map<string, { estimatedOnHand: number; dailyUsage: number }> => {
+    const estimates = new Map<string, { estimatedOnHand: number; dailyUsage: number }>();
+
+    collectMovements(lists, [], catalog).forEach((purchases, catalogItemId) => {
+        if (purchases.length < 2) return;
+        const first = purchases[0];
+        const last = purchases[purchases.length - 1];
+        const days = (new Date(last.at).getTime() - new Date(first.at).getTime()) / ONE_DAY;
+        if (days <= 0) return;
+        // Everything but the last purchase was used up over the period.
+        const dailyUsage = purchases.slice(0, -1).reduce((sum, p) => sum + p.quantity, 0) / days;
+        const daysSinceLast = Math.max(0, (now.getTime() - new Date(last.at).getTime()) / ONE_DAY);
+        estimates.set(catalogItemId, { estimatedOnHand: Math.max(0, last.quantity - dailyUsage * daysSinceLast), dailyUsage });
+    });
+
+    return estimates;
+};
@@ -0,0 +1,153 @@
+import { StoredData } from '../types';
+
+// Local IndexedDB mirror of the stored data, so the app opens instantly and keeps
+// working without a connection. Edits are also recorded in an outbox until the
+// backend has accepted them.
+
+const DB_NAME = 'mehrnoosh-cafe';
+const DB_VERSION = 1;
+const SNAPSHOT_STORE = 'snapshot';
+const OUTBOX_STORE = 'outbox';
+const SNAPSHOT_KEY = 'current';
+
+export interface CachedSnapshot {
+    data: StoredData;
+    revision: string | null; // Backend revision `base` corresponds to
+    base: StoredData | null; // Last copy known to be on the backend
+}
+
+export interface PendingWrite {
+    id?: number;
+    data: StoredData;
+    createdAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error("IndexedDB is not available in this browser."));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+                    db.createObjectStore(SNAPSHOT_STORE);
+                }
+                if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+                    db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later call to retry if opening failed.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+export const loadCachedSnapshot = async (): Promise<CachedSnapshot | null> => {
+    try {
+        const db = await openDb();
+        const tx = db.transaction(SNAPSHOT_STORE, 'readonly');
+        const snapshot = await requestToPromise<CachedSnapshot | undefined>(tx.objectStore(SNAPSHOT_STORE).get(SNAPSHOT_KEY));
+        return snapshot || null;
+    } catch (error) {
+        console.error("Failed to read local cache:", error);
+        return null;
+    }
+};
+
+export const saveCachedSnapshot = async (snapshot: CachedSnapshot): Promise<void> => {
+    try {
+        const db = await openDb();
+        const tx = db.transaction(SNAPSHOT_STORE, 'readwrite');
+        tx.objectStore(SNAPSHOT_STORE).put(snapshot, SNAPSHOT_KEY);
+        await transactionDone(tx);
+    } catch (error) {
+        console.error("Failed to write local cache:", error);
+    }
+};
+
+// Every write carries the whole data set, so a new pending write supersedes the
+// older ones and only the latest is kept.
+export const enqueuePendingWrite = async (data: StoredData): Promise<void> => {
+    try {
+        const db = await openDb();
+        const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+        const store = tx.objectStore(OUTBOX_STORE);
+        store.clear();
+        const entry: PendingWrite = { data, createdAt: new Date().toISOString() };
+        store.add(entry);
+        await transactionDone(tx);
+    } catch (error) {
+        console.error("Failed to queue pending write:", error);
+    }
+};
+
+export const getLatestPendingWrite = async (): Promise<PendingWrite | null> => {
+    try {
+        const db = await openDb();
+        const tx = db.transaction(OUTBOX_STORE, 'readonly');
+        const cursor = await requestToPromise(tx.objectStore(OUTBOX_STORE).openCursor(null, 'prev'));
+        return cursor ? (cursor.value as PendingWrite) : null;
+    } catch (error) {
+        console.error("Failed to read pending writes:", error);
+        return null;
+    }
+};
+
+// Removes the writes the backend has accepted, i.e. those up to and including `upToId`.
+export const completePendingWrites = async (upToId: number): Promise<boolean> => {
+    try {
+        const db = await openDb();
+        const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+        const store = tx.objectStore(OUTBOX_STORE);
+        store.delete(IDBKeyRange.upperBound(upToId));
+        const remaining = await requestToPromise(store.count());
+        await transactionDone(tx);
+        return remaining > 0;
+    } catch (error) {
+        console.error("Failed to clear pending writes:", error);
+        return true;
+    }
+};
+
+// Drops all pending writes without saving them, e.g. when the backend data is replaced by a backup.
+export const discardPendingWrites = async (): Promise<void> => {
+    try {
+        const db = await openDb();
+        const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+        tx.objectStore(OUTBOX_STORE).clear();
+        await transactionDone(tx);
+    } catch (error) {
+        console.error("Failed to discard pending writes:", error);
+    }
+};
+
+export const clearLocalCache = async (): Promise<void> => {
+    try {
+        const db = await openDb();
+        const tx = db.transaction([SNAPSHOT_STORE, OUTBOX_STORE], 'readwrite');
+        tx.objectStore(SNAPSHOT_STORE).clear();
+        tx.objectStore(OUTBOX_STORE).clear();
+        await transactionDone(tx);
+    } catch (error) {
+        console.error("Failed to clear local cache:", error);
+    }
+};
@@ -0,0 +1,271 @@
+import { StoredData, ShoppingList, ShoppingItem, Vendor, CatalogItem, StockCount, Recipe, Budget, Invoice, Payment, MergeConflict, MergeConflictPath } from '../types';
+import { mergeAuditLogs } from './audit';
+import { t } from '../translations';
+
+type Resolution = 'local' | 'remote';
+
+// Records are compared and merged field by field, whatever their type.
+const fieldsOf = <T extends object>(record: T | undefined): Record<string, unknown> => (record ?? {}) as Record<string, unknown>;
+
+export const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (a == null || b == null || typeof a !== 'object' || typeof b !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const aFields = fieldsOf(a);
+  const bFields = fieldsOf(b);
+  const aKeys = Object.keys(aFields).filter(k => aFields[k] !== undefined);
+  const bKeys = Object.keys(bFields).filter(k => bFields[k] !== undefined);
+  if (aKeys.length !== bKeys.length) return false;
+  return aKeys.every(k => isEqual(aFields[k], bFields[k]));
+};
+
+// Picks the value for a single field given the base, local and remote copies.
+// Returns `conflict: true` when both sides changed the field to different values.
+const mergeValue = <V>(base: V | undefined, local: V | undefined, remote: V | undefined): { value: V | undefined; conflict: boolean } => {
+  if (isEqual(local, remote)) return { value: local, conflict: false };
+  if (isEqual(local, base)) return { value: remote, conflict: false };
+  if (isEqual(remote, base)) return { value: local, conflict: false };
+  return { value: local, conflict: true };
+};
+
+interface MergeContext {
+  conflicts: MergeConflict[];
+}
+
+// Field-level merge of a single record. Fields in `nested` are skipped so the caller can merge them separately.
+const mergeFields = <T extends object>(
+  ctx: MergeContext,
+  base: T | undefined,
+  local: T,
+  remote: T,
+  describe: (field: string) => Omit<MergeConflict, 'id' | 'field' | 'localValue' | 'remoteValue'>,
+  nested: string[] = [],
+): T => {
+  const result: Record<string, unknown> = {};
+  const baseFields = fieldsOf(base);
+  const localFields = fieldsOf(local);
+  const remoteFields = fieldsOf(remote);
+  const keys = new Set([...Object.keys(localFields), ...Object.keys(remoteFields), ...Object.keys(baseFields)]);
+  keys.forEach(key => {
+    if (nested.includes(key)) return;
+    const { value, conflict } = mergeValue(baseFields[key], localFields[key], remoteFields[key]);
+    if (value !== undefined) result[key] = value;
+    if (conflict) {
+      const description = describe(key);
+      ctx.conflicts.push({
+        ...description,
+        id: `${JSON.stringify(description.path)}:${key}`,
+        field: key,
+        localValue: localFields[key],
+        remoteValue: remoteFields[key],
+      });
+    }
+  });
+  return result as T;
+};
+
+// Merges two collections of records keyed by id. A record deleted on one side and
+// edited on the other is kept, so recorded purchases are never silently dropped.
+const mergeById = <T extends { id: string }>(
+  base: T[],
+  local: T[],
+  remote: T[],
+  mergeRecord: (base: T | undefined, local: T, remote: T) => T,
+): T[] => {
+  const baseMap = new Map(base.map(r => [r.id, r]));
+  const localMap = new Map(local.map(r => [r.id, r]));
+  const remoteMap = new Map(remote.map(r => [r.id, r]));
+
+  const orderedIds = [...local.map(r => r.id), ...remote.map(r => r.id).filter(id => !localMap.has(id))];
+  const result: T[] = [];
+
+  orderedIds.forEach(id => {
+    const b = baseMap.get(id);
+    const l = localMap.get(id);
+    const r = remoteMap.get(id);
+
+    if (l && r) {
+      result.push(mergeRecord(b, l, r));
+    } else if (l) {
+      // Missing remotely: either added locally, or deleted remotely. Keep it if it was edited locally.
+      if (!b || !isEqual(b, l)) result.push(l);
+    } else if (r) {
+      if (!b || !isEqual(b, r)) result.push(r);
+    }
+  });
+
+  return result;
+};
+
+const mergeRecordMap = <V>(
+  ctx: MergeContext,
+  scope: 'categoryVendorMap',
+  base: Record<string, V>,
+  local: Record<string, V>,
+  remote: Record<string, V>,
+): Record<string, V> => {
+  const result: Record<string, V> = {};
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote), ...Object.keys(base)]);
+  keys.forEach(key => {
+    const { value, conflict } = mergeValue(base[key], local[key], remote[key]);
+    if (value !== undefined) result[key] = value;
+    if (conflict) {
+      ctx.conflicts.push({
+        id: `${scope}:${key}`,
+        entity: scope,
+        label: key,
+        path: { scope, key },
+        field: 'value',
+        localValue: local[key],
+        remoteValue: remote[key],
+      });
+    }
+  });
+  return result;
+};
+
+const mergeStringSet = (base: string[], local: string[], remote: string[]): string[] => {
+  const baseSet = new Set(base);
+  const localSet = new Set(local);
+  const remoteSet = new Set(remote);
+  const kept = [...local, ...remote.filter(v => !localSet.has(v))];
+  // Drop values that existed in the base but were removed on either side.
+  return kept.filter(v => !baseSet.has(v) || (localSet.has(v) && remoteSet.has(v)));
+};
+
+/**
+ * Three-way merge of the stored data. `base` is the copy both sides started from
+ * (the last successful sync), `local` holds this device's edits and `remote` the
+ * current server copy. Non-overlapping edits are combined; fields edited on both
+ * sides keep the local value and are reported in `conflicts` for review.
+ */
+export const mergeStoredData = (
+  base: StoredData | null,
+  local: StoredData,
+  remote: StoredData,
+): { merged: StoredData; conflicts: MergeConflict[] } => {
+  const ctx: MergeContext = { conflicts: [] };
+  const b: StoredData = base || { schemaVersion: local.schemaVersion, lists: [], customCategories: [], vendors: [], categoryVendorMap: {}, catalog: [], stockCounts: [], recipes: [], budgets: [], invoices: [], payments: [], auditLog: [] };
+
+  const lists = mergeById<ShoppingList>(b.lists || [], local.lists || [], remote.lists || [], (baseList, localList, remoteList) => {
+    const merged = mergeFields(ctx, baseList, localList, remoteList, () => ({
+      entity: 'list',
+      label: localList.name,
+      path: { scope: 'list', listId: localList.id },
+    }), ['items']);
+
+    merged.items = mergeById<ShoppingItem>(baseList?.items || [], localList.items || [], remoteList.items || [], (baseItem, localItem, remoteItem) =>
+      mergeFields(ctx, baseItem, localItem, remoteItem, () => ({
+        entity: 'item',
+        label: `${localItem.name} (${localList.name})`,
+        path: { scope: 'item', listId: localList.id, itemId: localItem.id },
+      }))
+    );
+    return merged;
+  });
+
+  const vendors = mergeById<Vendor>(b.vendors || [], local.vendors || [], remote.vendors || [], (baseVendor, localVendor, remoteVendor) =>
+    mergeFields(ctx, baseVendor, localVendor, remoteVendor, () => ({
+      entity: 'vendor',
+      label: localVendor.name,
+      path: { scope: 'vendor', vendorId: localVendor.id },
+    }))
+  );
+
+  const catalog = mergeById<CatalogItem>(b.catalog || [], local.catalog || [], remote.catalog || [], (baseItem, localItem, remoteItem) =>
+    mergeFields(ctx, baseItem, localItem, remoteItem, () => ({
+      entity: 'catalogItem',
+      label: localItem.name,
+      path: { scope: 'catalogItem', catalogItemId: localItem.id },
+    }))
+  );
+
+  // Counts are never edited, so one side's copy is as good as the other's.
+  const stockCounts = mergeById<StockCount>(b.stockCounts || [], local.stockCounts || [], remote.stockCounts || [], (_, localCount) => localCount);
+
+  const recipes = mergeById<Recipe>(b.recipes || [], local.recipes || [], remote.recipes || [], (baseRecipe, localRecipe, remoteRecipe) =>
+    mergeFields(ctx, baseRecipe, localRecipe, remoteRecipe, () => ({
+      entity: 'recipe',
+      label: localRecipe.name,
+      path: { scope: 'recipe', recipeId: localRecipe.id },
+    }))
+  );
+
+  const budgets = mergeById<Budget>(b.budgets || [], local.budgets || [], remote.budgets || [], (baseBudget, localBudget, remoteBudget) =>
+    mergeFields(ctx, baseBudget, localBudget, remoteBudget, () => ({
+      entity: 'budget',
+      label: [localBudget.category || t.overallBudget, localBudget.month].filter(Boolean).join(' – '),
+      path: { scope: 'budget', budgetId: localBudget.id },
+    }))
+  );
+
+  // Invoices and payments are never edited either.
+  const invoices = mergeById<Invoice>(b.invoices || [], local.invoices || [], remote.invoices || [], (_, localInvoice) => localInvoice);
+  const payments = mergeById<Payment>(b.payments || [], local.payments || [], remote.payments || [], (_, localPayment) => localPayment);
+
+  const merged: StoredData = {
+    schemaVersion: local.schemaVersion,
+    lists,
+    vendors,
+    customCategories: mergeStringSet(b.customCategories || [], local.customCategories || [], remote.customCategories || []),
+    categoryVendorMap: mergeRecordMap(ctx, 'categoryVendorMap', b.categoryVendorMap || {}, local.categoryVendorMap || {}, remote.categoryVendorMap || {}),
+    catalog,
+    stockCounts,
+    recipes,
+    budgets,
+    invoices,
+    payments,
+    // The log is append-only, so both sides' entries are simply combined.
+    auditLog: mergeAuditLogs(remote.auditLog || [], local.auditLog || []),
+  };
+
+  return { merged, conflicts: ctx.conflicts };
+};
+
+const setField = <T extends object>(record: T, field: string, value: unknown): T => {
+  const updated = { ...record } as Record<string, unknown>;
+  if (value === undefined) {
+    delete updated[field];
+  } else {
+    updated[field] = value;
+  }
+  return updated as T;
+};
+
+const applyValue = (data: StoredData, path: MergeConflictPath, field: string, value: unknown): StoredData => {
+  switch (path.scope) {
+    case 'list':
+      return { ...data, lists: data.lists.map(l => l.id === path.listId ? setField(l, field, value) : l) };
+    case 'item':
+      return {
+        ...data,
+        lists: data.lists.map(l => l.id !== path.listId ? l : {
+          ...l,
+          items: l.items.map(i => i.id === path.itemId ? setField(i, field, value) : i),
+        }),
+      };
+    case 'vendor':
+      return { ...data, vendors: data.vendors.map(v => v.id === path.vendorId ? setField(v, field, value) : v) };
+    case 'catalogItem':
+      return { ...data, catalog: data.catalog.map(c => c.id === path.catalogItemId ? setField(c, field, value) : c) };
+    case 'recipe':
+      return { ...data, recipes: data.recipes.map(r => r.id === path.recipeId ? setField(r, field, value) : r) };
+    case 'budget':
+      return { ...data, budgets: data.budgets.map(b => b.id === path.budgetId ? setField(b, field, value) : b) };
+    case 'categoryVendorMap':
+      return { ...data, categoryVendorMap: setField(data.categoryVendorMap, path.key, value) };
+  }
+};
+
+// Applies the user's choice for each reviewed conflict on top of the merged data.
+export const applyConflictResolutions = (
+  data: StoredData,
+  conflicts: MergeConflict[],
+  resolutions: Record<string, Resolution>,
+): StoredData => {
+  return conflicts.reduce((acc, conflict) => {
+    const choice = resolutions[conflict.id] || 'local';
+    const value = choice === 'local' ? conflict.localValue : conflict.remoteValue;
+    return applyValue(acc, conflict.path, conflict.field, value);
+  }, data);
+};
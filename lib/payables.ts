@@ -0,0 +1,113 @@
+import { Invoice, ItemStatus, Payment, PaymentStatus, ShoppingItem, ShoppingList } from '../types';
+
+export const createInvoiceId = (): string => `invoice-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+export const createPaymentId = (): string => `payment-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+// A bought item as it appears on a supplier's bill.
+export interface BilledItem {
+    listId: string;
+    listName: string;
+    purchaseDate: string;
+    item: ShoppingItem;
+}
+
+export interface InvoiceBalance {
+    invoice: Invoice;
+    items: BilledItem[];
+    amount: number;
+    paid: number; // Payments applied to it, including its share of payments on account
+    balance: number;
+}
+
+// One row of a vendor statement: an invoice charges the account, a payment credits it.
+export interface StatementLine {
+    at: string;
+    invoice?: Invoice;
+    payment?: Payment;
+    charge: number;
+    credit: number;
+    balance: number; // Running balance after this row
+}
+
+export interface VendorStatement {
+    vendorId: string;
+    invoices: InvoiceBalance[]; // Oldest first
+    lines: StatementLine[];
+    balance: number; // Owed on invoices; negative when the vendor holds credit
+    unbilled: BilledItem[]; // Purchases on credit not on an invoice yet
+    unbilledTotal: number;
+    totalDue: number; // Balance plus unbilled purchases
+}
+
+const byDate = (a: string, b: string) => new Date(a).getTime() - new Date(b).getTime();
+
+// Bought items from this vendor, by the invoice they were billed on ('' for none).
+const collectBilledItems = (lists: ShoppingList[], vendorId: string): Map<string, BilledItem[]> => {
+    const byInvoice = new Map<string, BilledItem[]>();
+    lists.forEach(list => list.items.forEach(item => {
+        if (item.status !== ItemStatus.Bought || item.vendorId !== vendorId) return;
+        const key = item.invoiceId || '';
+        byInvoice.set(key, [...(byInvoice.get(key) || []), { listId: list.id, listName: list.name, purchaseDate: list.createdAt, item }]);
+    }));
+    return byInvoice;
+};
+
+/**
+ * The account with one vendor. Payments for an invoice settle that invoice; anything paid
+ * beyond it, and payments on account, settle the oldest open invoices first.
+ */
+export const computeVendorStatement = (
+    vendorId: string,
+    lists: ShoppingList[],
+    invoices: Invoice[],
+    payments: Payment[],
+): VendorStatement => {
+    const billed = collectBilledItems(lists, vendorId);
+    const vendorPayments = payments.filter(p => p.vendorId === vendorId).sort((a, b) => byDate(a.paidAt, b.paidAt));
+
+    const balances: InvoiceBalance[] = invoices
+        .filter(invoice => invoice.vendorId === vendorId)
+        .sort((a, b) => byDate(a.issuedAt, b.issuedAt))
+        .map(invoice => {
+            const items = billed.get(invoice.id) || [];
+            return { invoice, items, amount: items.reduce((sum, b) => sum + (b.item.paidPrice || 0), 0), paid: 0, balance: 0 };
+        });
+    const balanceById = new Map(balances.map(b => [b.invoice.id, b]));
+
+    let onAccount = 0;
+    vendorPayments.forEach(payment => {
+        const target = payment.invoiceId ? balanceById.get(payment.invoiceId) : undefined;
+        const applied = target ? Math.min(payment.amount, Math.max(target.amount - target.paid, 0)) : 0;
+        if (target) target.paid += applied;
+        onAccount += payment.amount - applied;
+    });
+    balances.forEach(b => {
+        const applied = Math.min(onAccount, Math.max(b.amount - b.paid, 0));
+        b.paid += applied;
+        onAccount -= applied;
+        b.balance = b.amount - b.paid;
+    });
+
+    const events: Omit<StatementLine, 'balance'>[] = [
+        ...balances.map(b => ({ at: b.invoice.issuedAt, invoice: b.invoice, charge: b.amount, credit: 0 })),
+        ...vendorPayments.map(p => ({ at: p.paidAt, payment: p, charge: 0, credit: p.amount })),
+    ];
+    // Same-day invoices come before payments, so paying a bill never shows as credit first.
+    events.sort((a, b) => byDate(a.at, b.at) || (a.invoice ? -1 : 0) - (b.invoice ? -1 : 0));
+    let running = 0;
+    const lines: StatementLine[] = events.map(event => {
+        running += event.charge - event.credit;
+        return { ...event, balance: running };
+    });
+
+    const unbilled = (billed.get('') || [])
+        .filter(b => b.item.paymentStatus === PaymentStatus.Due)
+        .sort((a, b) => byDate(a.purchaseDate, b.purchaseDate));
+    const unbilledTotal = unbilled.reduce((sum, b) => sum + (b.item.paidPrice || 0), 0);
+
+    return { vendorId, invoices: balances, lines, balance: running, unbilled, unbilledTotal, totalDue: running + unbilledTotal };
+};
+
+// Items on an invoice count as paid once the invoice is settled in full.
+export const invoicePaymentStatus = (balance: InvoiceBalance): PaymentStatus =>
+    balance.amount > 0 && balance.balance <= 0 ? PaymentStatus.Paid : PaymentStatus.Due;
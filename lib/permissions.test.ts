@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { findForbiddenDataChange } from './permissions';
+import { ItemStatus, PaymentMethod, PaymentStatus, ShoppingItem, ShoppingList, Unit, UserRole } from '../types';
+
+const pending: ShoppingItem = { id: 'item-1', name: 'شیر', amount: 2, unit: Unit.Liter, status: ItemStatus.Pending, category: 'لبنیات' };
+const boughtOnAccount: ShoppingItem = {
+  id: 'item-2', name: 'قهوه', amount: 1, unit: Unit.Kg, status: ItemStatus.Bought, category: 'نوشیدنی',
+  purchasedAmount: 1, paidPrice: 900000, vendorId: 'vendor-1', paymentMethod: PaymentMethod.Transfer, paymentStatus: PaymentStatus.Due,
+};
+const list: ShoppingList = { id: '1403-01-01', name: 'خرید', createdAt: '2024-03-20T00:00:00.000Z', items: [pending, boughtOnAccount] };
+const current = { lists: [list] };
+
+const withItem = (id: string, updates: Partial<ShoppingItem>) => ({
+  lists: [{ ...list, items: list.items.map(item => item.id === id ? { ...item, ...updates } : item) }],
+});
+const user = (role: UserRole) => ({ role });
+
+const buy = withItem('item-1', {
+  status: ItemStatus.Bought, purchasedAmount: 2, paidPrice: 200000, vendorId: 'vendor-1', paymentMethod: PaymentMethod.Cash, paymentStatus: PaymentStatus.Paid,
+});
+const markPaid = withItem('item-2', { paymentStatus: PaymentStatus.Paid });
+const correctPrice = withItem('item-2', { paidPrice: 950000 });
+const rename = withItem('item-1', { name: 'شیر کم‌چرب' });
+const addItem = { lists: [{ ...list, items: [...list.items, { ...pending, id: 'item-3' }] }] };
+const deleteList = { lists: [] };
+
+describe('findForbiddenDataChange', () => {
+  it('lets the owner make any change', () => {
+    [buy, markPaid, correctPrice, rename, addItem, deleteList].forEach(next =>
+      expect(findForbiddenDataChange(user('owner'), current, next)).toBeNull());
+  });
+
+  it('lets a buyer buy and edit items but not settle payments or delete lists', () => {
+    [buy, correctPrice, rename, addItem].forEach(next =>
+      expect(findForbiddenDataChange(user('buyer'), current, next)).toBeNull());
+    expect(findForbiddenDataChange(user('buyer'), current, markPaid)).toMatchObject({ permission: 'payment:markPaid' });
+    expect(findForbiddenDataChange(user('buyer'), current, deleteList)).toMatchObject({ change: 'delete', permission: 'list:delete' });
+  });
+
+  it('lets an accountant settle payments but not buy or edit items', () => {
+    expect(findForbiddenDataChange(user('accountant'), current, markPaid)).toBeNull();
+    expect(findForbiddenDataChange(user('accountant'), current, buy)).toMatchObject({ permission: 'item:buy' });
+    expect(findForbiddenDataChange(user('accountant'), current, correctPrice)).toMatchObject({ permission: 'item:buy' });
+    expect(findForbiddenDataChange(user('accountant'), current, rename)).toMatchObject({ permission: 'list:edit' });
+    expect(findForbiddenDataChange(user('accountant'), current, addItem)).toMatchObject({ permission: 'list:edit' });
+  });
+});
@@ -0,0 +1,132 @@
+import type { ItemStatus, User, UserRole } from '../types';
+
+// Only type imports here: this module is also used by the API routes.
+
+export type Permission =
+  | 'list:create'
+  | 'list:edit' // Add, edit and remove items still to buy
+  | 'list:delete'
+  | 'item:buy' // Record, edit or undo purchases
+  | 'payment:markPaid'
+  | 'reports:view'
+  | 'vendor:edit'
+  | 'vendor:delete'
+  | 'catalog:edit'
+  | 'stock:count'
+  | 'recipe:edit'
+  | 'budget:edit'
+  | 'data:import'
+  | 'backup:restore'
+  | 'activity:view';
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  owner: [
+    'list:create', 'list:edit', 'list:delete', 'item:buy', 'payment:markPaid', 'reports:view',
+    'vendor:edit', 'vendor:delete', 'catalog:edit', 'stock:count', 'recipe:edit', 'budget:edit', 'data:import', 'backup:restore', 'activity:view',
+  ],
+  buyer: ['list:create', 'list:edit', 'item:buy', 'vendor:edit', 'stock:count'],
+  accountant: ['payment:markPaid', 'reports:view', 'activity:view'],
+};
+
+export const can = (user: Pick<User, 'role'> | null | undefined, permission: Permission): boolean =>
+  !!user && (ROLE_PERMISSIONS[user.role]?.includes(permission) ?? false);
+
+type Collection = 'lists' | 'vendors' | 'catalog' | 'recipes' | 'budgets' | 'invoices' | 'payments' | 'stockCounts';
+type RecordChange = 'add' | 'change' | 'delete';
+
+export interface ForbiddenChange {
+  collection: Collection;
+  change: RecordChange;
+  permission: Permission;
+}
+
+// Which changes to the stored records need which permission. Changes to the items of a list
+// are checked field by field (see `itemChangePermissions`); vendors are created and edited by
+// buyers, so only deleting them is restricted; catalog items are created as new things are
+// added to a list, so only editing and deleting them is. The rest belong to one permission.
+const COLLECTION_RULES: { collection: Collection; permission: Permission; restricts: RecordChange[] }[] = [
+  { collection: 'lists', permission: 'list:create', restricts: ['add'] },
+  { collection: 'lists', permission: 'list:delete', restricts: ['delete'] },
+  { collection: 'vendors', permission: 'vendor:delete', restricts: ['delete'] },
+  { collection: 'catalog', permission: 'catalog:edit', restricts: ['change', 'delete'] },
+  { collection: 'recipes', permission: 'recipe:edit', restricts: ['add', 'change', 'delete'] },
+  { collection: 'budgets', permission: 'budget:edit', restricts: ['add', 'change', 'delete'] },
+  { collection: 'invoices', permission: 'payment:markPaid', restricts: ['add', 'change', 'delete'] },
+  { collection: 'payments', permission: 'payment:markPaid', restricts: ['add', 'change', 'delete'] },
+  { collection: 'stockCounts', permission: 'stock:count', restricts: ['add', 'change', 'delete'] },
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const recordsOf = (records: unknown): Record<string, unknown>[] => Array.isArray(records) ? records.filter(isRecord) : [];
+
+// Records by id, serialized for comparison. Malformed entries are compared like any other.
+const recordsById = (records: unknown): Map<unknown, string> => new Map(
+  (Array.isArray(records) ? records : []).map((record: unknown) =>
+    [typeof record === 'object' && record !== null && 'id' in record ? record.id : record, JSON.stringify(record)]),
+);
+
+const changesBetween = (current: unknown, next: unknown): Set<RecordChange> => {
+  const before = recordsById(current);
+  const after = recordsById(next);
+  const changes = new Set<RecordChange>();
+  before.forEach((record, id) => {
+    if (!after.has(id)) changes.add('delete');
+    else if (after.get(id) !== record) changes.add('change');
+  });
+  after.forEach((_, id) => { if (!before.has(id)) changes.add('add'); });
+  return changes;
+};
+
+const BOUGHT: `${ItemStatus.Bought}` = 'BOUGHT';
+const PURCHASE_FIELDS = new Set(['status', 'purchasedAmount', 'paidPrice', 'vendorId', 'paymentMethod']);
+const PAYMENT_FIELDS = new Set(['paymentStatus', 'invoiceId']);
+
+// What a change to one shopping item needs. Recording, editing or undoing a purchase needs
+// item:buy, and whether it was paid is set along with it; settling the payment afterwards
+// needs payment:markPaid. Anything else is editing the list.
+const itemChangePermissions = (before: Record<string, unknown> | undefined, after: Record<string, unknown> | undefined): Set<Permission> => {
+  if (!before || !after) {
+    return new Set([(before ?? after)?.status === BOUGHT ? 'item:buy' : 'list:edit']);
+  }
+  const changed = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+  const permissions = new Set<Permission>();
+  changed.forEach(field => {
+    if (PURCHASE_FIELDS.has(field)) permissions.add('item:buy');
+    else if (PAYMENT_FIELDS.has(field)) permissions.add(changed.includes('status') ? 'item:buy' : 'payment:markPaid');
+    else permissions.add('list:edit');
+  });
+  return permissions;
+};
+
+const findForbiddenItemChange = (user: Pick<User, 'role'> | null | undefined, currentLists: unknown, nextLists: unknown): ForbiddenChange | null => {
+  const currentById = new Map(recordsOf(currentLists).map(list => [list.id, list]));
+  for (const list of recordsOf(nextLists)) {
+    const before = new Map(recordsOf(currentById.get(list.id)?.items).map(item => [item.id, item]));
+    const after = new Map(recordsOf(list.items).map(item => [item.id, item]));
+    for (const id of new Set([...before.keys(), ...after.keys()])) {
+      const permission = [...itemChangePermissions(before.get(id), after.get(id))].find(p => !can(user, p));
+      if (permission) return { collection: 'lists', change: 'change', permission };
+    }
+  }
+  return null;
+};
+
+/**
+ * The first change from `current` to `next` the user's role does not allow. The data is saved
+ * as a whole, so this is how the server enforces roles on a save (an import included), and how
+ * undo checks that reverting a change is allowed.
+ */
+export const findForbiddenDataChange = (
+  user: Pick<User, 'role'> | null | undefined,
+  current: Partial<Record<Collection, unknown>>,
+  next: Partial<Record<Collection, unknown>>,
+): ForbiddenChange | null => {
+  for (const rule of COLLECTION_RULES) {
+    if (can(user, rule.permission)) continue;
+    const change = [...changesBetween(current[rule.collection], next[rule.collection])].find(c => rule.restricts.includes(c));
+    if (change) return { collection: rule.collection, change, permission: rule.permission };
+  }
+  return findForbiddenItemChange(user, current.lists, next.lists);
+};
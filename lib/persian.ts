@@ -0,0 +1,26 @@
+// Persian text typed on different keyboards (or pasted from Arabic sources) uses different
+// code points for what reads as the same letter; these helpers reduce it to one spelling.
+
+const ARABIC_TO_PERSIAN: Record<string, string> = {
+    'ي': 'ی', 'ى': 'ی', 'ئ': 'ی',
+    'ك': 'ک',
+    'ة': 'ه', 'ۀ': 'ه', 'ہ': 'ه',
+    'أ': 'ا', 'إ': 'ا', 'ٱ': 'ا',
+    'ؤ': 'و',
+};
+
+// Persian (۰-۹) and Arabic-Indic (٠-٩) digits to 0-9.
+export const toLatinDigits = (value: string): string => value
+    .replace(/[۰-۹]/g, d => String(d.charCodeAt(0) - 0x06F0))
+    .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660));
+
+/**
+ * One spelling for display-equivalent text: Arabic letter forms become Persian ones,
+ * diacritics and tatweel are dropped, digits become Latin, and zero-width joiners
+ * and runs of whitespace become a single space.
+ */
+export const normalizePersian = (value: string): string => toLatinDigits(value)
+    .replace(/[يىئكةۀہأإٱؤ]/g, c => ARABIC_TO_PERSIAN[c])
+    .replace(/[\u064B-\u065F\u0670\u0640]/g, '') // Harakat, superscript alef, tatweel
+    .replace(/[\u200B-\u200F\s]+/g, ' ') // Zero-width space, (non-)joiners, direction marks
+    .trim();
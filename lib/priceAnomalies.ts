@@ -0,0 +1,63 @@
+import { PricePoint } from './recipes';
+
+// A price is compared with this many of the item's purchases around it.
+const NEIGHBOURING_PURCHASES = 10;
+
+// Fewer purchases than this say too little about what the item usually costs.
+const MIN_HISTORY = 3;
+
+// Robust z-score (from the median and median absolute deviation) above which a price is unusual.
+const Z_THRESHOLD = 3.5;
+
+// Prices of items that hardly ever change still have to be this far off to be flagged.
+const MIN_DEVIATION = 0.3;
+
+export interface PriceAnomaly {
+    median: number; // What the item usually costs, per unit
+    price: number; // Per the same unit
+    ratio: number; // price / median
+    decimalShift: boolean; // Off by about a power of ten: a misplaced zero, or Toman entered as Rial
+}
+
+export interface PriceOutlier {
+    catalogItemId: string;
+    point: PricePoint;
+    anomaly: PriceAnomaly;
+}
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/** Whether a price per default unit stands out from what was paid for the item in `points`. */
+export const checkPrice = (points: PricePoint[], price: number): PriceAnomaly | null => {
+    const prices = points.map(p => p.price);
+    if (prices.length < MIN_HISTORY || price <= 0) return null;
+    const usual = median(prices);
+    if (usual <= 0) return null;
+    const ratio = price / usual;
+    if (Math.abs(ratio - 1) < MIN_DEVIATION) return null;
+    // With identical prices there is no spread to measure against; the deviation alone decides.
+    const spread = median(prices.map(p => Math.abs(p - usual)));
+    if (spread > 0 && 0.6745 * Math.abs(price - usual) / spread < Z_THRESHOLD) return null;
+    const decades = Math.abs(Math.log10(ratio));
+    return { median: usual, price, ratio, decimalShift: Math.round(decades) >= 1 && Math.abs(decades - Math.round(decades)) < 0.15 };
+};
+
+/** Checks a new purchase against the item's most recent ones. */
+export const checkNewPrice = (points: PricePoint[], price: number): PriceAnomaly | null =>
+    checkPrice(points.slice(-NEIGHBOURING_PURCHASES), price);
+
+/** Past purchases that stand out from those just before and after them, the furthest off first. */
+export const findPriceOutliers = (history: Map<string, PricePoint[]>): PriceOutlier[] => {
+    const outliers: PriceOutlier[] = [];
+    const half = NEIGHBOURING_PURCHASES / 2;
+    history.forEach((points, catalogItemId) => points.forEach((point, i) => {
+        const neighbours = [...points.slice(Math.max(0, i - half), i), ...points.slice(i + 1, i + 1 + half)];
+        const anomaly = checkPrice(neighbours, point.price);
+        if (anomaly) outliers.push({ catalogItemId, point, anomaly });
+    }));
+    return outliers.sort((a, b) => Math.abs(Math.log(b.anomaly.ratio)) - Math.abs(Math.log(a.anomaly.ratio)));
+};
@@ -0,0 +1,91 @@
+import { PricePoint } from './recipes';
+import { jalaliMonthOf } from './budgets';
+
+// Index value of the first month with purchases.
+export const INDEX_BASE = 100;
+
+export interface PriceIndex {
+    months: string[]; // Jalali months with purchases (YYYY/MM), oldest first
+    overall: (number | null)[];
+    byGroup: Map<string, (number | null)[]>; // null before the group's first purchase
+}
+
+interface MonthlyPurchases {
+    spend: number;
+    quantity: number; // In the item's default unit
+}
+
+/**
+ * Our own "basket" price index, month by month. Each month is linked to the one before
+ * Laspeyres-style: what last month's quantities of the items bought in both months would
+ * cost at this month's prices, over what they did cost. Links are chained from the first
+ * month, so the basket follows what we buy instead of staying fixed.
+ */
+export const computePriceIndex = (
+    history: Map<string, PricePoint[]>,
+    groupOf: (catalogItemId: string) => string | undefined,
+): PriceIndex => {
+    const byMonth = new Map<string, Map<string, MonthlyPurchases>>();
+    history.forEach((points, catalogItemId) => points.forEach(point => {
+        const month = jalaliMonthOf(point.at);
+        if (!byMonth.has(month)) byMonth.set(month, new Map());
+        const purchases = byMonth.get(month)!;
+        const entry = purchases.get(catalogItemId) || { spend: 0, quantity: 0 };
+        purchases.set(catalogItemId, { spend: entry.spend + point.price * point.quantity, quantity: entry.quantity + point.quantity });
+    }));
+    const months = [...byMonth.keys()].sort();
+
+    const chain = (includes: (catalogItemId: string) => boolean): (number | null)[] => {
+        const series: (number | null)[] = [];
+        months.forEach((month, i) => {
+            const current = byMonth.get(month)!;
+            const previousValue = i > 0 ? series[i - 1] : null;
+            if (previousValue === null) {
+                series.push([...current.keys()].some(includes) ? INDEX_BASE : null);
+                return;
+            }
+            let atCurrentPrices = 0;
+            let atPreviousPrices = 0;
+            byMonth.get(months[i - 1])!.forEach((previous, catalogItemId) => {
+                const now = current.get(catalogItemId);
+                if (!now || !includes(catalogItemId)) return;
+                atCurrentPrices += (now.spend / now.quantity) * previous.quantity;
+                atPreviousPrices += previous.spend;
+            });
+            // Nothing bought in both months: prices are taken as unchanged.
+            series.push(atPreviousPrices > 0 ? previousValue * (atCurrentPrices / atPreviousPrices) : previousValue);
+        });
+        return series;
+    };
+
+    const groups = new Set([...history.keys()].map(groupOf).filter((group): group is string => !!group));
+    return {
+        months,
+        overall: chain(() => true),
+        byGroup: new Map([...groups].map(group => [group, chain(catalogItemId => groupOf(catalogItemId) === group)])),
+    };
+};
+
+const shiftMonth = (month: string, delta: number): string => {
+    const [year, monthNumber] = month.split('/').map(Number);
+    const total = year * 12 + monthNumber - 1 + delta;
+    return `${Math.floor(total / 12)}/${String(total % 12 + 1).padStart(2, '0')}`;
+};
+
+/** Change of a series over the `months` calendar months up to its last month, as a fraction. */
+export const indexChange = (index: PriceIndex, series: (number | null)[], months: number): number | undefined => {
+    const last = index.months.length - 1;
+    if (last < 0) return undefined;
+    const from = series[index.months.indexOf(shiftMonth(index.months[last], -months))];
+    const to = series[last];
+    return from && to ? to / from - 1 : undefined;
+};
+
+// The series value for the month containing a date, or the last one before it.
+export const indexAsOf = (index: PriceIndex, series: (number | null)[], isoDate: string): number | null => {
+    const month = jalaliMonthOf(isoDate);
+    for (let i = index.months.length - 1; i >= 0; i--) {
+        if (index.months[i] <= month) return series[i];
+    }
+    return null;
+};
@@ -0,0 +1,103 @@
+import { CatalogItem, ItemStatus, Recipe, RecipeIngredient, ShoppingList, Unit } from '../types';
+import { indexCatalog } from './catalog';
+import { toDefaultUnit } from './units';
+
+export type CostMethod = 'latest' | 'average';
+
+// The moving average is over this many of the most recent purchases, weighted by quantity.
+export const MOVING_AVERAGE_PURCHASES = 3;
+
+export const createRecipeId = (): string => `recipe-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+export interface PricePoint {
+    at: string;
+    quantity: number; // In the item's default unit
+    price: number; // Paid per default unit
+    vendorId?: string;
+    listId: string;
+    itemId: string;
+}
+
+// Paid prices per catalog item, oldest first.
+export const buildPriceHistory = (lists: ShoppingList[], catalog: CatalogItem[]): Map<string, PricePoint[]> => {
+    const index = indexCatalog(catalog);
+    const history = new Map<string, PricePoint[]>();
+    lists.forEach(list => list.items.forEach(item => {
+        if (item.status !== ItemStatus.Bought || !item.paidPrice || !item.purchasedAmount) return;
+        const catalogItem = index.resolve(item);
+        const quantity = catalogItem && toDefaultUnit(item.purchasedAmount, item.unit, catalogItem);
+        if (!catalogItem || !quantity) return;
+        if (!history.has(catalogItem.id)) history.set(catalogItem.id, []);
+        history.get(catalogItem.id)!.push({ at: list.createdAt, quantity, price: item.paidPrice / quantity, vendorId: item.vendorId, listId: list.id, itemId: item.id });
+    }));
+    history.forEach(points => points.sort((a, b) => a.at.localeCompare(b.at)));
+    return history;
+};
+
+// Price per default unit as of a date (or now): the last price paid, or the moving average.
+export const priceAsOf = (points: PricePoint[], method: CostMethod, asOf?: string): number | undefined => {
+    const known = asOf ? points.filter(p => p.at <= asOf) : points;
+    if (known.length === 0) return undefined;
+    if (method === 'latest') return known[known.length - 1].price;
+    const recent = known.slice(-MOVING_AVERAGE_PURCHASES);
+    const quantity = recent.reduce((sum, p) => sum + p.quantity, 0);
+    return recent.reduce((sum, p) => sum + p.price * p.quantity, 0) / quantity;
+};
+
+export interface IngredientCost {
+    ingredient: RecipeIngredient;
+    catalogItem?: CatalogItem;
+    unitPrice?: number; // Per the ingredient's unit
+    cost?: number; // Unknown until the ingredient has been bought in a convertible unit
+}
+
+export interface RecipeCost {
+    lines: IngredientCost[];
+    total: number; // Of the ingredients that could be costed
+    perServing: number;
+    isComplete: boolean;
+}
+
+/** Costs a recipe with `priceOf`, which gives an item's price per the unit asked for. */
+export const costRecipe = (
+    recipe: Recipe,
+    catalog: CatalogItem[],
+    priceOf: (catalogItem: CatalogItem, unit: Unit) => number | undefined,
+): RecipeCost => {
+    const byId = new Map(catalog.map(c => [c.id, c]));
+    const lines = recipe.ingredients.map((ingredient): IngredientCost => {
+        const catalogItem = byId.get(ingredient.catalogItemId);
+        const unitPrice = catalogItem && priceOf(catalogItem, ingredient.unit);
+        return { ingredient, catalogItem, unitPrice, cost: unitPrice === undefined ? undefined : unitPrice * ingredient.quantity };
+    });
+    const total = lines.reduce((sum, line) => sum + (line.cost ?? 0), 0);
+    return { lines, total, perServing: total / recipe.servings, isComplete: lines.every(line => line.cost !== undefined) };
+};
+
+// A price-history lookup for `costRecipe`, as of a date.
+export const historicalPriceOf = (history: Map<string, PricePoint[]>, method: CostMethod, asOf?: string) =>
+    (catalogItem: CatalogItem, unit: Unit): number | undefined => {
+        const price = priceAsOf(history.get(catalogItem.id) || [], method, asOf);
+        const perUnit = toDefaultUnit(1, unit, catalogItem);
+        return price === undefined || perUnit === null ? undefined : price * perUnit;
+    };
+
+/**
+ * Cost per serving after each purchase of one of the recipe's ingredients, from the
+ * first date all of them had a price.
+ */
+export const recipeCostHistory = (
+    recipe: Recipe,
+    catalog: CatalogItem[],
+    history: Map<string, PricePoint[]>,
+    method: CostMethod,
+): { at: string; perServing: number }[] => {
+    const dates = [...new Set(recipe.ingredients.flatMap(i => (history.get(i.catalogItemId) || []).map(p => p.at)))].sort();
+    return dates.flatMap(at => {
+        const cost = costRecipe(recipe, catalog, historicalPriceOf(history, method, at));
+        return cost.isComplete ? [{ at, perServing: cost.perServing }] : [];
+    });
+};
+
+export const formatIngredient = (ingredient: RecipeIngredient, name: string): string =>
+    `${name} ${ingredient.quantity.toLocaleString('fa-IR')} ${ingredient.unit}`;
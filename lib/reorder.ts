@@ -0,0 +1,60 @@
+import { CatalogItem, Unit } from '../types';
+import { conversionFactor } from './units';
+
+export interface ReorderLine {
+    catalogItem: CatalogItem;
+    onHand: number; // In the default unit
+    amount: number; // In `unit`, rounded up to whole packs
+    unit: Unit;
+    vendorId?: string;
+}
+
+// Units that can be bought in any amount; everything else is bought in whole units.
+export const CONTINUOUS_UNITS = new Set<Unit>([Unit.Kg, Unit.Gram, Unit.Liter, Unit.Ml]);
+
+/**
+ * The amount to order of `quantity` (in the default unit), in the unit the item is
+ * bought in. When the item comes in packs (e.g. 1 carton = 12 bottles) and is not
+ * already bought by the pack, it is ordered in the smallest pack.
+ */
+export const roundToPacks = (quantity: number, catalogItem: CatalogItem, purchaseUnit?: Unit): { amount: number; unit: Unit } => {
+    const toDefault = (unit: Unit) => conversionFactor(unit, catalogItem.defaultUnit, catalogItem.packSizes);
+
+    let unit = purchaseUnit && toDefault(purchaseUnit) ? purchaseUnit : catalogItem.defaultUnit;
+    if (toDefault(unit)! <= 1) {
+        const packs = (catalogItem.packSizes || [])
+            .map(p => ({ unit: p.unit, factor: toDefault(p.unit) }))
+            .filter((p): p is { unit: Unit; factor: number } => p.factor !== null && p.factor > 1)
+            .sort((a, b) => a.factor - b.factor);
+        if (packs.length > 0) unit = packs[0].unit;
+    }
+
+    const amount = quantity / toDefault(unit)!;
+    return {
+        unit,
+        amount: CONTINUOUS_UNITS.has(unit) ? Math.ceil(amount * 10) / 10 : Math.ceil(amount),
+    };
+};
+
+/**
+ * Everything whose stock is below its minimum (or, without one, its par level),
+ * with the amount that brings it back up to par.
+ */
+export const buildReorderLines = (
+    catalog: CatalogItem[],
+    stock: Map<string, { estimatedOnHand: number }>,
+    purchaseUnits: Map<string, Unit>,
+    categoryVendorMap: Record<string, string>,
+): ReorderLine[] => catalog.flatMap((catalogItem): ReorderLine[] => {
+    const level = stock.get(catalogItem.id);
+    if (!catalogItem.parLevel || !level) return [];
+    const threshold = catalogItem.minLevel ?? catalogItem.parLevel;
+    if (level.estimatedOnHand >= threshold) return [];
+
+    return [{
+        catalogItem,
+        onHand: level.estimatedOnHand,
+        ...roundToPacks(catalogItem.parLevel - level.estimatedOnHand, catalogItem, purchaseUnits.get(catalogItem.id)),
+        vendorId: catalogItem.defaultVendorId || categoryVendorMap[catalogItem.category],
+    }];
+});
@@ -0,0 +1,423 @@
+import { StoredData, ShoppingList, ShoppingItem, Vendor, AuditEntry, CatalogItem, PackSize, StockCount, Recipe, Budget, Invoice, Payment, PaymentTerms, Unit, ItemStatus, PaymentStatus, PaymentMethod, CafeCategory } from '../types';
+import { parseJalaliDate } from './jalali';
+import { indexCatalog, normalizeItemName, CatalogIndex } from './catalog';
+import { toLatinDigits } from './persian';
+
+// Bump this and append a migration below whenever the stored shape changes.
+// Data saved before versioning existed is treated as version 0.
+export const CURRENT_SCHEMA_VERSION = 7;
+
+export class SchemaError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SchemaError';
+    }
+}
+
+type RawData = Record<string, any>;
+
+// Migrations run on every device that loads old data, so ids they create must not be random:
+// two devices migrating the same data have to produce the same records.
+const stableId = (prefix: string, value: string): string => {
+    let hash = 0x811c9dc5; // FNV-1a
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `${prefix}-${(hash >>> 0).toString(36)}`;
+};
+
+// Builds the catalog from the item info map and the names items were bought under,
+// and links every item to its catalog entry.
+const migrateToCatalog = (data: RawData): RawData => {
+    const catalog = new Map<string, RawData>(); // normalized name -> catalog item
+    const usedIds = new Set<string>();
+    const ensure = (name: unknown, unit?: unknown, category?: unknown): RawData | null => {
+        if (typeof name !== 'string' || !name.trim()) return null;
+        const key = normalizeItemName(name);
+        let entry = catalog.get(key);
+        if (!entry) {
+            let id = stableId('catalog', key);
+            for (let n = 2; usedIds.has(id); n++) id = stableId('catalog', `${key}#${n}`);
+            usedIds.add(id);
+            entry = { id, name: name.trim(), aliases: [], defaultUnit: unit, category };
+            catalog.set(key, entry);
+        }
+        entry.defaultUnit = entry.defaultUnit || unit;
+        entry.category = entry.category || category;
+        return entry;
+    };
+
+    const itemInfoMap: RawData = data.itemInfoMap && typeof data.itemInfoMap === 'object' ? data.itemInfoMap : {};
+    Object.entries(itemInfoMap).forEach(([name, info]) => ensure(name, info?.unit, info?.category));
+
+    // Oldest lists first, so the default vendor ends up being the one bought from most recently.
+    const lists = [...data.lists].sort((a: RawData, b: RawData) => String(a?.createdAt).localeCompare(String(b?.createdAt)));
+    const linkedLists = new Map(lists.map((list: RawData) => [list, {
+        ...list,
+        items: Array.isArray(list?.items) ? list.items.map((item: RawData) => {
+            const entry = ensure(item?.name, item?.unit, item?.category);
+            if (!entry) return item;
+            if (item.status === ItemStatus.Bought && typeof item.vendorId === 'string') entry.defaultVendorId = item.vendorId;
+            return { ...item, catalogItemId: entry.id };
+        }) : list?.items,
+    }]));
+
+    const { itemInfoMap: _, ...rest } = data;
+    return {
+        ...rest,
+        lists: data.lists.map((list: RawData) => linkedLists.get(list)),
+        catalog: [...catalog.values()],
+    };
+};
+
+interface Migration {
+    version: number; // The version this migration upgrades the data to
+    description: string;
+    migrate: (data: RawData) => RawData;
+}
+
+// Ordered registry; each migration upgrades data from `version - 1` to `version`.
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: "Drop receipt images that were once stored inline on items",
+        migrate: (data) => ({
+            ...data,
+            lists: data.lists.map((list: RawData) => ({
+                ...list,
+                items: Array.isArray(list?.items)
+                    ? list.items.map((item: RawData) => {
+                        if (!item || typeof item !== 'object') return item;
+                        const { receiptImage, ...rest } = item;
+                        return rest;
+                    })
+                    : list?.items,
+            })),
+        }),
+    },
+    {
+        version: 2,
+        description: "Add the audit log",
+        migrate: (data) => ({ ...data, auditLog: [] }),
+    },
+    {
+        version: 3,
+        description: "Replace the item info map with a catalog of items with stable ids",
+        migrate: migrateToCatalog,
+    },
+    {
+        version: 4,
+        description: "Add stock counts",
+        migrate: (data) => ({ ...data, stockCounts: [] }),
+    },
+    {
+        version: 5,
+        description: "Add recipes",
+        migrate: (data) => ({ ...data, recipes: [] }),
+    },
+    {
+        version: 6,
+        description: "Add budgets",
+        migrate: (data) => ({ ...data, budgets: [] }),
+    },
+    {
+        version: 7,
+        description: "Add supplier invoices and payments",
+        migrate: (data) => ({ ...data, invoices: [], payments: [] }),
+    },
+];
+
+export interface SchemaReport {
+    fromVersion: number;
+    repairedItems: number;
+    droppedItems: number;
+    droppedLists: number;
+}
+
+const UNITS = new Set<string>(Object.values(Unit));
+const ITEM_STATUSES = new Set<string>(Object.values(ItemStatus));
+const PAYMENT_STATUSES = new Set<string>(Object.values(PaymentStatus));
+const PAYMENT_METHODS = new Set<string>(Object.values(PaymentMethod));
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+// Accepts numbers and numeric strings, including Persian/Arabic digits and thousands separators.
+const toNumber = (value: unknown): number | undefined => {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+    if (typeof value !== 'string') return undefined;
+    const normalized = toLatinDigits(value)
+        .replace(/[,٬\s]/g, '')
+        .replace('٫', '.');
+    if (normalized === '') return undefined;
+    const parsed = Number(normalized);
+    return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+// Sets a field in place, so the fields keep their order, or removes it when the value is undefined.
+const setOrDelete = <T extends object, K extends keyof T>(record: T, key: K, value: T[K] | undefined) => {
+    if (value === undefined) {
+        delete record[key];
+    } else {
+        record[key] = value;
+    }
+};
+
+// Returns the repaired item, or null when it is too broken to keep (no name).
+const repairItem = (
+    raw: unknown,
+    fallbackId: string,
+    catalog: CatalogIndex,
+    report: SchemaReport,
+): ShoppingItem | null => {
+    if (!raw || typeof raw !== 'object' || !isNonEmptyString((raw as RawData).name)) {
+        report.droppedItems++;
+        return null;
+    }
+    const item = raw as RawData;
+    const name = item.name.trim();
+    const info = catalog.resolve({ name, catalogItemId: item.catalogItemId });
+
+    const paidPrice = toNumber(item.paidPrice);
+    const purchasedAmount = toNumber(item.purchasedAmount);
+    const estimatedPrice = toNumber(item.estimatedPrice);
+
+    const repaired: ShoppingItem = {
+        ...item,
+        id: isNonEmptyString(item.id) ? item.id : fallbackId,
+        name,
+        amount: toNumber(item.amount) ?? purchasedAmount ?? 1,
+        unit: UNITS.has(item.unit) ? item.unit : (info?.defaultUnit || Unit.Piece),
+        status: ITEM_STATUSES.has(item.status) ? item.status : (paidPrice != null ? ItemStatus.Bought : ItemStatus.Pending),
+        category: isNonEmptyString(item.category) ? item.category : (info?.category || CafeCategory.Other),
+    };
+
+    const optional: Partial<ShoppingItem> = {
+        paidPrice,
+        purchasedAmount,
+        estimatedPrice,
+        vendorId: isNonEmptyString(item.vendorId) ? item.vendorId : undefined,
+        paymentStatus: PAYMENT_STATUSES.has(item.paymentStatus) ? item.paymentStatus : undefined,
+        paymentMethod: PAYMENT_METHODS.has(item.paymentMethod) ? item.paymentMethod : undefined,
+        invoiceId: isNonEmptyString(item.invoiceId) ? item.invoiceId : undefined,
+        // Links to missing catalog items are dropped; unlinked items are linked by name where possible.
+        catalogItemId: info?.id,
+    };
+    (Object.keys(optional) as (keyof ShoppingItem)[]).forEach(key => setOrDelete(repaired, key, optional[key]));
+
+    if (JSON.stringify(repaired) !== JSON.stringify(item)) report.repairedItems++;
+    return repaired;
+};
+
+const repairList = (raw: unknown, catalog: CatalogIndex, report: SchemaReport): ShoppingList | null => {
+    if (!raw || typeof raw !== 'object' || !isNonEmptyString((raw as RawData).id)) {
+        report.droppedLists++;
+        return null;
+    }
+    const list = raw as RawData;
+
+    // List ids are Jalali dates, so a missing or broken creation date can be recovered from the id.
+    let createdAt: string | null = typeof list.createdAt === 'string' && !isNaN(new Date(list.createdAt).getTime()) ? list.createdAt : null;
+    if (!createdAt) {
+        const fromId = parseJalaliDate(list.id);
+        createdAt = fromId ? fromId.toISOString() : null;
+    }
+    if (!createdAt) {
+        report.droppedLists++;
+        return null;
+    }
+
+    const rawItems: unknown[] = Array.isArray(list.items) ? list.items : [];
+    const items = rawItems
+        .map((item, index) => repairItem(item, `item-${list.id}-${index}`, catalog, report))
+        .filter((item): item is ShoppingItem => item !== null);
+
+    return { ...list, id: list.id, name: isNonEmptyString(list.name) ? list.name : list.id, createdAt, items };
+};
+
+const repairPaymentTerms = (raw: unknown): PaymentTerms | undefined => {
+    const terms = raw as RawData;
+    if (terms?.type === 'endOfMonth') return { type: 'endOfMonth' };
+    const days = toNumber(terms?.days);
+    return terms?.type === 'net' && days !== undefined && days >= 0 ? { type: 'net', days: Math.round(days) } : undefined;
+};
+
+const repairVendors = (raw: unknown): Vendor[] => {
+    if (!Array.isArray(raw)) return [];
+    return raw
+        .filter((v): v is Vendor => !!v && typeof v === 'object' && isNonEmptyString(v.id) && isNonEmptyString(v.name))
+        .map(v => {
+            if (v.paymentTerms === undefined) return v;
+            const { paymentTerms, ...vendor } = v;
+            const repaired = repairPaymentTerms(paymentTerms);
+            return repaired ? { ...vendor, paymentTerms: repaired } : vendor;
+        });
+};
+
+const repairStringMap = (raw: unknown): Record<string, string> => {
+    if (!raw || typeof raw !== 'object') return {};
+    return Object.fromEntries(Object.entries(raw).filter(([, value]) => isNonEmptyString(value)));
+};
+
+const repairPackSizes = (raw: unknown): PackSize[] => {
+    if (!Array.isArray(raw)) return [];
+    return raw.flatMap((p): PackSize[] => {
+        const amount = toNumber(p?.amount);
+        if (!p || !UNITS.has(p.unit) || !UNITS.has(p.of) || p.unit === p.of || amount === undefined || amount <= 0) return [];
+        return [{ unit: p.unit, amount, of: p.of }];
+    });
+};
+
+const repairCatalog = (raw: unknown): CatalogItem[] => {
+    if (!Array.isArray(raw)) return [];
+    return raw
+        .filter((c): c is RawData => !!c && typeof c === 'object' && isNonEmptyString(c.id) && isNonEmptyString(c.name))
+        .map(c => {
+            const repaired: CatalogItem = {
+                id: c.id,
+                name: c.name.trim(),
+                aliases: Array.isArray(c.aliases) ? c.aliases.filter(isNonEmptyString) : [],
+                defaultUnit: UNITS.has(c.defaultUnit) ? c.defaultUnit : Unit.Piece,
+                category: isNonEmptyString(c.category) ? c.category : CafeCategory.Other,
+            };
+            if (isNonEmptyString(c.defaultVendorId)) repaired.defaultVendorId = c.defaultVendorId;
+            const packSizes = repairPackSizes(c.packSizes);
+            if (packSizes.length > 0) repaired.packSizes = packSizes;
+            const parLevel = toNumber(c.parLevel);
+            if (parLevel !== undefined && parLevel > 0) repaired.parLevel = parLevel;
+            const minLevel = toNumber(c.minLevel);
+            if (minLevel !== undefined && minLevel >= 0) repaired.minLevel = minLevel;
+            return repaired;
+        });
+};
+
+const repairStockCounts = (raw: unknown): StockCount[] => {
+    if (!Array.isArray(raw)) return [];
+    return raw
+        .filter((c): c is RawData => !!c && typeof c === 'object' && isNonEmptyString(c.id) && isNonEmptyString(c.countedAt) && Array.isArray(c.entries))
+        .map(c => ({
+            id: c.id,
+            countedAt: c.countedAt,
+            countedBy: isNonEmptyString(c.countedBy) ? c.countedBy : '?',
+            entries: c.entries.flatMap((e: RawData) => {
+                const quantity = toNumber(e?.quantity);
+                return isNonEmptyString(e?.catalogItemId) && quantity !== undefined && quantity >= 0 ? [{ catalogItemId: e.catalogItemId, quantity }] : [];
+            }),
+        }));
+};
+
+const repairRecipes = (raw: unknown): Recipe[] => {
+    if (!Array.isArray(raw)) return [];
+    return raw
+        .filter((r): r is RawData => !!r && typeof r === 'object' && isNonEmptyString(r.id) && isNonEmptyString(r.name))
+        .map(r => {
+            const servings = toNumber(r.servings);
+            const repaired: Recipe = {
+                id: r.id,
+                name: r.name.trim(),
+                servings: servings !== undefined && servings > 0 ? servings : 1,
+                ingredients: Array.isArray(r.ingredients) ? r.ingredients.flatMap((i: RawData) => {
+                    const quantity = toNumber(i?.quantity);
+                    return isNonEmptyString(i?.catalogItemId) && UNITS.has(i.unit) && quantity !== undefined && quantity > 0
+                        ? [{ catalogItemId: i.catalogItemId, quantity, unit: i.unit }]
+                        : [];
+                }) : [],
+            };
+            const salePrice = toNumber(r.salePrice);
+            if (salePrice !== undefined && salePrice > 0) repaired.salePrice = salePrice;
+            return repaired;
+        });
+};
+
+const repairBudgets = (raw: unknown): Budget[] => {
+    if (!Array.isArray(raw)) return [];
+    return raw.flatMap((b): Budget[] => {
+        const amount = toNumber(b?.amount);
+        if (!b || !isNonEmptyString(b.id) || amount === undefined || amount <= 0) return [];
+        const repaired: Budget = { id: b.id, amount };
+        if (isNonEmptyString(b.category)) repaired.category = b.category;
+        if (typeof b.month === 'string' && /^\d{4}\/\d{2}$/.test(b.month)) repaired.month = b.month;
+        return [repaired];
+    });
+};
+
+const repairInvoices = (raw: unknown): Invoice[] => {
+    if (!Array.isArray(raw)) return [];
+    return raw
+        .filter((i): i is RawData => !!i && typeof i === 'object' && isNonEmptyString(i.id) && isNonEmptyString(i.vendorId) && isNonEmptyString(i.issuedAt))
+        .map(i => {
+            const repaired: Invoice = { id: i.id, vendorId: i.vendorId, issuedAt: i.issuedAt };
+            if (isNonEmptyString(i.number)) repaired.number = i.number;
+            return repaired;
+        });
+};
+
+const repairPayments = (raw: unknown): Payment[] => {
+    if (!Array.isArray(raw)) return [];
+    return raw.flatMap((p): Payment[] => {
+        const amount = toNumber(p?.amount);
+        if (!p || !isNonEmptyString(p.id) || !isNonEmptyString(p.vendorId) || !isNonEmptyString(p.paidAt) || amount === undefined || amount <= 0) return [];
+        const repaired: Payment = {
+            id: p.id,
+            vendorId: p.vendorId,
+            paidAt: p.paidAt,
+            amount,
+            method: PAYMENT_METHODS.has(p.method) ? p.method : PaymentMethod.Cash,
+        };
+        if (isNonEmptyString(p.invoiceId)) repaired.invoiceId = p.invoiceId;
+        if (isNonEmptyString(p.note)) repaired.note = p.note;
+        return [repaired];
+    });
+};
+
+const repairAuditLog = (raw: unknown): AuditEntry[] => {
+    if (!Array.isArray(raw)) return [];
+    return raw.filter((e): e is AuditEntry =>
+        !!e && typeof e === 'object' && isNonEmptyString(e.id) && isNonEmptyString(e.at) && isNonEmptyString(e.action) && isNonEmptyString(e.entity)
+    );
+};
+
+/**
+ * Upgrades stored data of any known version to the current schema and repairs
+ * malformed records. Throws a SchemaError when the data is not recognisable at
+ * all, or was written by a newer version of the app.
+ */
+export const migrateStoredData = (raw: unknown): { data: StoredData; report: SchemaReport } => {
+    if (!raw || typeof raw !== 'object' || !Array.isArray((raw as RawData).lists)) {
+        throw new SchemaError("Stored data is not in a recognised format.");
+    }
+
+    const fromVersion = typeof (raw as RawData).schemaVersion === 'number' ? (raw as RawData).schemaVersion : 0;
+    if (fromVersion > CURRENT_SCHEMA_VERSION) {
+        throw new SchemaError(`Stored data uses schema version ${fromVersion}, but this app only supports up to ${CURRENT_SCHEMA_VERSION}. Please reload to update the app.`);
+    }
+
+    const migrated = MIGRATIONS
+        .filter(m => m.version > fromVersion)
+        .reduce((data, m) => m.migrate(data), raw as RawData);
+
+    const report: SchemaReport = { fromVersion, repairedItems: 0, droppedItems: 0, droppedLists: 0 };
+    const catalog = repairCatalog(migrated.catalog);
+    const catalogIndex = indexCatalog(catalog);
+    const lists = (migrated.lists as unknown[])
+        .map(list => repairList(list, catalogIndex, report))
+        .filter((list): list is ShoppingList => list !== null);
+
+    return {
+        data: {
+            schemaVersion: CURRENT_SCHEMA_VERSION,
+            lists,
+            customCategories: Array.isArray(migrated.customCategories) ? migrated.customCategories.filter(isNonEmptyString) : [],
+            vendors: repairVendors(migrated.vendors),
+            categoryVendorMap: repairStringMap(migrated.categoryVendorMap),
+            catalog,
+            stockCounts: repairStockCounts(migrated.stockCounts),
+            recipes: repairRecipes(migrated.recipes),
+            budgets: repairBudgets(migrated.budgets),
+            invoices: repairInvoices(migrated.invoices),
+            payments: repairPayments(migrated.payments),
+            auditLog: repairAuditLog(migrated.auditLog),
+        },
+        report,
+    };
+};
@@ -0,0 +1,72 @@
+import { CatalogItem, PackSize, ShoppingItem, Unit } from '../types';
+import type { CatalogIndex } from './catalog';
+
+// Conversions that hold for every item. Pack-like units (carton, bottle, ...) only
+// convert through the pack sizes recorded on a catalog item.
+const FIXED_CONVERSIONS: PackSize[] = [
+    { unit: Unit.Kg, amount: 1000, of: Unit.Gram },
+    { unit: Unit.Liter, amount: 1000, of: Unit.Ml },
+    { unit: Unit.Dozen, amount: 12, of: Unit.Piece },
+];
+
+/**
+ * How many `to` make one `from`, following chains such as
+ * carton → bottle → liter → ml. Null when the units can't be converted.
+ */
+export const conversionFactor = (from: Unit, to: Unit, packSizes: PackSize[] = []): number | null => {
+    if (from === to) return 1;
+
+    const edges = new Map<Unit, { unit: Unit; factor: number }[]>();
+    const addEdge = (a: Unit, b: Unit, factor: number) => {
+        if (!edges.has(a)) edges.set(a, []);
+        edges.get(a)!.push({ unit: b, factor });
+    };
+    [...FIXED_CONVERSIONS, ...packSizes].forEach(({ unit, amount, of }) => {
+        if (amount <= 0 || unit === of) return;
+        addEdge(unit, of, amount);
+        addEdge(of, unit, 1 / amount);
+    });
+
+    // Breadth-first, so the shortest chain is used when pack sizes disagree.
+    const factors = new Map<Unit, number>([[from, 1]]);
+    const queue = [from];
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        for (const { unit, factor } of edges.get(current) || []) {
+            if (factors.has(unit)) continue;
+            const total = factors.get(current)! * factor;
+            if (unit === to) return total;
+            factors.set(unit, total);
+            queue.push(unit);
+        }
+    }
+    return null;
+};
+
+export const convertQuantity = (amount: number, from: Unit, to: Unit, packSizes?: PackSize[]): number | null => {
+    const factor = conversionFactor(from, to, packSizes);
+    return factor === null ? null : amount * factor;
+};
+
+// A quantity of an item in the item's default unit, or null when the units are unrelated.
+export const toDefaultUnit = (amount: number, unit: Unit, catalogItem: Pick<CatalogItem, 'defaultUnit' | 'packSizes'>): number | null =>
+    convertQuantity(amount, unit, catalogItem.defaultUnit, catalogItem.packSizes);
+
+export const formatPackSize = ({ unit, amount, of }: PackSize): string =>
+    `۱ ${unit} = ${amount.toLocaleString('fa-IR')} ${of}`;
+
+/**
+ * A purchase in its catalog item's name and default unit, so purchases recorded in
+ * grams and in kilograms add up. Unconvertible purchases keep their own name and unit.
+ */
+export const normalizePurchase = (
+    item: Pick<ShoppingItem, 'name' | 'catalogItemId' | 'unit'>,
+    amount: number,
+    catalog: CatalogIndex,
+): { name: string; unit: Unit; amount: number } => {
+    const catalogItem = catalog.resolve(item);
+    const converted = catalogItem ? toDefaultUnit(amount, item.unit, catalogItem) : null;
+    return catalogItem && converted !== null
+        ? { name: catalogItem.name, unit: catalogItem.defaultUnit, amount: converted }
+        : { name: item.name, unit: item.unit, amount };
+};
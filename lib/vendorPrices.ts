@@ -0,0 +1,67 @@
+import { PricePoint } from './recipes';
+
+// Recommendations compare what vendors charged over this many days.
+export const PRICE_COMPARISON_DAYS = 90;
+
+// Smaller differences are mostly rounding and pack sizes, not worth switching vendor for.
+const MIN_SAVING = 0.05;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface VendorPriceStats {
+    vendorId: string;
+    last: number; // Per the item's default unit, like the rest
+    lastAt: string;
+    average: number; // Weighted by quantity
+    min: number;
+    purchaseCount: number;
+    trend?: number; // Change from the first to the last price of the period, as a fraction; needs two purchases
+}
+
+export interface VendorRecommendation {
+    vendorId: string;
+    comparedToVendorId: string;
+    saving: number; // Fraction of the compared vendor's average price
+}
+
+// Start of a period of the last `days` days, for `since` below.
+export const periodStart = (days: number, now = new Date()): string => new Date(now.getTime() - days * DAY_MS).toISOString();
+
+/** What each vendor charged for one item since a date (or ever), cheapest on average first. */
+export const compareVendorPrices = (points: PricePoint[], since?: string): VendorPriceStats[] => {
+    const byVendor = new Map<string, PricePoint[]>();
+    points
+        .filter(p => p.vendorId && (!since || p.at >= since))
+        .forEach(p => byVendor.set(p.vendorId!, [...(byVendor.get(p.vendorId!) || []), p]));
+
+    return [...byVendor.entries()].map(([vendorId, purchases]): VendorPriceStats => {
+        const sorted = [...purchases].sort((a, b) => a.at.localeCompare(b.at));
+        const first = sorted[0];
+        const last = sorted[sorted.length - 1];
+        const quantity = sorted.reduce((sum, p) => sum + p.quantity, 0);
+        return {
+            vendorId,
+            last: last.price,
+            lastAt: last.at,
+            average: sorted.reduce((sum, p) => sum + p.price * p.quantity, 0) / quantity,
+            min: Math.min(...sorted.map(p => p.price)),
+            purchaseCount: sorted.length,
+            trend: sorted.length > 1 && first.price > 0 ? last.price / first.price - 1 : undefined,
+        };
+    }).sort((a, b) => a.average - b.average);
+};
+
+/**
+ * The cheapest vendor, when it beat the vendor we would otherwise buy from (the one given,
+ * else the one bought from last) by a worthwhile margin over the same period.
+ */
+export const recommendVendor = (stats: VendorPriceStats[], currentVendorId?: string): VendorRecommendation | null => {
+    if (stats.length < 2) return null;
+    const current = currentVendorId
+        ? stats.find(s => s.vendorId === currentVendorId)
+        : [...stats].sort((a, b) => b.lastAt.localeCompare(a.lastAt))[0];
+    const cheapest = stats[0];
+    if (!current || current.vendorId === cheapest.vendorId || current.average <= 0) return null;
+    const saving = 1 - cheapest.average / current.average;
+    return saving >= MIN_SAVING ? { vendorId: cheapest.vendorId, comparedToVendorId: current.vendorId, saving } : null;
+};
@@ -0,0 +1,181 @@
+import React, { useState, useMemo } from 'react';
+import { t } from '../translations';
+import { useShoppingStore } from '../store/useShoppingStore';
+import Header from '../components/common/Header';
+import JalaliCalendar from '../components/common/JalaliCalendar';
+import { AuditEntity, AuditEntry, PaymentTerms } from '../types';
+import { filterAuditLog } from '../lib/audit';
+import { parseJalaliDate, toJalaliDateString } from '../lib/jalali';
+import { formatPackSize } from '../lib/units';
+import { formatIngredient } from '../lib/recipes';
+import { formatPaymentTerms } from '../lib/aging';
+
+interface ActivityLogProps {
+  onBack: () => void;
+  onLogout: () => void;
+}
+
+const PAGE_SIZE = 50;
+const ENTITIES: AuditEntity[] = ['list', 'item', 'vendor', 'category', 'catalogItem', 'stockCount', 'recipe', 'budget', 'invoice', 'payment', 'data'];
+
+const ACTION_STYLES: Record<AuditEntry['action'], string> = {
+  create: 'bg-success-soft text-success',
+  update: 'bg-accent/10 text-accent',
+  delete: 'bg-danger-soft text-danger',
+  merge: 'bg-accent/10 text-accent',
+  import: 'bg-yellow-400/20 text-yellow-600 dark:text-yellow-400',
+  restore: 'bg-yellow-400/20 text-yellow-600 dark:text-yellow-400',
+  undo: 'bg-secondary/20 text-secondary',
+  redo: 'bg-secondary/20 text-secondary',
+};
+
+const CalendarIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+    </svg>
+);
+
+const formatEntryTime = (iso: string) =>
+  `${toJalaliDateString(iso)} - ${new Date(iso).toLocaleTimeString('fa-IR', { hour: '2-digit', minute: '2-digit' })}`;
+
+const ActivityLog: React.FC<ActivityLogProps> = ({ onBack, onLogout }) => {
+  const { auditLog, vendors, catalog, invoices } = useShoppingStore();
+  const [userId, setUserId] = useState('');
+  const [entity, setEntity] = useState<AuditEntity | ''>('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [isStartCalendarOpen, setIsStartCalendarOpen] = useState(false);
+  const [isEndCalendarOpen, setIsEndCalendarOpen] = useState(false);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const vendorMap = useMemo(() => new Map<string, string>(vendors.map(v => [v.id, v.name])), [vendors]);
+  const catalogNames = useMemo(() => new Map<string, string>(catalog.map(c => [c.id, c.name])), [catalog]);
+  const invoiceLabels = useMemo(() => new Map<string, string>(invoices.map(i => [i.id, t.invoiceLabel(vendorMap.get(i.vendorId) || '?', i.number)])), [invoices, vendorMap]);
+
+  const users = useMemo(() => {
+    const byId = new Map<string, string>();
+    auditLog.forEach(entry => byId.set(entry.userId, entry.username));
+    return [...byId.entries()].sort((a, b) => a[1].localeCompare(b[1], 'fa'));
+  }, [auditLog]);
+
+  const entries = useMemo(() => filterAuditLog(auditLog, {
+    userId: userId || undefined,
+    entity: entity || undefined,
+    from: parseJalaliDate(startDate),
+    to: parseJalaliDate(endDate),
+  }), [auditLog, userId, entity, startDate, endDate]);
+
+  const resetPaging = () => setVisibleCount(PAGE_SIZE);
+
+  const handleStartDateSelect = (date: Date) => {
+    setStartDate(toJalaliDateString(date.toISOString()));
+    setIsStartCalendarOpen(false);
+    resetPaging();
+  };
+
+  const handleEndDateSelect = (date: Date) => {
+    setEndDate(toJalaliDateString(date.toISOString()));
+    setIsEndCalendarOpen(false);
+    resetPaging();
+  };
+
+  const handleClearFilters = () => {
+    setUserId('');
+    setEntity('');
+    setStartDate('');
+    setEndDate('');
+    resetPaging();
+  };
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (field === 'paymentTerms') return formatPaymentTerms(value as PaymentTerms | undefined);
+    if (value === undefined || value === null || value === '') return '—';
+    if ((field === 'vendorId' || field === 'defaultVendorId') && typeof value === 'string') return vendorMap.get(value) || value;
+    if (field === 'invoiceId' && typeof value === 'string') return invoiceLabels.get(value) || value;
+    if (field === 'packSizes' && Array.isArray(value)) return value.length > 0 ? value.map(formatPackSize).join('، ') : '—';
+    if (field === 'ingredients' && Array.isArray(value)) return value.length > 0 ? value.map(i => formatIngredient(i, catalogNames.get(i.catalogItemId) || i.catalogItemId)).join('، ') : '—';
+    if (Array.isArray(value)) return value.length > 0 ? value.join('، ') : '—';
+    if ((field === 'createdAt' || field === 'issuedAt' || field === 'paidAt') && typeof value === 'string') return toJalaliDateString(value);
+    if (typeof value === 'number') return value.toLocaleString('fa-IR');
+    return String(value);
+  };
+
+  const renderChanges = (entry: AuditEntry) => {
+    const fields = [...new Set([...Object.keys(entry.before || {}), ...Object.keys(entry.after || {})])];
+    if (fields.length === 0) return null;
+    return (
+      <ul className="mt-2 space-y-1 text-xs text-secondary">
+        {fields.map(field => (
+          <li key={field}>
+            <span className="font-medium">{t.auditFields[field] || field}: </span>
+            {entry.before && <span className="line-through text-danger/80">{formatValue(field, entry.before[field])}</span>}
+            {entry.before && entry.after && <span> ← </span>}
+            {entry.after && <span className="text-success">{formatValue(field, entry.after[field])}</span>}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <>
+      <Header title={t.activityTitle} onBack={onBack} backText={t.backToDashboard} onLogout={onLogout} />
+      <main className="p-4 sm:p-6 md:p-8 max-w-5xl mx-auto space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 p-4 bg-surface rounded-xl border border-border shadow-card">
+          <select value={userId} onChange={e => { setUserId(e.target.value); resetPaging(); }} className="self-end w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent">
+            <option value="">{t.allUsers}</option>
+            {users.map(([id, username]) => <option key={id} value={id}>{username}</option>)}
+          </select>
+          <select value={entity} onChange={e => { setEntity(e.target.value as AuditEntity | ''); resetPaging(); }} className="self-end w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent">
+            <option value="">{t.allEntities}</option>
+            {ENTITIES.map(e => <option key={e} value={e}>{t.auditEntities[e]}</option>)}
+          </select>
+          <div className="relative">
+            <label className="block text-sm font-medium text-secondary mb-1">{t.startDate}</label>
+            <input type="text" readOnly value={startDate} onFocus={() => setIsStartCalendarOpen(true)} placeholder={t.datePlaceholder} className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent pr-10 cursor-pointer"/>
+            <button type="button" onClick={() => setIsStartCalendarOpen(p => !p)} className="absolute right-2 top-9 -translate-y-1/2 p-1 text-secondary hover:text-accent"><CalendarIcon /></button>
+            {isStartCalendarOpen && <JalaliCalendar selectedDate={parseJalaliDate(startDate) || new Date()} onSelectDate={handleStartDateSelect} />}
+          </div>
+          <div className="relative">
+            <label className="block text-sm font-medium text-secondary mb-1">{t.endDate}</label>
+            <input type="text" readOnly value={endDate} onFocus={() => setIsEndCalendarOpen(true)} placeholder={t.datePlaceholder} className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent pr-10 cursor-pointer"/>
+            <button type="button" onClick={() => setIsEndCalendarOpen(p => !p)} className="absolute right-2 top-9 -translate-y-1/2 p-1 text-secondary hover:text-accent"><CalendarIcon /></button>
+            {isEndCalendarOpen && <JalaliCalendar selectedDate={parseJalaliDate(endDate) || new Date()} onSelectDate={handleEndDateSelect} />}
+          </div>
+          <button onClick={handleClearFilters} className="self-end w-full px-4 py-2 bg-border text-primary font-medium rounded-lg hover:bg-border/70 transition-colors">{t.clearFilters}</button>
+        </div>
+
+        {entries.length === 0 ? (
+          <div className="text-center py-16 px-6 bg-surface rounded-xl border border-border shadow-card">
+            <p className="text-secondary text-lg">{t.noActivity}</p>
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {entries.slice(0, visibleCount).map(entry => (
+              <li key={entry.id} className="p-4 bg-surface rounded-xl border border-border shadow-card">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className={`text-xs font-medium px-2 py-1 rounded-full ${ACTION_STYLES[entry.action]}`}>{t.auditActions[entry.action]}</span>
+                    <span className="text-xs text-secondary">{t.auditEntities[entry.entity]}</span>
+                    <span className="font-medium text-primary">{entry.label}</span>
+                  </div>
+                  <div className="text-xs text-secondary">
+                    <span className="font-medium text-primary">{entry.username}</span> · {formatEntryTime(entry.at)}
+                  </div>
+                </div>
+                {renderChanges(entry)}
+              </li>
+            ))}
+          </ul>
+        )}
+        {entries.length > visibleCount && (
+          <div className="text-center">
+            <button onClick={() => setVisibleCount(c => c + PAGE_SIZE)} className="px-4 py-2 bg-border text-primary font-medium rounded-lg hover:bg-border/70 transition-colors">{t.showMore}</button>
+          </div>
+        )}
+      </main>
+    </>
+  );
+};
+
+export default ActivityLog;
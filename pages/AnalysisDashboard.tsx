@@ -11,12 +11,15 @@ import { parseJalaliDate, toJalaliDateString } from '../lib/jalali';
 import JalaliCalendar from '../components/common/JalaliCalendar';
 import { useToast } from '../components/common/Toast';
 import { Chart, registerables } from 'chart.js';
+import { indexCatalog } from '../lib/catalog';
+import { normalizePurchase } from '../lib/units';
+import { indexAsOf, INDEX_BASE } from '../lib/priceIndex';
 
 Chart.register(...registerables);
 
 
 // Helper Types
-type Metric = 'totalSpend' | 'totalQuantity' | 'uniquePurchases' | 'avgPricePerUnit';
+type Metric = 'totalSpend' | 'totalQuantity' | 'uniquePurchases' | 'avgPricePerUnit' | 'priceIndex';
 type GroupBy = 'vendor' | 'category' | 'date' | 'item';
 
 interface AnalysisConfig {
@@ -42,6 +45,7 @@ const METRIC_LABELS: Record<Metric, string> = {
   totalQuantity: t.totalQuantity,
   uniquePurchases: t.uniquePurchases,
   avgPricePerUnit: t.avgPricePerUnit,
+  priceIndex: t.priceIndexMetric,
 };
 
 const GROUP_BY_LABELS: Record<GroupBy | 'none', string> = {
@@ -58,15 +62,11 @@ interface DataExplorerProps {
 }
 
 const DataExplorer: React.FC<DataExplorerProps> = ({ onBack, onLogout }) => {
-  const { lists, vendors, allCategories } = useShoppingStore();
+  const { lists, vendors, catalog, allCategories, getKnownItemNames, getPriceIndex } = useShoppingStore();
   const { addToast } = useToast();
   const vendorMap = useMemo(() => new Map(vendors.map(v => [v.id, v.name])), [vendors]);
   const allKnownCategories = useMemo(() => allCategories(), [allCategories]);
-  const allKnownItems = useMemo(() => {
-    const itemSet = new Set<string>();
-    lists.forEach(l => l.items.forEach(i => itemSet.add(i.name)));
-    return Array.from(itemSet).sort((a,b) => a.localeCompare(b, 'fa'));
-  }, [lists]);
+  const allKnownItems = useMemo(() => getKnownItemNames(), [getKnownItemNames, catalog]);
 
 
   const initialDateRange = useMemo(() => {
@@ -118,13 +118,18 @@ const DataExplorer: React.FC<DataExplorerProps> = ({ onBack, onLogout }) => {
         }
         end.setHours(23, 59, 59, 999);
 
-        // 1. Filter items based on date and filters
+        // 1. Filter items based on date and filters.
+        // Quantities are in each item's default unit, so grams and kilograms add up.
+        const catalogIndex = indexCatalog(catalog);
         let filteredItems = lists
             .filter(l => {
                 const listDate = new Date(l.createdAt);
                 return listDate >= start && listDate <= end;
             })
-            .flatMap(l => l.items.map(i => ({...i, purchaseDate: toJalaliDateString(l.createdAt)})))
+            .flatMap(l => l.items.map(i => {
+                const { name, amount } = normalizePurchase(i, i.purchasedAmount || i.amount || 0, catalogIndex);
+                return {...i, name, quantity: amount, purchaseDate: toJalaliDateString(l.createdAt)};
+            }))
             .filter(i => i.status === ItemStatus.Bought);
 
         if (config.filters.categories.length > 0) {
@@ -166,6 +171,18 @@ const DataExplorer: React.FC<DataExplorerProps> = ({ onBack, onLogout }) => {
         const tableData: Record<string, any>[] = [];
         const labels = Array.from(groupedMap.keys()).sort((a,b) => a.localeCompare(b, 'fa'));
 
+        // The basket index relative to the start of the period: at its end, or at each date.
+        const priceIndex = config.metrics.includes('priceIndex') ? getPriceIndex(config.groupBy === 'item' ? 'item' : 'category') : null;
+        const priceIndexOf = (key: string): number | undefined => {
+            if (!priceIndex || config.groupBy === 'vendor') return undefined;
+            const series = config.groupBy === 'category' || config.groupBy === 'item' ? priceIndex.byGroup.get(key) : priceIndex.overall;
+            if (!series) return undefined;
+            const at = config.groupBy === 'date' ? parseJalaliDate(key) : end;
+            const value = at && indexAsOf(priceIndex, series, at.toISOString());
+            if (!value) return undefined;
+            return value / (indexAsOf(priceIndex, series, start.toISOString()) ?? INDEX_BASE) * INDEX_BASE;
+        };
+
         labels.forEach(key => {
             const groupItems = groupedMap.get(key)!;
             const row: Record<string, any> = { [config.groupBy]: key };
@@ -174,16 +191,19 @@ const DataExplorer: React.FC<DataExplorerProps> = ({ onBack, onLogout }) => {
                 row.totalSpend = groupItems.reduce((sum, i) => sum + (i.paidPrice || 0), 0);
             }
             if(config.metrics.includes('totalQuantity')) {
-                row.totalQuantity = groupItems.reduce((sum, i) => sum + (i.purchasedAmount || i.amount || 0), 0);
+                row.totalQuantity = groupItems.reduce((sum, i) => sum + i.quantity, 0);
             }
             if(config.metrics.includes('uniquePurchases')) {
                 row.uniquePurchases = groupItems.length;
             }
             if(config.metrics.includes('avgPricePerUnit')) {
                  const totalVal = groupItems.reduce((sum, i) => sum + (i.paidPrice || 0), 0);
-                 const totalQty = groupItems.reduce((sum, i) => sum + (i.purchasedAmount || i.amount || 1), 0);
+                 const totalQty = groupItems.reduce((sum, i) => sum + (i.quantity || 1), 0);
                  row.avgPricePerUnit = totalQty > 0 ? totalVal / totalQty : 0;
             }
+            if(config.metrics.includes('priceIndex')) {
+                row.priceIndex = priceIndexOf(key);
+            }
             tableData.push(row);
         });
 
@@ -412,6 +432,7 @@ const DataTable: React.FC<{data: Record<string, any>[], groupBy: GroupBy | 'none
     const formatValue = (key: string, value: any) => {
         if (typeof value !== 'number') return value;
         if (key === 'totalQuantity' || key === 'uniquePurchases') return value.toLocaleString('fa-IR');
+        if (key === 'priceIndex') return (Math.round(value * 10) / 10).toLocaleString('fa-IR');
         return <CurrencyDisplay value={value} className="text-sm" />
     };
 
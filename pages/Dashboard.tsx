@@ -1,22 +1,34 @@
 import React, { useState, useRef, useMemo, useEffect } from 'react';
-import { ShoppingList, ItemStatus, SmartSuggestion, PendingPaymentItem } from '../types';
+import { ShoppingList, ItemStatus, SmartSuggestion } from '../types';
 import Header from '../components/common/Header';
 import NewListModal from '../components/modals/NewListModal';
 import ConfirmModal from '../components/modals/ConfirmModal';
 import ReportsModal from '../components/modals/ReportsModal';
+import SettingsModal from '../components/modals/SettingsModal';
+import BudgetsModal from '../components/modals/BudgetsModal';
+import AgingReport from '../components/AgingReport';
 import { t } from '../translations';
 import { useShoppingStore } from '../store/useShoppingStore';
 import { useToast } from '../components/common/Toast';
+import { useUndoRedo } from '../hooks/useUndoRedo';
 import { toJalaliDateString, gregorianToJalali } from '../lib/jalali';
 import CurrencyDisplay from '../components/common/CurrencyDisplay';
 import Card from '../components/common/Card';
+import { can } from '../lib/permissions';
+import { BudgetStatus } from '../lib/budgets';
+import { ExpenseForecast } from '../lib/forecast';
+import { formatAmount, formatCurrency } from '../lib/currency';
+import ForecastRangeDisplay from '../components/common/ForecastRangeDisplay';
 
 interface DashboardProps {
   onSelectList: (listId: string) => void;
   onViewAnalysis: () => void;
   onViewVendors: () => void;
   onViewItems: () => void;
+  onViewInventory: () => void;
+  onViewRecipes: () => void;
   onViewSummary: () => void;
+  onViewActivity: () => void;
   onLogout: () => void;
 }
 
@@ -26,17 +38,20 @@ const SearchIcon = ({className}: {className?: string}) => <svg xmlns="http://www
 const ChevronDownIcon = ({ className }: { className?: string }) => <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" /></svg>;
 
 
-const Dashboard: React.FC<DashboardProps> = ({ onSelectList, onViewAnalysis, onViewVendors, onViewItems, onViewSummary, onLogout }) => {
+const Dashboard: React.FC<DashboardProps> = ({ onSelectList, onViewAnalysis, onViewVendors, onViewItems, onViewInventory, onViewRecipes, onViewSummary, onViewActivity, onLogout }) => {
   const store = useShoppingStore();
-  const { lists, createList, deleteList, importData, exportData, getSmartSuggestions, getPendingPayments, vendors, getExpenseForecast, addItemFromSuggestion } = store;
+  const { lists, createList, deleteList, importData, exportData, getSmartSuggestions, getAgingReport, vendors, getExpenseForecast, getBudgetStatus, addItemFromSuggestion, snoozeSuggestion, unsnoozeSuggestion, generateReorderList, currentUser } = store;
   const [isNewListModalOpen, setIsNewListModalOpen] = useState(false);
   const [isReportsModalOpen, setIsReportsModalOpen] = useState(false);
+  const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false);
+  const [isBudgetsModalOpen, setIsBudgetsModalOpen] = useState(false);
   const [addedSuggestions, setAddedSuggestions] = useState<Set<string>>(new Set());
   const [searchQuery, setSearchQuery] = useState('');
   const [expandedMonths, setExpandedMonths] = useState<Record<string, boolean>>({});
 
   const importInputRef = useRef<HTMLInputElement>(null);
   const { addToast } = useToast();
+  const { undoAction } = useUndoRedo();
   const [deleteConfirm, setDeleteConfirm] = useState<{ isOpen: boolean; listId: string; listName: string; }>({ isOpen: false, listId: '', listName: '' });
   const [importConfirmOpen, setImportConfirmOpen] = useState(false);
 
@@ -59,6 +74,25 @@ const Dashboard: React.FC<DashboardProps> = ({ onSelectList, onViewAnalysis, onV
     }
   };
 
+  const handleSnoozeSuggestion = (suggestion: SmartSuggestion, days?: number) => {
+    snoozeSuggestion(suggestion, days);
+    addToast(days ? t.suggestionSnoozed : t.suggestionDismissed, 'info', { label: t.undo, onClick: () => unsnoozeSuggestion(suggestion) });
+  };
+
+  const handleGenerateReorderList = () => {
+    const result = generateReorderList();
+    if (!result) {
+        addToast(t.nothingBelowPar, 'info');
+        return;
+    }
+    if (result.count > 0) {
+        addToast(t.reorderListGenerated(result.count), 'success', undoAction());
+    } else {
+        addToast(t.reorderListUpToDate, 'info');
+    }
+    onSelectList(result.listId);
+  };
+
   const handleImportData = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -108,12 +142,14 @@ const Dashboard: React.FC<DashboardProps> = ({ onSelectList, onViewAnalysis, onV
 
   const confirmDelete = () => {
     deleteList(deleteConfirm.listId);
-    addToast(t.listDeleted, 'info');
+    addToast(t.listDeleted, 'info', undoAction());
   };
 
   const smartSuggestions = getSmartSuggestions();
-  const pendingPayments = getPendingPayments();
-  const expenseForecast = getExpenseForecast();
+  const agingReport = getAgingReport();
+  const expenseForecast = useMemo(() => getExpenseForecast(), [getExpenseForecast, lists]);
+  const budgetStatus = getBudgetStatus();
+  const canEditBudgets = can(currentUser, 'budget:edit');
 
   const filteredLists = useMemo(() => {
     const sortedLists = [...lists].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
@@ -172,35 +208,65 @@ const Dashboard: React.FC<DashboardProps> = ({ onSelectList, onViewAnalysis, onV
   return (
     <>
       <Header title={t.appTitle} onLogout={onLogout}>
-         <button
-            onClick={onViewSummary}
+        {can(currentUser, 'reports:view') && (
+          <>
+            <button
+              onClick={onViewSummary}
+              className="px-3 py-1.5 text-sm bg-surface text-primary font-medium rounded-lg hover:bg-border transition-colors border border-border shadow-subtle"
+            >
+              {t.executiveSummary}
+            </button>
+            <button
+              onClick={() => setIsReportsModalOpen(true)}
+              className="px-3 py-1.5 text-sm bg-surface text-accent font-medium rounded-lg hover:bg-border transition-colors border border-border shadow-subtle"
+            >
+              {t.generateReport}
+            </button>
+            <button
+              onClick={onViewAnalysis}
+              className="px-3 py-1.5 text-sm bg-surface text-primary font-medium rounded-lg hover:bg-border transition-colors border border-border shadow-subtle"
+            >
+              {t.analysisDashboard}
+            </button>
+            <button
+              onClick={onViewRecipes}
+              className="px-3 py-1.5 text-sm bg-surface text-primary font-medium rounded-lg hover:bg-border transition-colors border border-border shadow-subtle"
+            >
+              {t.recipes}
+            </button>
+          </>
+        )}
+          <button
+            onClick={onViewVendors}
             className="px-3 py-1.5 text-sm bg-surface text-primary font-medium rounded-lg hover:bg-border transition-colors border border-border shadow-subtle"
           >
-            {t.executiveSummary}
-          </button>
-         <button
-            onClick={() => setIsReportsModalOpen(true)}
-            className="px-3 py-1.5 text-sm bg-surface text-accent font-medium rounded-lg hover:bg-border transition-colors border border-border shadow-subtle"
-          >
-            {t.generateReport}
+            {t.manageVendors}
           </button>
-         <button
-            onClick={onViewAnalysis}
+          <button
+            onClick={onViewItems}
             className="px-3 py-1.5 text-sm bg-surface text-primary font-medium rounded-lg hover:bg-border transition-colors border border-border shadow-subtle"
           >
-            {t.analysisDashboard}
+            {t.manageItems}
           </button>
           <button
-            onClick={onViewVendors}
+            onClick={onViewInventory}
             className="px-3 py-1.5 text-sm bg-surface text-primary font-medium rounded-lg hover:bg-border transition-colors border border-border shadow-subtle"
           >
-            {t.manageVendors}
+            {t.inventory}
           </button>
+          {can(currentUser, 'activity:view') && (
+            <button
+              onClick={onViewActivity}
+              className="px-3 py-1.5 text-sm bg-surface text-primary font-medium rounded-lg hover:bg-border transition-colors border border-border shadow-subtle"
+            >
+              {t.activity}
+            </button>
+          )}
           <button
-            onClick={onViewItems}
+            onClick={() => setIsSettingsModalOpen(true)}
             className="px-3 py-1.5 text-sm bg-surface text-primary font-medium rounded-lg hover:bg-border transition-colors border border-border shadow-subtle"
           >
-            {t.manageItems}
+            {t.settings}
           </button>
       </Header>
       <main className="p-4 sm:p-6 md:p-8 max-w-7xl mx-auto space-y-8">
@@ -214,7 +280,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onSelectList, onViewAnalysis, onV
                         <h4 className="font-bold text-primary mb-3">{t.todaysSmartSuggestions}</h4>
                         {smartSuggestions.length > 0 ? (
                             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-                                {smartSuggestions.map(s => <SmartSuggestionCard key={s.name+s.unit} suggestion={s} onAdd={handleAddItemFromSuggestion} isAdded={addedSuggestions.has(`${s.name}-${s.unit}`)} />)}
+                                {smartSuggestions.map(s => <SmartSuggestionCard key={s.name+s.unit} suggestion={s} onAdd={can(currentUser, 'list:edit') ? handleAddItemFromSuggestion : undefined} onSnooze={handleSnoozeSuggestion} isAdded={addedSuggestions.has(`${s.name}-${s.unit}`)} />)}
                             </div>
                         ) : (
                             <p className="text-center text-secondary py-4">{t.noSuggestions}</p>
@@ -222,15 +288,29 @@ const Dashboard: React.FC<DashboardProps> = ({ onSelectList, onViewAnalysis, onV
                     </div>
                 </div>
             </Card>
+            {(budgetStatus.length > 0 || canEditBudgets) && (
+                <Card className="lg:col-span-3">
+                    <div className="flex items-center justify-between mb-4">
+                        <h3 className="font-bold text-md text-primary">{t.budgets}</h3>
+                        {canEditBudgets && (
+                            <button onClick={() => setIsBudgetsModalOpen(true)} className="px-3 py-1.5 text-sm bg-surface text-primary font-medium rounded-lg hover:bg-border transition-colors border border-border">
+                                {t.editBudgets}
+                            </button>
+                        )}
+                    </div>
+                    {budgetStatus.length > 0 ? (
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                            {budgetStatus.map(status => <BudgetProgress key={status.category ?? ''} status={status} />)}
+                        </div>
+                    ) : (
+                        <p className="text-center text-secondary py-4">{t.noBudgetsYet}</p>
+                    )}
+                </Card>
+            )}
         </div>
 
-        {pendingPayments.length > 0 && (
-            <div>
-                <h2 className="text-xl font-bold text-primary mb-4">{t.pendingPayments}</h2>
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                    {pendingPayments.map(item => <PendingPaymentCard key={item.id} item={item} vendorName={item.vendorId ? vendorMap.get(item.vendorId) : undefined} onGoToList={onSelectList} />)}
-                </div>
-            </div>
+        {agingReport.entries.length > 0 && (
+            <AgingReport report={agingReport} vendorMap={vendorMap} onGoToList={onSelectList} />
         )}
 
         <div className="flex flex-col md:flex-row gap-4 justify-between items-stretch md:items-center">
@@ -247,14 +327,21 @@ const Dashboard: React.FC<DashboardProps> = ({ onSelectList, onViewAnalysis, onV
           </div>
           <div className="flex gap-2 justify-end">
              <input type="file" ref={importInputRef} className="hidden" accept=".json" onChange={handleImportData} />
-             <button onClick={() => setImportConfirmOpen(true)} className="px-3 py-2 text-sm text-secondary font-medium rounded-lg hover:bg-surface transition-colors">{t.importData}</button>
+             {can(currentUser, 'data:import') && <button onClick={() => setImportConfirmOpen(true)} className="px-3 py-2 text-sm text-secondary font-medium rounded-lg hover:bg-surface transition-colors">{t.importData}</button>}
              <button onClick={handleExportData} className="px-3 py-2 text-sm text-secondary font-medium rounded-lg hover:bg-surface transition-colors">{t.exportData}</button>
-            <button
-              onClick={() => setIsNewListModalOpen(true)}
-              className="px-4 py-2 bg-accent text-accent-text font-medium rounded-lg hover:opacity-90 transition-opacity shadow-md shadow-accent/20 whitespace-nowrap"
-            >
-              {t.createNewList}
-            </button>
+            {can(currentUser, 'list:create') && can(currentUser, 'list:edit') && (
+              <button onClick={handleGenerateReorderList} className="px-3 py-2 text-sm bg-surface text-primary font-medium rounded-lg hover:bg-border transition-colors border border-border whitespace-nowrap">
+                {t.generateReorderList}
+              </button>
+            )}
+            {can(currentUser, 'list:create') && (
+              <button
+                onClick={() => setIsNewListModalOpen(true)}
+                className="px-4 py-2 bg-accent text-accent-text font-medium rounded-lg hover:opacity-90 transition-opacity shadow-md shadow-accent/20 whitespace-nowrap"
+              >
+                {t.createNewList}
+              </button>
+            )}
           </div>
         </div>
 
@@ -272,7 +359,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onSelectList, onViewAnalysis, onV
             {currentMonthLists.length > 0 && (
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                     {currentMonthLists.map((list: ShoppingList) => (
-                        <ListCard key={list.id} list={list} onSelect={onSelectList} onDelete={handleDelete} />
+                        <ListCard key={list.id} list={list} onSelect={onSelectList} onDelete={can(currentUser, 'list:delete') ? handleDelete : undefined} />
                     ))}
                 </div>
             )}
@@ -294,7 +381,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onSelectList, onViewAnalysis, onV
                         {isExpanded && (
                             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 animate-fade-in">
                                 {pastMonthsGroups[monthKey].map(list => (
-                                    <ListCard key={list.id} list={list} onSelect={onSelectList} onDelete={handleDelete} />
+                                    <ListCard key={list.id} list={list} onSelect={onSelectList} onDelete={can(currentUser, 'list:delete') ? handleDelete : undefined} />
                                 ))}
                             </div>
                         )}
@@ -315,6 +402,8 @@ const Dashboard: React.FC<DashboardProps> = ({ onSelectList, onViewAnalysis, onV
         <NewListModal onClose={() => setIsNewListModalOpen(false)} onCreate={handleCreateAndOpenList} />
       )}
       {isReportsModalOpen && <ReportsModal onClose={() => setIsReportsModalOpen(false)} />}
+      {isSettingsModalOpen && <SettingsModal onClose={() => setIsSettingsModalOpen(false)} />}
+      {isBudgetsModalOpen && <BudgetsModal onClose={() => setIsBudgetsModalOpen(false)} />}
       <ConfirmModal
         isOpen={deleteConfirm.isOpen}
         onClose={() => setDeleteConfirm({ ...deleteConfirm, isOpen: false })}
@@ -335,7 +424,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onSelectList, onViewAnalysis, onV
   );
 };
 
-const ListCard: React.FC<{list: ShoppingList, onSelect: (id: string) => void, onDelete: (id: string, name: string) => void}> = ({ list, onSelect, onDelete }) => {
+const ListCard: React.FC<{list: ShoppingList, onSelect: (id: string) => void, onDelete?: (id: string, name: string) => void}> = ({ list, onSelect, onDelete }) => {
     const boughtItems = list.items.filter(i => i.status === ItemStatus.Bought).length;
     const totalItems = list.items.length;
     const progress = totalItems > 0 ? (boughtItems / totalItems) * 100 : 0;
@@ -371,15 +460,19 @@ const ListCard: React.FC<{list: ShoppingList, onSelect: (id: string) => void, on
                 <div className="w-full bg-background rounded-full h-1.5"><div className="bg-accent h-1.5 rounded-full" style={{ width: `${progress}%` }}></div></div>
             </div>
         </div>
-        <div className="p-2 border-t border-border text-center opacity-0 group-hover:opacity-100 transition-opacity">
-           <button onClick={(e) => { e.stopPropagation(); onDelete(list.id, list.name); }} className="text-danger/70 text-xs hover:underline font-medium hover:text-danger">{t.delete}</button>
-        </div>
+        {onDelete && (
+          <div className="p-2 border-t border-border text-center opacity-0 group-hover:opacity-100 transition-opacity">
+             <button onClick={(e) => { e.stopPropagation(); onDelete(list.id, list.name); }} className="text-danger/70 text-xs hover:underline font-medium hover:text-danger">{t.delete}</button>
+          </div>
+        )}
       </div>
     );
 };
 
 
-const SmartSuggestionCard: React.FC<{suggestion: SmartSuggestion, onAdd: (suggestion: SmartSuggestion) => void, isAdded: boolean}> = ({ suggestion, onAdd, isAdded }) => {
+const SNOOZE_DAYS = [1, 3, 7];
+
+const SmartSuggestionCard: React.FC<{suggestion: SmartSuggestion, onAdd?: (suggestion: SmartSuggestion) => void, onSnooze: (suggestion: SmartSuggestion, days?: number) => void, isAdded: boolean}> = ({ suggestion, onAdd, onSnooze, isAdded }) => {
     const priorityColor: Record<SmartSuggestion['priority'], string> = {
         high: 'border-danger/50 bg-danger/5',
         medium: 'border-yellow-500/50 bg-yellow-500/5',
@@ -392,21 +485,54 @@ const SmartSuggestionCard: React.FC<{suggestion: SmartSuggestion, onAdd: (sugges
                 <p className="text-xs text-secondary">{suggestion.category}</p>
                 <div className="text-xs text-secondary mt-2 pt-2 border-t border-border">
                     <p className="leading-relaxed">{suggestion.reason}</p>
+                    {suggestion.suggestedQuantity && <p className="mt-1 font-medium text-primary">{t.suggestedQuantity(suggestion.suggestedQuantity, suggestion.unit)}</p>}
                 </div>
             </div>
-            <button
-                onClick={() => onAdd(suggestion)}
-                disabled={isAdded}
-                className="mt-2 w-full flex items-center justify-center gap-2 px-2 py-1 bg-accent/10 text-accent text-xs font-medium rounded-md hover:bg-accent/20 transition-colors disabled:bg-success/20 disabled:text-success disabled:cursor-not-allowed"
+            <select
+                value=""
+                onChange={e => onSnooze(suggestion, e.target.value === 'dismiss' ? undefined : Number(e.target.value))}
+                className="mt-2 w-full px-2 py-1 bg-surface border border-border rounded-md text-xs text-secondary"
             >
-                {isAdded ? <CheckIcon /> : <PlusIcon />}
-                <span>{isAdded ? t.completed : 'افزودن'}</span>
-            </button>
+                <option value="" disabled>{t.snoozeSuggestion}</option>
+                {SNOOZE_DAYS.map(days => <option key={days} value={days}>{t.snoozeDays(days)}</option>)}
+                <option value="dismiss">{t.dismissSuggestion}</option>
+            </select>
+            {onAdd && (
+                <button
+                    onClick={() => onAdd(suggestion)}
+                    disabled={isAdded}
+                    className="mt-2 w-full flex items-center justify-center gap-2 px-2 py-1 bg-accent/10 text-accent text-xs font-medium rounded-md hover:bg-accent/20 transition-colors disabled:bg-success/20 disabled:text-success disabled:cursor-not-allowed"
+                >
+                    {isAdded ? <CheckIcon /> : <PlusIcon />}
+                    <span>{isAdded ? t.completed : 'افزودن'}</span>
+                </button>
+            )}
+        </div>
+    );
+};
+
+const BudgetProgress: React.FC<{ status: BudgetStatus }> = ({ status }) => {
+    const ratio = status.spent / status.budget;
+    const barColor = ratio >= 1 ? 'bg-danger' : ratio >= 0.8 ? 'bg-yellow-400' : 'bg-success';
+    const currencyUnit = useShoppingStore(state => state.currencyUnit);
+    return (
+        <div className="bg-background p-3 rounded-lg border border-border">
+            <div className="flex justify-between items-baseline mb-2">
+                <span className={`text-sm ${status.category ? 'text-primary' : 'font-bold text-primary'}`}>{status.category || t.overallBudget}</span>
+                <span className="text-xs text-secondary">{t.budgetSpent(formatAmount(status.spent, currencyUnit), formatCurrency(status.budget, currencyUnit))}</span>
+            </div>
+            <div className="h-2 bg-border rounded-full overflow-hidden">
+                <div className={`h-full ${barColor}`} style={{ width: `${Math.min(100, ratio * 100)}%` }} />
+            </div>
+            <p className={`text-xs mt-2 ${status.projected > status.budget ? 'text-danger' : 'text-secondary'}`}>
+                {t.budgetProjected(formatCurrency(status.projected, currencyUnit))}
+                {status.projected > status.budget && ratio < 1 && ` · ${t.budgetProjectedOver}`}
+            </p>
         </div>
     );
 };
 
-const ExpenseForecastCard: React.FC<{forecast: { daily: number; monthly: number } | null}> = ({ forecast }) => {
+const ExpenseForecastCard: React.FC<{forecast: ExpenseForecast | null}> = ({ forecast }) => {
     return (
         <div className="h-full bg-background p-4 rounded-lg border border-border flex flex-col justify-center">
             <h4 className="font-bold text-primary mb-3">{t.expenseForecast}</h4>
@@ -416,9 +542,13 @@ const ExpenseForecastCard: React.FC<{forecast: { daily: number; monthly: number
                         <p className="text-sm text-secondary">{t.avgDailyExpense}</p>
                         <CurrencyDisplay value={forecast.daily} className="font-bold text-lg text-accent"/>
                     </div>
-                     <div>
-                        <p className="text-sm text-secondary">{t.estimatedMonthlyExpense}</p>
-                        <CurrencyDisplay value={forecast.monthly} className="font-bold text-lg text-accent"/>
+                    <div>
+                        <p className="text-sm text-secondary">{t.nextMonthForecast}</p>
+                        <ForecastRangeDisplay range={forecast.nextMonth} className="font-bold text-lg text-accent"/>
+                    </div>
+                    <div>
+                        <p className="text-sm text-secondary">{t.nextQuarterForecast}</p>
+                        <ForecastRangeDisplay range={forecast.nextQuarter} className="font-bold text-lg text-accent"/>
                     </div>
                 </div>
             ) : (
@@ -428,28 +558,4 @@ const ExpenseForecastCard: React.FC<{forecast: { daily: number; monthly: number
     )
 }
 
-const PendingPaymentCard: React.FC<{item: PendingPaymentItem, vendorName?: string, onGoToList: (listId: string) => void}> = ({ item, vendorName, onGoToList }) => {
-    return (
-        <Card>
-            <div className="flex flex-col justify-between h-full">
-                <div>
-                    <div className="flex justify-between items-start">
-                        <p className="font-bold text-primary text-md">{item.name}</p>
-                        <CurrencyDisplay value={item.paidPrice || 0} className="font-semibold text-danger" />
-                    </div>
-                    <p className="text-sm text-secondary">{vendorName || 'نامشخص'}</p>
-                    <p className="text-xs text-secondary mt-1">{t.purchasedOn(toJalaliDateString(item.purchaseDate, {format: 'long'}))}</p>
-                </div>
-                <button
-                    onClick={() => onGoToList(item.listId)}
-                    className="mt-4 w-full text-center px-3 py-1.5 bg-border text-primary text-sm font-medium rounded-md hover:bg-accent hover:text-accent-text transition-colors"
-                >
-                    {t.goToShoppingList}
-                </button>
-            </div>
-        </Card>
-    );
-};
-
-
 export default Dashboard;
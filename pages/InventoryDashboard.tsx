@@ -0,0 +1,186 @@
+import React, { useState, useMemo } from 'react';
+import { t } from '../translations';
+import { useShoppingStore } from '../store/useShoppingStore';
+import Header from '../components/common/Header';
+import { useToast } from '../components/common/Toast';
+import { useUndoRedo } from '../hooks/useUndoRedo';
+import { CatalogItem } from '../types';
+import { can } from '../lib/permissions';
+import { normalizeItemName } from '../lib/catalog';
+import { getStockLedger } from '../lib/inventory';
+import { toJalaliDateString } from '../lib/jalali';
+
+interface InventoryDashboardProps {
+  onBack: () => void;
+  onLogout: () => void;
+}
+
+const LEDGER_ROWS = 10;
+
+const formatQuantity = (value: number) => value.toLocaleString('fa-IR', { maximumFractionDigits: 2 });
+
+const InventoryDashboard: React.FC<InventoryDashboardProps> = ({ onBack, onLogout }) => {
+  const { catalog, lists, stockCounts, getStockLevels, recordStockCount, currentUser } = useShoppingStore();
+  const canCount = can(currentUser, 'stock:count');
+  const { addToast } = useToast();
+  const { undoAction } = useUndoRedo();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isCounting, setIsCounting] = useState(false);
+  const [counted, setCounted] = useState<Record<string, string>>({});
+  const [expandedItemId, setExpandedItemId] = useState<string | null>(null);
+
+  const stockLevels = useMemo(() => getStockLevels(), [getStockLevels, lists, stockCounts, catalog]);
+
+  const groupedItems = useMemo(() => {
+    const query = normalizeItemName(searchQuery);
+    const groups = new Map<string, CatalogItem[]>();
+    [...catalog]
+      .filter(item => !query || [item.name, ...item.aliases].some(name => normalizeItemName(name).includes(query)))
+      .sort((a, b) => a.name.localeCompare(b.name, 'fa'))
+      .forEach(item => {
+        if (!groups.has(item.category)) groups.set(item.category, []);
+        groups.get(item.category)!.push(item);
+      });
+    return [...groups.entries()].sort((a, b) => a[0].localeCompare(b[0], 'fa'));
+  }, [catalog, searchQuery]);
+
+  const ledger = useMemo(
+    () => expandedItemId ? getStockLedger(expandedItemId, lists, stockCounts, catalog).slice(-LEDGER_ROWS).reverse() : [],
+    [expandedItemId, lists, stockCounts, catalog]
+  );
+
+  const handleStartCount = () => {
+    setCounted({});
+    setIsCounting(true);
+  };
+
+  const handleSaveCount = () => {
+    const entries = Object.entries(counted)
+      .filter(([, value]) => value.trim() !== '' && Number(value) >= 0)
+      .map(([catalogItemId, value]) => ({ catalogItemId, quantity: Number(value) }));
+    if (entries.length === 0) {
+      addToast(t.nothingCounted, 'info');
+      return;
+    }
+    recordStockCount(entries);
+    addToast(t.stockCountSaved(entries.length), 'success', undoAction());
+    setIsCounting(false);
+  };
+
+  const countedCount = Object.values(counted).filter(v => v.trim() !== '').length;
+
+  return (
+    <>
+      <Header title={t.inventoryTitle} onBack={onBack} backText={t.backToDashboard} onLogout={onLogout}>
+        {canCount && !isCounting && (
+          <button onClick={handleStartCount} disabled={catalog.length === 0} className="px-4 py-2 bg-accent text-accent-text font-medium rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50">
+            {t.startStockCount}
+          </button>
+        )}
+        {isCounting && (
+          <>
+            <button onClick={() => setIsCounting(false)} className="px-3 py-1.5 text-sm bg-surface text-primary font-medium rounded-lg hover:bg-border transition-colors border border-border shadow-subtle mr-2">
+              {t.cancel}
+            </button>
+            <button onClick={handleSaveCount} className="px-4 py-2 bg-accent text-accent-text font-medium rounded-lg hover:opacity-90 transition-opacity">
+              {t.saveStockCount(countedCount)}
+            </button>
+          </>
+        )}
+      </Header>
+      <main className="p-4 sm:p-6 md:p-8 max-w-5xl mx-auto space-y-6">
+        {isCounting && <p className="p-3 text-sm bg-accent/10 text-accent rounded-lg">{t.stockCountHint}</p>}
+        <input
+          type="text"
+          placeholder={t.searchCatalog}
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className="w-full md:max-w-sm px-4 py-2 bg-surface border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent"
+        />
+        {groupedItems.length === 0 ? (
+          <div className="text-center py-16 px-6 bg-surface rounded-xl border border-border shadow-card">
+            <p className="text-secondary text-lg">{t.noItemsYet}</p>
+          </div>
+        ) : groupedItems.map(([category, items]) => (
+          <div key={category} className="bg-surface rounded-xl border border-border shadow-card overflow-hidden">
+            <h2 className="px-4 py-3 font-bold text-primary border-b border-border">{category}</h2>
+            <ul className="divide-y divide-border">
+              {items.map(item => {
+                const level = stockLevels.get(item.id);
+                const isBelowPar = !!level && !!item.parLevel && level.estimatedOnHand < (item.minLevel ?? item.parLevel);
+                return (
+                  <li key={item.id} className="px-4 py-3">
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <button type="button" onClick={() => setExpandedItemId(id => id === item.id ? null : item.id)} className="text-right">
+                        <span className="font-medium text-primary">{item.name}</span>
+                        <span className="block text-xs text-secondary">
+                          {level ? t.lastCounted(toJalaliDateString(level.lastCountedAt)) : t.neverCounted}
+                          {level?.dailyUsage !== undefined && ` · ${t.dailyUsage(formatQuantity(level.dailyUsage), item.defaultUnit)}`}
+                        </span>
+                      </button>
+                      {isCounting ? (
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="number" min="0" step="any"
+                            value={counted[item.id] ?? ''}
+                            onChange={e => setCounted(prev => ({ ...prev, [item.id]: e.target.value }))}
+                            placeholder={level ? formatQuantity(level.estimatedOnHand) : ''}
+                            className="w-28 px-3 py-1.5 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent"
+                          />
+                          <span className="text-sm text-secondary w-16">{item.defaultUnit}</span>
+                        </div>
+                      ) : (
+                        <div className="text-left text-sm">
+                          <span className={`font-semibold ${isBelowPar ? 'text-danger' : 'text-primary'}`}>
+                            {level ? `${formatQuantity(level.estimatedOnHand)} ${item.defaultUnit}` : '—'}
+                          </span>
+                          {item.parLevel !== undefined && (
+                            <span className="block text-xs text-secondary">
+                              {t.parLevel}: {formatQuantity(item.parLevel)}
+                              {item.minLevel !== undefined && ` · ${t.minLevel}: ${formatQuantity(item.minLevel)}`}
+                            </span>
+                          )}
+                          {level?.daysLeft !== undefined && <span className="block text-xs text-secondary">{t.daysLeft(formatQuantity(level.daysLeft))}</span>}
+                        </div>
+                      )}
+                    </div>
+                    {expandedItemId === item.id && !isCounting && (
+                      ledger.length === 0 ? (
+                        <p className="mt-3 text-xs text-secondary">{t.noStockMovements}</p>
+                      ) : (
+                        <table className="mt-3 w-full text-xs text-secondary">
+                          <thead>
+                            <tr className="text-right">
+                              <th className="py-1 font-medium">{t.date}</th>
+                              <th className="py-1 font-medium">{t.stockMovement}</th>
+                              <th className="py-1 font-medium">{t.quantity}</th>
+                              <th className="py-1 font-medium">{t.stockBalance}</th>
+                              <th className="py-1 font-medium">{t.consumed}</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {ledger.map((movement, i) => (
+                              <tr key={i} className="border-t border-border">
+                                <td className="py-1">{toJalaliDateString(movement.at)}</td>
+                                <td className="py-1">{movement.type === 'count' ? t.stockMovementCount : t.stockMovementPurchase}</td>
+                                <td className="py-1">{formatQuantity(movement.quantity)}</td>
+                                <td className="py-1">{movement.balance === null ? '—' : formatQuantity(movement.balance)}</td>
+                                <td className="py-1">{movement.consumed === undefined ? '—' : formatQuantity(movement.consumed)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ))}
+      </main>
+    </>
+  );
+};
+
+export default InventoryDashboard;
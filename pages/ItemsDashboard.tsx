@@ -3,11 +3,20 @@ import { t } from '../translations';
 import { useShoppingStore } from '../store/useShoppingStore';
 import Header from '../components/common/Header';
 import { MasterItem } from '../types';
-import EditItemMasterModal from '../components/modals/EditItemMasterModal';
+import CatalogItemModal from '../components/modals/CatalogItemModal';
+import ConfirmModal from '../components/modals/ConfirmModal';
+import DuplicateItemsModal from '../components/modals/DuplicateItemsModal';
+import VendorPriceComparisonModal from '../components/modals/VendorPriceComparisonModal';
+import PriceOutliersModal from '../components/modals/PriceOutliersModal';
 import { useToast } from '../components/common/Toast';
+import { useUndoRedo } from '../hooks/useUndoRedo';
 import CurrencyDisplay from '../components/common/CurrencyDisplay';
+import { can } from '../lib/permissions';
+import { normalizeItemName, findPossibleDuplicates } from '../lib/catalog';
+import { formatPackSize } from '../lib/units';
 
 const EditIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.5L14.732 3.732z" /></svg>;
+const DeleteIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>;
 
 interface ItemsDashboardProps {
   onBack: () => void;
@@ -15,11 +24,47 @@ interface ItemsDashboardProps {
 }
 
 const ItemsDashboard: React.FC<ItemsDashboardProps> = ({ onBack, onLogout }) => {
-  const { getAllKnownItems } = useShoppingStore();
+  const { getAllKnownItems, getPriceOutliers, deleteCatalogItem, lists, catalog, recipes, vendors, currentUser } = useShoppingStore();
+  const canEditCatalog = can(currentUser, 'catalog:edit');
   const [modalState, setModalState] = useState<{ open: boolean; item?: MasterItem }>({ open: false });
+  const [deleteConfirm, setDeleteConfirm] = useState<{ isOpen: boolean; item?: MasterItem }>({ isOpen: false });
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isDuplicatesModalOpen, setIsDuplicatesModalOpen] = useState(false);
+  const [comparedItem, setComparedItem] = useState<MasterItem | null>(null);
+  const [isOutliersModalOpen, setIsOutliersModalOpen] = useState(false);
   const { addToast } = useToast();
+  const { undoAction } = useUndoRedo();
 
-  const allItems = useMemo(() => getAllKnownItems(), [getAllKnownItems]);
+  const allItems = useMemo(() => getAllKnownItems(), [getAllKnownItems, lists, catalog]);
+  const duplicateCount = useMemo(() => findPossibleDuplicates(catalog).length, [catalog]);
+  const outlierCount = useMemo(() => getPriceOutliers().length, [getPriceOutliers, lists, catalog]);
+  const vendorMap = useMemo(() => new Map<string, string>(vendors.map(v => [v.id, v.name])), [vendors]);
+
+  const filteredItems = useMemo(() => {
+    const query = normalizeItemName(searchQuery);
+    if (!query) return allItems;
+    return allItems.filter(item => [item.name, ...item.aliases].some(name => normalizeItemName(name).includes(query)));
+  }, [allItems, searchQuery]);
+
+  const handleDeleteItem = (item: MasterItem) => {
+    const isUsed = lists.some(list => list.items.some(i => i.catalogItemId === item.id));
+    if (isUsed) {
+      addToast(t.catalogItemInUse, 'error');
+      return;
+    }
+    if (recipes.some(recipe => recipe.ingredients.some(i => i.catalogItemId === item.id))) {
+      addToast(t.catalogItemInRecipe, 'error');
+      return;
+    }
+    setDeleteConfirm({ isOpen: true, item });
+  };
+
+  const confirmDelete = () => {
+    if (deleteConfirm.item) {
+      deleteCatalogItem(deleteConfirm.item.id);
+      addToast(t.catalogItemDeleted, 'info', undoAction());
+    }
+  };
 
   const handleExportJson = () => {
     if (allItems.length === 0) return;
@@ -45,28 +90,64 @@ const ItemsDashboard: React.FC<ItemsDashboardProps> = ({ onBack, onLogout }) =>
         >
           {t.exportJson}
         </button>
+        {canEditCatalog && duplicateCount > 0 && (
+          <button
+            onClick={() => setIsDuplicatesModalOpen(true)}
+            className="px-3 py-1.5 text-sm bg-yellow-400/20 text-yellow-600 dark:text-yellow-400 font-medium rounded-lg hover:bg-yellow-400/30 transition-colors mr-2"
+          >
+            {t.possibleDuplicates(duplicateCount)}
+          </button>
+        )}
+        {outlierCount > 0 && (
+          <button
+            onClick={() => setIsOutliersModalOpen(true)}
+            className="px-3 py-1.5 text-sm bg-yellow-400/20 text-yellow-600 dark:text-yellow-400 font-medium rounded-lg hover:bg-yellow-400/30 transition-colors mr-2"
+          >
+            {t.priceOutliers(outlierCount)}
+          </button>
+        )}
+        {canEditCatalog && (
+          <button
+            onClick={() => setModalState({ open: true })}
+            className="px-4 py-2 bg-accent text-accent-text font-medium rounded-lg hover:opacity-90 transition-opacity"
+          >
+            {t.addCatalogItem}
+          </button>
+        )}
       </Header>
-      <main className="p-4 sm:p-6 md:p-8 max-w-7xl mx-auto">
+      <main className="p-4 sm:p-6 md:p-8 max-w-7xl mx-auto space-y-6">
+        {allItems.length > 0 && (
+          <input
+            type="text"
+            placeholder={t.searchCatalog}
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="w-full md:max-w-sm px-4 py-2 bg-surface border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent"
+          />
+        )}
         {allItems.length === 0 ? (
           <div className="text-center py-16 px-6 bg-surface rounded-xl border border-border shadow-card">
             <p className="text-secondary text-lg">{t.noItemsYet}</p>
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {allItems.map(item => (
-              <div key={`${item.name}-${item.unit}`} className="bg-surface rounded-xl border border-border shadow-card flex flex-col">
+            {filteredItems.map(item => (
+              <div key={item.id} className="bg-surface rounded-xl border border-border shadow-card flex flex-col">
                 <div className="p-5 flex-grow">
                   <h2 className="text-lg font-bold text-primary mb-1">{item.name}</h2>
-                  <p className="text-sm text-secondary mb-3">{item.category} / {item.unit}</p>
+                  <p className="text-sm text-secondary">{item.category} / {item.defaultUnit}</p>
+                  {item.aliases.length > 0 && <p className="text-xs text-secondary mt-1">{t.aliases}: {item.aliases.join('، ')}</p>}
+                  {item.packSizes && item.packSizes.length > 0 && <p className="text-xs text-secondary mt-1">{t.packSizes}: {item.packSizes.map(formatPackSize).join('، ')}</p>}
+                  {item.defaultVendorId && <p className="text-xs text-secondary mt-1">{t.defaultVendor}: {vendorMap.get(item.defaultVendorId)}</p>}
 
-                   <div className="space-y-3 border-t border-border pt-3 text-sm">
+                   <div className="space-y-3 border-t border-border pt-3 mt-3 text-sm">
                         <div className="flex justify-between items-center">
                             <span className="text-secondary">{t.lastPrice}:</span>
                             <CurrencyDisplay value={item.lastPricePerUnit} className="font-semibold text-primary" />
                         </div>
                          <div className="flex justify-between items-center">
                             <span className="text-secondary">{t.totalQuantity}:</span>
-                            <span className="font-semibold text-primary">{item.totalQuantity.toLocaleString('fa-IR')} {item.unit}</span>
+                            <span className="font-semibold text-primary">{item.totalQuantity.toLocaleString('fa-IR')} {item.defaultUnit}</span>
                         </div>
                         <div className="flex justify-between items-center">
                             <span className="text-secondary">{t.totalSpend}:</span>
@@ -78,20 +159,41 @@ const ItemsDashboard: React.FC<ItemsDashboardProps> = ({ onBack, onLogout }) =>
                         </div>
                    </div>
                 </div>
-                <div className="p-2 border-t border-border flex justify-end gap-2">
-                    <button onClick={() => setModalState({ open: true, item })} className="p-1.5 text-secondary hover:text-primary"><EditIcon/></button>
-                </div>
+                {(canEditCatalog || item.purchaseCount > 0) && (
+                  <div className="p-2 border-t border-border flex items-center gap-2">
+                      {item.purchaseCount > 0 && (
+                        <button onClick={() => setComparedItem(item)} className="px-2 py-1 text-xs text-accent hover:underline">{t.compareVendors}</button>
+                      )}
+                      {canEditCatalog && (
+                        <>
+                          <button onClick={() => setModalState({ open: true, item })} className="p-1.5 text-secondary hover:text-primary mr-auto"><EditIcon/></button>
+                          <button onClick={() => handleDeleteItem(item)} className="p-1.5 text-secondary hover:text-danger"><DeleteIcon/></button>
+                        </>
+                      )}
+                  </div>
+                )}
               </div>
             ))}
           </div>
         )}
       </main>
       {modalState.open && (
-        <EditItemMasterModal
-          itemToEdit={modalState.item!}
+        <CatalogItemModal
+          itemToEdit={modalState.item}
           onClose={() => setModalState({ open: false })}
         />
       )}
+      {isDuplicatesModalOpen && <DuplicateItemsModal onClose={() => setIsDuplicatesModalOpen(false)} />}
+      {isOutliersModalOpen && <PriceOutliersModal onClose={() => setIsOutliersModalOpen(false)} />}
+      {comparedItem && <VendorPriceComparisonModal item={comparedItem} onClose={() => setComparedItem(null)} />}
+      <ConfirmModal
+        isOpen={deleteConfirm.isOpen}
+        onClose={() => setDeleteConfirm({ isOpen: false })}
+        onConfirm={confirmDelete}
+        title={t.confirmDeleteTitle}
+        message={deleteConfirm.item ? t.confirmDeleteCatalogItem(deleteConfirm.item.name) : ''}
+        variant="danger"
+      />
     </>
   );
 };
@@ -0,0 +1,200 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { t } from '../translations';
+import { useShoppingStore } from '../store/useShoppingStore';
+import Header from '../components/common/Header';
+import { Recipe } from '../types';
+import RecipeModal from '../components/modals/RecipeModal';
+import ConfirmModal from '../components/modals/ConfirmModal';
+import { useToast } from '../components/common/Toast';
+import { useUndoRedo } from '../hooks/useUndoRedo';
+import CurrencyDisplay from '../components/common/CurrencyDisplay';
+import { can } from '../lib/permissions';
+import { buildPriceHistory, recipeCostHistory, CostMethod, MOVING_AVERAGE_PURCHASES } from '../lib/recipes';
+import { toJalaliDateString } from '../lib/jalali';
+import { Chart, registerables } from 'chart.js';
+
+Chart.register(...registerables);
+
+const EditIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.5L14.732 3.732z" /></svg>;
+const DeleteIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>;
+
+interface RecipesDashboardProps {
+  onBack: () => void;
+  onLogout: () => void;
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100).toLocaleString('fa-IR')}٪`;
+
+const CostHistoryChart: React.FC<{ points: { at: string; perServing: number }[]; salePrice?: number }> = ({ points, salePrice }) => {
+  const chartRef = useRef<HTMLCanvasElement | null>(null);
+  const chartInstance = useRef<Chart | null>(null);
+
+  useEffect(() => {
+    const ctx = chartRef.current?.getContext('2d');
+    if (ctx) {
+      chartInstance.current = new Chart(ctx, {
+        type: 'line',
+        data: {
+          labels: points.map(p => toJalaliDateString(p.at)),
+          datasets: [
+            { label: t.costPerServing, data: points.map(p => Math.round(p.perServing)), borderColor: '#f59e0b', backgroundColor: '#f59e0b', tension: 0.2 },
+            ...(salePrice ? [{ label: t.salePrice, data: points.map(() => salePrice), borderColor: '#10b981', backgroundColor: '#10b981', borderDash: [6, 4], pointRadius: 0 }] : []),
+          ],
+        },
+        options: {
+          responsive: true,
+          maintainAspectRatio: false,
+          plugins: { legend: { position: 'top' } },
+        },
+      });
+    }
+    return () => {
+      if (chartInstance.current) chartInstance.current.destroy();
+    };
+  }, [points, salePrice]);
+
+  return <div className="h-56"><canvas ref={chartRef}></canvas></div>;
+};
+
+const RecipesDashboard: React.FC<RecipesDashboardProps> = ({ onBack, onLogout }) => {
+  const { recipes, lists, catalog, getRecipeCosts, deleteRecipe, currentUser } = useShoppingStore();
+  const canEditRecipes = can(currentUser, 'recipe:edit');
+  const { addToast } = useToast();
+  const { undoAction } = useUndoRedo();
+  const [method, setMethod] = useState<CostMethod>('latest');
+  const [modalState, setModalState] = useState<{ open: boolean; recipe?: Recipe }>({ open: false });
+  const [deleteConfirm, setDeleteConfirm] = useState<{ isOpen: boolean; recipe?: Recipe }>({ isOpen: false });
+  const [expandedRecipeId, setExpandedRecipeId] = useState<string | null>(null);
+
+  const costs = useMemo(() => getRecipeCosts(method), [getRecipeCosts, method, recipes, lists, catalog]);
+  const sortedRecipes = useMemo(() => [...recipes].sort((a, b) => a.name.localeCompare(b.name, 'fa')), [recipes]);
+
+  const expandedRecipe = recipes.find(r => r.id === expandedRecipeId);
+  const costHistory = useMemo(
+    () => expandedRecipe ? recipeCostHistory(expandedRecipe, catalog, buildPriceHistory(lists, catalog), method) : [],
+    [expandedRecipe, catalog, lists, method]
+  );
+
+  const confirmDelete = () => {
+    if (deleteConfirm.recipe) {
+      deleteRecipe(deleteConfirm.recipe.id);
+      addToast(t.recipeDeleted, 'info', undoAction());
+    }
+  };
+
+  return (
+    <>
+      <Header title={t.recipesTitle} onBack={onBack} backText={t.backToDashboard} onLogout={onLogout}>
+        {canEditRecipes && (
+          <button
+            onClick={() => setModalState({ open: true })}
+            disabled={catalog.length === 0}
+            className="px-4 py-2 bg-accent text-accent-text font-medium rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50"
+          >
+            {t.addRecipe}
+          </button>
+        )}
+      </Header>
+      <main className="p-4 sm:p-6 md:p-8 max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center gap-3">
+          <label className="text-sm font-medium text-secondary">{t.costMethod}</label>
+          <select value={method} onChange={e => setMethod(e.target.value as CostMethod)} className="px-3 py-2 bg-surface border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent">
+            <option value="latest">{t.costMethodLatest}</option>
+            <option value="average">{t.costMethodAverage(MOVING_AVERAGE_PURCHASES)}</option>
+          </select>
+        </div>
+        {sortedRecipes.length === 0 ? (
+          <div className="text-center py-16 px-6 bg-surface rounded-xl border border-border shadow-card">
+            <p className="text-secondary text-lg">{t.noRecipesYet}</p>
+          </div>
+        ) : sortedRecipes.map(recipe => {
+          const cost = costs.get(recipe.id)!;
+          const margin = recipe.salePrice !== undefined ? recipe.salePrice - cost.perServing : undefined;
+          const isExpanded = expandedRecipeId === recipe.id;
+          return (
+            <div key={recipe.id} className="bg-surface rounded-xl border border-border shadow-card overflow-hidden">
+              <div className="p-4 flex flex-wrap items-center justify-between gap-4">
+                <button type="button" onClick={() => setExpandedRecipeId(isExpanded ? null : recipe.id)} className="text-right">
+                  <h2 className="text-lg font-bold text-primary">{recipe.name}</h2>
+                  <p className="text-xs text-secondary">
+                    {t.servings}: {recipe.servings.toLocaleString('fa-IR')}
+                    {!cost.isComplete && <span className="text-danger"> · {t.missingPrices}</span>}
+                  </p>
+                </button>
+                <div className="flex flex-wrap items-center gap-6 text-sm">
+                  <div>
+                    <span className="block text-secondary text-xs">{t.costPerServing}</span>
+                    <CurrencyDisplay value={Math.round(cost.perServing)} className="font-semibold text-primary" />
+                  </div>
+                  <div>
+                    <span className="block text-secondary text-xs">{t.salePrice}</span>
+                    {recipe.salePrice !== undefined ? <CurrencyDisplay value={recipe.salePrice} className="font-semibold text-primary" /> : <span className="text-secondary">{t.noSalePrice}</span>}
+                  </div>
+                  {margin !== undefined && (
+                    <div>
+                      <span className="block text-secondary text-xs">{t.margin}</span>
+                      <CurrencyDisplay value={Math.round(margin)} className={`font-semibold ${margin < 0 ? 'text-danger' : 'text-success'}`} />
+                      <span className="block text-xs text-secondary">{t.foodCostPercent}: {formatPercent(cost.perServing / recipe.salePrice!)}</span>
+                    </div>
+                  )}
+                  {canEditRecipes && (
+                    <div className="flex gap-1">
+                      <button onClick={() => setModalState({ open: true, recipe })} className="p-1.5 text-secondary hover:text-primary"><EditIcon/></button>
+                      <button onClick={() => setDeleteConfirm({ isOpen: true, recipe })} className="p-1.5 text-secondary hover:text-danger"><DeleteIcon/></button>
+                    </div>
+                  )}
+                </div>
+              </div>
+              {isExpanded && (
+                <div className="px-4 pb-4 space-y-4 border-t border-border pt-4">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-right text-secondary text-xs">
+                        <th className="py-1 font-medium">{t.ingredients}</th>
+                        <th className="py-1 font-medium">{t.amount}</th>
+                        <th className="py-1 font-medium">{t.unitPrice}</th>
+                        <th className="py-1 font-medium">{t.cost}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {cost.lines.map((line, i) => (
+                        <tr key={i} className="border-t border-border">
+                          <td className="py-1.5 text-primary">{line.catalogItem?.name ?? line.ingredient.catalogItemId}</td>
+                          <td className="py-1.5">{line.ingredient.quantity.toLocaleString('fa-IR')} {line.ingredient.unit}</td>
+                          <td className="py-1.5">{line.unitPrice !== undefined ? <CurrencyDisplay value={Math.round(line.unitPrice)} /> : <span className="text-danger">{t.priceUnknown}</span>}</td>
+                          <td className="py-1.5">{line.cost !== undefined ? <CurrencyDisplay value={Math.round(line.cost)} /> : '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <div>
+                    <h3 className="text-sm font-bold text-secondary mb-2">{t.costOverTime}</h3>
+                    {costHistory.length > 0
+                      ? <CostHistoryChart points={costHistory} salePrice={recipe.salePrice} />
+                      : <p className="text-xs text-secondary">{t.notEnoughCostHistory}</p>}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </main>
+      {modalState.open && (
+        <RecipeModal
+          recipeToEdit={modalState.recipe}
+          onClose={() => setModalState({ open: false })}
+        />
+      )}
+      <ConfirmModal
+        isOpen={deleteConfirm.isOpen}
+        onClose={() => setDeleteConfirm({ isOpen: false })}
+        onConfirm={confirmDelete}
+        title={t.confirmDeleteTitle}
+        message={deleteConfirm.recipe ? t.confirmDeleteRecipe(deleteConfirm.recipe.name) : ''}
+        variant="danger"
+      />
+    </>
+  );
+};
+
+export default RecipesDashboard;
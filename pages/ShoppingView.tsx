@@ -9,9 +9,13 @@ import BulkBuyModal from '../components/modals/BulkBuyModal';
 import OcrImportModal from '../components/modals/OcrImportModal';
 import { useShoppingStore } from '../store/useShoppingStore';
 import { useToast } from '../components/common/Toast';
+import { useUndoRedo } from '../hooks/useUndoRedo';
+import { useBudgetAlerts } from '../hooks/useBudgetAlerts';
 import CurrencyDisplay from '../components/common/CurrencyDisplay';
 import { exportComponentAsPdf } from '../lib/pdfExport';
 import Card from '../components/common/Card';
+import { can } from '../lib/permissions';
+import { PRICE_COMPARISON_DAYS } from '../lib/vendorPrices';
 
 const EditIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.5L14.732 3.732z" /></svg>;
 const DeleteIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>;
@@ -35,7 +39,9 @@ interface StructuredReportData {
 
 
 const ShoppingView: React.FC<ShoppingViewProps> = ({ listId, onBack, onLogout }) => {
-  const { lists, updateList, addCustomData, allCategories, vendors, addOcrPurchase, findOrCreateVendor, updateCategoryVendorMap, getKnownItemNames, getItemInfo, getLatestPricePerUnit, updateItem } = useShoppingStore();
+  const { lists, catalog, updateList, ensureCatalogItem, allCategories, vendors, addOcrPurchase, findOrCreateVendor, updateCategoryVendorMap, getKnownItemNames, findCatalogItem, getLatestPricePerUnit, getVendorRecommendation, updateItem, currentUser } = useShoppingStore();
+  const canEditList = can(currentUser, 'list:edit');
+  const canBuy = can(currentUser, 'item:buy');
   const list = useMemo(() => lists.find(l => l.id === listId)!, [lists, listId]);
 
   const [newItemName, setNewItemName] = useState('');
@@ -52,9 +58,11 @@ const ShoppingView: React.FC<ShoppingViewProps> = ({ listId, onBack, onLogout })
   const [isPdfLoading, setIsPdfLoading] = useState(false);
 
   const { addToast } = useToast();
+  const { undoAction } = useUndoRedo();
+  const withBudgetAlerts = useBudgetAlerts();
   const vendorMap = useMemo(() => new Map<string, string>(vendors.map(v => [v.id, v.name])), [vendors]);
 
-  const knownItemNames = useMemo(() => getKnownItemNames(), [lists]);
+  const knownItemNames = useMemo(() => getKnownItemNames(), [catalog]);
 
   const onUpdateList = (updatedList: ShoppingList) => {
     updateList(listId, updatedList);
@@ -64,10 +72,10 @@ const ShoppingView: React.FC<ShoppingViewProps> = ({ listId, onBack, onLogout })
     const name = e.target.value;
     setNewItemName(name);
 
-    const rememberedInfo = getItemInfo(name);
-    if (rememberedInfo) {
-        setNewItemUnit(rememberedInfo.unit);
-        setNewItemCategory(rememberedInfo.category);
+    const catalogItem = findCatalogItem(name);
+    if (catalogItem) {
+        setNewItemUnit(catalogItem.defaultUnit);
+        setNewItemCategory(catalogItem.category);
     }
   };
 
@@ -76,12 +84,13 @@ const ShoppingView: React.FC<ShoppingViewProps> = ({ listId, onBack, onLogout })
       const latestPricePerUnit = getLatestPricePerUnit(newItemName.trim(), newItemUnit);
       const estimatedPrice = latestPricePerUnit ? latestPricePerUnit * Number(newItemAmount) : undefined;
 
+      const category = newItemCategory.trim() || t.other;
       const newItem: ShoppingItem = {
         id: `item-${Date.now()}`, name: newItemName.trim(), amount: Number(newItemAmount),
-        unit: newItemUnit, status: ItemStatus.Pending, category: newItemCategory.trim() || t.other,
+        unit: newItemUnit, status: ItemStatus.Pending, category,
         estimatedPrice,
+        catalogItemId: ensureCatalogItem({ name: newItemName.trim(), unit: newItemUnit, category }),
       };
-      addCustomData(newItem);
       onUpdateList({ ...list, items: [...list.items, newItem] });
       addToast(t.itemAdded, 'success');
       setNewItemName(''); setNewItemAmount(''); setNewItemCategory(''); setNewItemUnit(Unit.Piece);
@@ -103,11 +112,10 @@ const ShoppingView: React.FC<ShoppingViewProps> = ({ listId, onBack, onLogout })
     const vendorId = findOrCreateVendor(vendorName);
     const itemToUpdate = list.items.find(i => i.id === itemId);
 
+    withBudgetAlerts(list.createdAt, () => updateItem(listId, itemId, { status: ItemStatus.Bought, paidPrice: totalPrice, purchasedAmount, vendorId, paymentMethod, paymentStatus }));
     if (itemToUpdate && itemToUpdate.category && vendorId) {
         updateCategoryVendorMap(itemToUpdate.category, vendorId);
     }
-
-    updateItem(listId, itemId, { status: ItemStatus.Bought, paidPrice: totalPrice, purchasedAmount, vendorId, paymentMethod, paymentStatus });
     addToast(`${t.buy} ${list.items.find(i=>i.id===itemId)?.name}`, 'success');
     setItemToBuy(null);
   };
@@ -115,11 +123,10 @@ const ShoppingView: React.FC<ShoppingViewProps> = ({ listId, onBack, onLogout })
    const handleSavePurchasedItem = (itemId: string, updates: Partial<ShoppingItem>) => {
     const itemToUpdate = list.items.find(i => i.id === itemId);
 
+    updateItem(listId, itemId, updates);
     if (itemToUpdate && itemToUpdate.category && updates.vendorId) {
         updateCategoryVendorMap(itemToUpdate.category, updates.vendorId);
     }
-
-    updateItem(listId, itemId, updates);
     addToast(t.itemUpdated, 'info');
     setItemToEditPurchased(null);
   };
@@ -133,23 +140,27 @@ const ShoppingView: React.FC<ShoppingViewProps> = ({ listId, onBack, onLogout })
         return [item.id, { ...item, vendorId }];
     }));
 
-    onUpdateList({ ...list, items: list.items.map(item => updatedItemMap.get(item.id) || item) });
-    addToast(t.itemsBought, 'success');
+    withBudgetAlerts(list.createdAt, () => onUpdateList({ ...list, items: list.items.map(item => updatedItemMap.get(item.id) || item) }));
+    addToast(t.itemsBought, 'success', undoAction());
     setIsBulkBuyModalOpen(false);
     setSelectedItemIds(new Set());
   };
 
   const handleSaveEdit = (itemId: string, updates: Partial<ShoppingItem>) => {
     const originalItem = list.items.find(item => item.id === itemId);
-    if (originalItem) addCustomData({ ...originalItem, ...updates });
-    updateItem(listId, itemId, updates);
+    if (!originalItem) return;
+    // A renamed item may now be a different product.
+    const catalogItemId = updates.name && updates.name !== originalItem.name
+        ? ensureCatalogItem({ ...originalItem, ...updates })
+        : originalItem.catalogItemId;
+    updateItem(listId, itemId, { ...updates, catalogItemId });
     addToast(t.itemUpdated, 'info');
     setItemToEdit(null);
   };
 
   const handleDeleteItem = (itemId: string) => {
     onUpdateList({ ...list, items: list.items.filter(item => item.id !== itemId) });
-    addToast(t.itemDeleted, 'info');
+    addToast(t.itemDeleted, 'info', undoAction());
   };
 
   const handleSelectItem = (itemId: string) => {
@@ -243,19 +254,43 @@ const ShoppingView: React.FC<ShoppingViewProps> = ({ listId, onBack, onLogout })
 
   const pendingItems = list.items.filter(item => item.status === ItemStatus.Pending);
 
-  const groupItemsByCategory = (items: ShoppingItem[]): Record<string, ShoppingItem[]> => {
+  const groupItems = (items: ShoppingItem[], groupOf: (item: ShoppingItem) => string): Record<string, ShoppingItem[]> => {
     return items.reduce((acc, item) => {
-      const category = item.category || t.other;
-      if (!acc[category]) {
-        acc[category] = [];
+      const group = groupOf(item);
+      if (!acc[group]) {
+        acc[group] = [];
       }
-      acc[category].push(item);
+      acc[group].push(item);
       return acc;
     }, {} as Record<string, ShoppingItem[]>);
   };
-
-  const groupedPendingItems = useMemo(() => groupItemsByCategory(pendingItems), [pendingItems]);
+  const groupItemsByCategory = (items: ShoppingItem[]) => groupItems(items, item => item.category || t.other);
+
+  // Generated reorder lists plan a vendor for each item; those are grouped per vendor.
+  const isGroupedByVendor = pendingItems.some(item => item.vendorId);
+  const groupedPendingItems = useMemo(
+    () => isGroupedByVendor
+      ? groupItems(pendingItems, item => (item.vendorId && vendorMap.get(item.vendorId)) || t.noVendorPlanned)
+      : groupItemsByCategory(pendingItems),
+    [pendingItems, isGroupedByVendor, vendorMap]
+  );
   const groupedBoughtItems = useMemo(() => groupItemsByCategory(boughtItems), [boughtItems]);
+  // Cheaper vendors than the one planned, or the one bought from last.
+  const vendorRecommendations = useMemo(
+    () => new Map(pendingItems.map(item => [item.id, getVendorRecommendation(item.name, item.vendorId)])),
+    [list.items, lists, catalog, getVendorRecommendation]
+  );
+  const renderVendorHint = (item: ShoppingItem) => {
+    const recommendation = vendorRecommendations.get(item.id);
+    if (!recommendation) return null;
+    const cheaper = vendorMap.get(recommendation.vendorId) || '';
+    const compared = vendorMap.get(recommendation.comparedToVendorId) || '';
+    return (
+      <span className="text-xs text-success block" title={t.vendorCheaper(cheaper, compared, recommendation.saving, PRICE_COMPARISON_DAYS)}>
+        {t.cheaperAt(cheaper, recommendation.saving)}
+      </span>
+    );
+  };
 
   const totalCost = useMemo(() => boughtItems.reduce((sum, item) => sum + (item.paidPrice || 0), 0), [boughtItems]);
   const totalDue = useMemo(() => boughtItems.filter(i => i.paymentStatus === PaymentStatus.Due).reduce((sum, item) => sum + (item.paidPrice || 0), 0), [boughtItems]);
@@ -278,6 +313,7 @@ const ShoppingView: React.FC<ShoppingViewProps> = ({ listId, onBack, onLogout })
        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
             <div className="lg:col-span-1">
                 <div className="sticky top-24 space-y-6">
+                    {canEditList && (
                     <Card title={t.addNewItem}>
                     <div className="space-y-4">
                         <input type="text" value={newItemName} list="known-items" onChange={handleNewItemNameChange} placeholder={t.itemName} className="w-full px-3 py-2 bg-background border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent"/>
@@ -299,6 +335,7 @@ const ShoppingView: React.FC<ShoppingViewProps> = ({ listId, onBack, onLogout })
                         </div>
                     </div>
                     </Card>
+                    )}
                      <Card>
                         <div className="space-y-3">
                             <div>
@@ -323,24 +360,29 @@ const ShoppingView: React.FC<ShoppingViewProps> = ({ listId, onBack, onLogout })
                     {pendingItems.length > 0 ? (
                         <div className="space-y-6">
                             {Object.entries(groupedPendingItems)
-                                .sort((a, b) => a[0].localeCompare(b[0], 'fa'))
+                                .sort((a, b) => Number(a[0] === t.noVendorPlanned) - Number(b[0] === t.noVendorPlanned) || a[0].localeCompare(b[0], 'fa'))
                                 .map(([category, items]: [string, ShoppingItem[]]) => (
                                 <div key={category}>
                                     <h3 className="text-md font-bold text-secondary mb-3">{category}</h3>
                                     <ul className="space-y-3">
                                     {items.map(item => (
                                         <li key={item.id} className={`p-3 rounded-lg transition-all duration-300 flex items-center gap-4 group ${selectedItemIds.has(item.id) ? 'bg-accent/10' : 'bg-surface border border-transparent hover:border-accent/50'}`}>
-                                            <input type="checkbox" checked={selectedItemIds.has(item.id)} onChange={() => handleSelectItem(item.id)} className="form-checkbox h-5 w-5 rounded bg-background border-border text-accent focus:ring-accent flex-shrink-0"/>
+                                            {canBuy && <input type="checkbox" checked={selectedItemIds.has(item.id)} onChange={() => handleSelectItem(item.id)} className="form-checkbox h-5 w-5 rounded bg-background border-border text-accent focus:ring-accent flex-shrink-0"/>}
                                             <div className="flex-grow flex flex-wrap items-center justify-between gap-x-4 gap-y-2">
                                             <div>
                                                 <span className="font-medium text-primary">{item.name} - {item.amount} {item.unit}</span>
                                                 {item.estimatedPrice && <CurrencyDisplay value={item.estimatedPrice} className="text-xs text-secondary/80 ml-2" />}
                                                 <span className="text-xs text-secondary block">{item.category}</span>
+                                                {renderVendorHint(item)}
                                             </div>
                                             <div className="flex items-center gap-1">
-                                                <button onClick={() => setItemToBuy(item)} className="px-3 py-1 bg-success/20 text-success text-sm font-medium rounded-md hover:bg-success/30 transition-colors">{t.buy}</button>
-                                                <button onClick={() => setItemToEdit(item)} className="p-1.5 text-secondary hover:text-primary opacity-0 group-hover:opacity-100 transition-opacity"><EditIcon/></button>
-                                                <button onClick={() => handleDeleteItem(item.id)} className="p-1.5 text-secondary hover:text-danger opacity-0 group-hover:opacity-100 transition-opacity"><DeleteIcon/></button>
+                                                {canBuy && <button onClick={() => setItemToBuy(item)} className="px-3 py-1 bg-success/20 text-success text-sm font-medium rounded-md hover:bg-success/30 transition-colors">{t.buy}</button>}
+                                                {canEditList && (
+                                                    <>
+                                                        <button onClick={() => setItemToEdit(item)} className="p-1.5 text-secondary hover:text-primary opacity-0 group-hover:opacity-100 transition-opacity"><EditIcon/></button>
+                                                        <button onClick={() => handleDeleteItem(item.id)} className="p-1.5 text-secondary hover:text-danger opacity-0 group-hover:opacity-100 transition-opacity"><DeleteIcon/></button>
+                                                    </>
+                                                )}
                                             </div>
                                             </div>
                                         </li>
@@ -378,13 +420,17 @@ const ShoppingView: React.FC<ShoppingViewProps> = ({ listId, onBack, onLogout })
                                                         </div>
                                                     </div>
                                                     <div className="flex items-center gap-2 sm:justify-end w-full sm:w-auto">
-                                                        {item.paymentStatus === PaymentStatus.Due && (
+                                                        {item.paymentStatus === PaymentStatus.Due && !item.invoiceId && can(currentUser, 'payment:markPaid') && (
                                                             <button onClick={() => handleMarkAsPaid(item.id)} className="px-3 py-1 bg-success text-accent-text text-sm font-medium rounded-md hover:opacity-90 transition-colors">
                                                                 {t.markAsPaid}
                                                             </button>
                                                         )}
-                                                        <button onClick={() => setItemToEditPurchased(item)} title={t.edit} className="p-1.5 text-secondary hover:text-primary"><EditIcon /></button>
-                                                        <button onClick={() => updateItem(listId, item.id, { status: ItemStatus.Pending, paidPrice: undefined, purchasedAmount: undefined, vendorId: undefined, paymentMethod: undefined, paymentStatus: undefined })} title={t.moveToToBuy} className="p-1.5 text-secondary hover:text-primary"><UndoIcon /></button>
+                                                        {canBuy && (
+                                                            <>
+                                                                <button onClick={() => setItemToEditPurchased(item)} title={t.edit} className="p-1.5 text-secondary hover:text-primary"><EditIcon /></button>
+                                                                <button onClick={() => updateItem(listId, item.id, { status: ItemStatus.Pending, paidPrice: undefined, purchasedAmount: undefined, vendorId: undefined, paymentMethod: undefined, paymentStatus: undefined, invoiceId: undefined })} title={t.moveToToBuy} className="p-1.5 text-secondary hover:text-primary"><UndoIcon /></button>
+                                                            </>
+                                                        )}
                                                     </div>
                                                 </div>
                                             </li>))}
@@ -8,6 +8,8 @@ import { generateExecutiveSummary } from '../lib/gemini';
 import SkeletonLoader from '../components/common/SkeletonLoader';
 import CurrencyDisplay from '../components/common/CurrencyDisplay';
 import { useToast } from '../components/common/Toast';
+import ForecastRangeDisplay from '../components/common/ForecastRangeDisplay';
+import { indexChange } from '../lib/priceIndex';
 import { Chart, registerables, ChartConfiguration, ChartTypeRegistry } from 'chart.js';
 
 Chart.register(...registerables);
@@ -32,6 +34,10 @@ const LoadingOverlay = () => (
 const SummaryDashboard: React.FC<SummaryDashboardProps> = ({ onBack, onLogout }) => {
   const [period, setPeriod] = useState<Period>('30d');
   const getSummaryData = useShoppingStore(state => state.getSummaryData);
+  const getPriceIndex = useShoppingStore(state => state.getPriceIndex);
+  const getExpenseForecast = useShoppingStore(state => state.getExpenseForecast);
+  const lists = useShoppingStore(state => state.lists);
+  const catalog = useShoppingStore(state => state.catalog);
   const { addToast } = useToast();
 
   const [summaryData, setSummaryData] = useState<SummaryData | null>(null);
@@ -44,6 +50,16 @@ const SummaryDashboard: React.FC<SummaryDashboardProps> = ({ onBack, onLogout })
   const spendingTimeChartInstance = useRef<Chart | null>(null);
   const spendingCategoryChartRef = useRef<HTMLCanvasElement | null>(null);
   const spendingCategoryChartInstance = useRef<Chart | null>(null);
+  const priceIndexChartRef = useRef<HTMLCanvasElement | null>(null);
+  const priceIndexChartInstance = useRef<Chart | null>(null);
+  const forecastChartRef = useRef<HTMLCanvasElement | null>(null);
+  const forecastChartInstance = useRef<Chart | null>(null);
+
+  // The index covers all purchases whatever the period, since it only means something over months.
+  const priceIndex = useMemo(() => getPriceIndex(), [getPriceIndex, lists, catalog]);
+  const monthlyInflation = indexChange(priceIndex, priceIndex.overall, 1);
+  const yearlyInflation = indexChange(priceIndex, priceIndex.overall, 12);
+  const forecast = useMemo(() => getExpenseForecast(), [getExpenseForecast, lists]);
 
   useEffect(() => {
     setIsUpdating(true);
@@ -242,6 +258,85 @@ const SummaryDashboard: React.FC<SummaryDashboardProps> = ({ onBack, onLogout })
     }
   }, [summaryData, doughnutChartOptions]);
 
+  useEffect(() => {
+    if (priceIndexChartInstance.current) priceIndexChartInstance.current.destroy();
+    if (priceIndexChartRef.current && priceIndex.months.length > 1) {
+      const styles = getComputedStyle(document.documentElement);
+      const accentColor = styles.getPropertyValue('--color-accent').trim();
+      const palette = [2, 3, 4, 5, 1].map(n => styles.getPropertyValue(`--color-chart-${n}`).trim());
+      const rounded = (series: (number | null)[]) => series.map(value => value === null ? null : Math.round(value * 10) / 10);
+
+      const ctx = priceIndexChartRef.current.getContext('2d');
+      if (ctx) {
+        priceIndexChartInstance.current = new Chart(ctx, {
+          type: 'line',
+          data: {
+            labels: priceIndex.months.map(formatMonth),
+            datasets: [
+              { label: t.cafeBasket, data: rounded(priceIndex.overall), borderColor: accentColor, backgroundColor: accentColor, borderWidth: 3, tension: 0.3 },
+              ...[...priceIndex.byGroup.entries()].map(([category, series], i) => ({
+                label: category,
+                data: rounded(series),
+                borderColor: palette[i % palette.length],
+                backgroundColor: palette[i % palette.length],
+                borderWidth: 1.5,
+                tension: 0.3,
+                spanGaps: true,
+              })),
+            ],
+          },
+          options: {
+            ...lineChartOptions,
+            plugins: {
+              ...lineChartOptions.plugins,
+              legend: { display: true, position: 'bottom' as const, labels: { font: { family: "'Vazirmatn', sans-serif" } } },
+            },
+          },
+        });
+      }
+    }
+  }, [priceIndex, lineChartOptions]);
+
+  useEffect(() => {
+    if (forecastChartInstance.current) forecastChartInstance.current.destroy();
+    if (forecastChartRef.current && forecast) {
+      const styles = getComputedStyle(document.documentElement);
+      const accentColor = styles.getPropertyValue('--color-accent').trim();
+      const accentSoftColor = styles.getPropertyValue('--color-accent-soft').trim();
+      const forecastColor = styles.getPropertyValue('--color-chart-2').trim();
+      const series = (value: (m: typeof forecast.months[number]) => number | undefined) =>
+        forecast.months.map(m => { const v = value(m); return v === undefined ? null : Math.round(v); });
+
+      const ctx = forecastChartRef.current.getContext('2d');
+      if (ctx) {
+        forecastChartInstance.current = new Chart(ctx, {
+          type: 'line',
+          data: {
+            labels: forecast.months.map(m => formatMonth(m.month)),
+            datasets: [
+              { label: t.actualSpend, data: series(m => m.actual), borderColor: accentColor, backgroundColor: accentColor, borderWidth: 3, tension: 0.3 },
+              { label: t.forecastSpend, data: series(m => m.forecast?.expected), borderColor: forecastColor, backgroundColor: forecastColor, borderWidth: 2, borderDash: [6, 4], tension: 0.3, spanGaps: true },
+              // The likely range, shaded between the high and low lines.
+              { label: t.forecastHigh, data: series(m => m.forecast?.high), borderColor: 'transparent', backgroundColor: accentSoftColor, pointRadius: 0, fill: '+1', tension: 0.3, spanGaps: true },
+              { label: t.forecastLow, data: series(m => m.forecast?.low), borderColor: 'transparent', backgroundColor: accentSoftColor, pointRadius: 0, tension: 0.3, spanGaps: true },
+            ],
+          },
+          options: {
+            ...lineChartOptions,
+            plugins: {
+              ...lineChartOptions.plugins,
+              legend: {
+                display: true,
+                position: 'bottom' as const,
+                labels: { font: { family: "'Vazirmatn', sans-serif" }, filter: item => item.datasetIndex !== undefined && item.datasetIndex < 2 },
+              },
+            },
+          },
+        });
+      }
+    }
+  }, [forecast, lineChartOptions]);
+
   const PeriodButton: React.FC<{ value: Period, label: string }> = ({ value, label }) => (
     <button
       onClick={() => setPeriod(value)}
@@ -288,6 +383,57 @@ const SummaryDashboard: React.FC<SummaryDashboardProps> = ({ onBack, onLogout })
             </Card>
         </div>
 
+        {priceIndex.months.length > 1 && (
+          <Card title={t.priceIndexTitle}>
+            <div className="flex flex-wrap gap-6 mb-4 text-sm">
+              <InflationStat label={t.monthlyInflation} value={monthlyInflation} />
+              <InflationStat label={t.yearlyInflation} value={yearlyInflation} />
+            </div>
+            <div className="relative h-[320px]">
+              <canvas ref={priceIndexChartRef}></canvas>
+            </div>
+            <p className="text-xs text-secondary mt-3">{t.priceIndexHint}</p>
+          </Card>
+        )}
+
+        {forecast && (
+          <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+            <Card title={t.forecastVsActual} className="lg:col-span-3">
+              <div className="relative h-[320px]">
+                <canvas ref={forecastChartRef}></canvas>
+              </div>
+              <p className="text-xs text-secondary mt-3">{t.forecastHint}</p>
+            </Card>
+            <Card title={t.forecastByCategory} className="lg:col-span-2">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-right text-secondary text-xs">
+                      <th className="py-1 font-medium">{t.category}</th>
+                      <th className="py-1 font-medium">{t.nextMonthForecast}</th>
+                      <th className="py-1 font-medium">{t.nextQuarterForecast}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <tr className="border-t border-border">
+                      <td className="py-1.5 font-semibold text-primary">{t.totalSpend}</td>
+                      <td className="py-1.5"><ForecastRangeDisplay range={forecast.nextMonth} className="font-semibold text-primary" /></td>
+                      <td className="py-1.5"><ForecastRangeDisplay range={forecast.nextQuarter} className="font-semibold text-primary" /></td>
+                    </tr>
+                    {forecast.byCategory.map(row => (
+                      <tr key={row.category} className="border-t border-border">
+                        <td className="py-1.5 text-primary">{row.category}</td>
+                        <td className="py-1.5"><ForecastRangeDisplay range={row.nextMonth} /></td>
+                        <td className="py-1.5"><ForecastRangeDisplay range={row.nextQuarter} /></td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+          </div>
+        )}
+
         <Card title={t.aiExecutiveSummary}>
             {isAiLoading ? <SkeletonLoader lines={5} /> : <p className="text-primary whitespace-pre-wrap leading-relaxed">{aiSummary}</p>}
         </Card>
@@ -320,6 +466,22 @@ const SummaryDashboard: React.FC<SummaryDashboardProps> = ({ onBack, onLogout })
   );
 };
 
+const formatMonth = (month: string) => {
+  const [year, monthNumber] = month.split('/').map(Number);
+  return `${t.jalaliMonths[monthNumber - 1]} ${year.toLocaleString('fa-IR')}`;
+};
+
+const InflationStat: React.FC<{ label: string; value?: number }> = ({ label, value }) => (
+  <div>
+    <span className="text-secondary">{label}: </span>
+    {value === undefined ? <span className="text-secondary">—</span> : (
+      <span className={`font-bold ${value > 0 ? 'text-danger' : 'text-success'}`}>
+        {value > 0 ? '+' : value < 0 ? '−' : ''}{(Math.round(Math.abs(value) * 1000) / 10).toLocaleString('fa-IR')}٪
+      </span>
+    )}
+  </div>
+);
+
 const KpiCard: React.FC<{ title: string; value: React.ReactNode }> = ({ title, value }) => (
     <div className="bg-surface p-4 rounded-xl border border-border text-center">
         <p className="text-sm text-secondary mb-1">{title}</p>
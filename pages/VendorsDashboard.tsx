@@ -5,8 +5,12 @@ import Header from '../components/common/Header';
 import { Vendor, ItemStatus } from '../types';
 import VendorModal from '../components/modals/VendorModal';
 import ConfirmModal from '../components/modals/ConfirmModal';
+import VendorStatementModal from '../components/modals/VendorStatementModal';
 import { useToast } from '../components/common/Toast';
+import { useUndoRedo } from '../hooks/useUndoRedo';
 import CurrencyDisplay from '../components/common/CurrencyDisplay';
+import { can } from '../lib/permissions';
+import { formatPaymentTerms } from '../lib/aging';
 
 const EditIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.5L14.732 3.732z" /></svg>;
 const DeleteIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>;
@@ -17,10 +21,14 @@ interface VendorsDashboardProps {
 }
 
 const VendorsDashboard: React.FC<VendorsDashboardProps> = ({ onBack, onLogout }) => {
-  const { vendors, lists, deleteVendor } = useShoppingStore();
+  const { vendors, lists, invoices, payments, deleteVendor, getVendorStatement, currentUser } = useShoppingStore();
+  const canEditVendors = can(currentUser, 'vendor:edit');
+  const canDeleteVendors = can(currentUser, 'vendor:delete');
   const [modalState, setModalState] = useState<{ open: boolean; vendor?: Vendor }>({ open: false });
   const { addToast } = useToast();
+  const { undoAction } = useUndoRedo();
   const [deleteConfirm, setDeleteConfirm] = useState<{ isOpen: boolean; vendor?: Vendor }>({ isOpen: false });
+  const [statementVendor, setStatementVendor] = useState<Vendor | null>(null);
 
   const vendorStats = useMemo(() => {
     const stats = new Map<string, { totalSpent: number; purchaseCount: number }>();
@@ -37,6 +45,11 @@ const VendorsDashboard: React.FC<VendorsDashboardProps> = ({ onBack, onLogout })
     return stats;
   }, [lists]);
 
+  const balancesDue = useMemo(
+    () => new Map(vendors.map(v => [v.id, getVendorStatement(v.id).totalDue])),
+    [vendors, lists, invoices, payments, getVendorStatement]
+  );
+
   const handleDeleteVendor = (vendor: Vendor) => {
     setDeleteConfirm({ isOpen: true, vendor });
   };
@@ -44,7 +57,7 @@ const VendorsDashboard: React.FC<VendorsDashboardProps> = ({ onBack, onLogout })
   const confirmDelete = () => {
     if (deleteConfirm.vendor) {
         deleteVendor(deleteConfirm.vendor.id);
-        addToast(t.vendorDeleted, 'info');
+        addToast(t.vendorDeleted, 'info', undoAction());
     }
   };
 
@@ -79,12 +92,14 @@ const VendorsDashboard: React.FC<VendorsDashboardProps> = ({ onBack, onLogout })
         >
           {t.exportJson}
         </button>
-        <button
-          onClick={() => setModalState({ open: true })}
-          className="px-4 py-2 bg-accent text-accent-text font-medium rounded-lg hover:opacity-90 transition-opacity"
-        >
-          {t.addNewVendor}
-        </button>
+        {canEditVendors && (
+          <button
+            onClick={() => setModalState({ open: true })}
+            className="px-4 py-2 bg-accent text-accent-text font-medium rounded-lg hover:opacity-90 transition-opacity"
+          >
+            {t.addNewVendor}
+          </button>
+        )}
       </Header>
       <main className="p-4 sm:p-6 md:p-8 max-w-7xl mx-auto">
         {vendors.length === 0 ? (
@@ -101,8 +116,9 @@ const VendorsDashboard: React.FC<VendorsDashboardProps> = ({ onBack, onLogout })
                     {vendor.contactPerson && <p><strong>{t.contactPerson}:</strong> {vendor.contactPerson}</p>}
                     {vendor.phone && <p><strong>{t.phone}:</strong> {vendor.phone}</p>}
                     {vendor.address && <p><strong>{t.address}:</strong> {vendor.address}</p>}
+                    <p><strong>{t.paymentTerms}:</strong> {formatPaymentTerms(vendor.paymentTerms)}</p>
                   </div>
-                   <div className="grid grid-cols-2 gap-4 text-center border-t border-border pt-4">
+                   <div className="grid grid-cols-3 gap-4 text-center border-t border-border pt-4">
                         <div>
                             <p className="text-xs text-secondary">{t.totalSpentWithVendor}</p>
                             <CurrencyDisplay value={vendorStats.get(vendor.id)?.totalSpent || 0} className="font-bold text-accent" />
@@ -111,11 +127,17 @@ const VendorsDashboard: React.FC<VendorsDashboardProps> = ({ onBack, onLogout })
                              <p className="text-xs text-secondary">{t.totalPurchases}</p>
                             <span className="font-bold text-primary">{(vendorStats.get(vendor.id)?.purchaseCount || 0).toLocaleString('fa-IR')}</span>
                         </div>
+                        <div>
+                            <p className="text-xs text-secondary">{t.balanceDue}</p>
+                            <CurrencyDisplay value={Math.max(balancesDue.get(vendor.id) || 0, 0)} className={`font-bold ${(balancesDue.get(vendor.id) || 0) > 0 ? 'text-danger' : 'text-primary'}`} />
+                        </div>
                    </div>
                 </div>
-                <div className="p-2 border-t border-border flex justify-end gap-2">
-                    <button onClick={() => setModalState({ open: true, vendor })} className="p-1.5 text-secondary hover:text-primary"><EditIcon/></button>
-                    <button onClick={() => handleDeleteVendor(vendor)} className="p-1.5 text-secondary hover:text-danger"><DeleteIcon/></button>
+                <div className="p-2 border-t border-border flex items-center gap-2">
+                    <button onClick={() => setStatementVendor(vendor)} className="px-3 py-1 text-sm text-accent font-medium rounded-md hover:bg-accent/10 transition-colors">{t.vendorStatement}</button>
+                    <div className="flex-grow" />
+                    {canEditVendors && <button onClick={() => setModalState({ open: true, vendor })} className="p-1.5 text-secondary hover:text-primary"><EditIcon/></button>}
+                    {canDeleteVendors && <button onClick={() => handleDeleteVendor(vendor)} className="p-1.5 text-secondary hover:text-danger"><DeleteIcon/></button>}
                 </div>
               </div>
             ))}
@@ -128,6 +150,9 @@ const VendorsDashboard: React.FC<VendorsDashboardProps> = ({ onBack, onLogout })
           onClose={() => setModalState({ open: false })}
         />
       )}
+      {statementVendor && (
+        <VendorStatementModal vendor={statementVendor} onClose={() => setStatementVendor(null)} />
+      )}
       <ConfirmModal
         isOpen={deleteConfirm.isOpen}
         onClose={() => setDeleteConfirm({ isOpen: false })}
@@ -1,19 +1,75 @@
 import { create } from 'zustand';
-import { ShoppingList, ShoppingItem, CafeCategory, Vendor, OcrResult, Unit, ItemStatus, PaymentStatus, PaymentMethod, PendingPaymentItem, SmartSuggestion, SummaryData, RecentPurchaseItem, MasterItem, AuthSlice, User, ShoppingState } from '../types';
+import { ShoppingList, ShoppingItem, CafeCategory, Vendor, OcrResult, Unit, ItemStatus, PaymentStatus, PaymentMethod, SmartSuggestion, SummaryData, RecentPurchaseItem, MasterItem, CatalogItem, StockCount, StockCountEntry, Recipe, Budget, Invoice, Payment, AuthSlice, User, ShoppingState, StoredData, AuditEntry, SyncConflict, SyncStatus, CurrencyUnit, SuggestionSnooze } from '../types';
 import { t } from '../translations';
 import { parseJalaliDate, toJalaliDateString } from '../lib/jalali';
-import { fetchData, saveData } from '../lib/api';
+import { fetchData, saveData, SyncConflictError, UnauthorizedError, createBackup, restoreFromBackup } from '../lib/api';
+import { mergeStoredData, applyConflictResolutions } from '../lib/merge';
+import { migrateStoredData, CURRENT_SCHEMA_VERSION } from '../lib/schema';
+import { can, findForbiddenDataChange } from '../lib/permissions';
+import { indexCatalog, createCatalogItemId } from '../lib/catalog';
+import { conversionFactor, convertQuantity, toDefaultUnit } from '../lib/units';
+import { computeStockLevels, estimateStockFromPurchases, StockLevel } from '../lib/inventory';
+import { buildReorderLines, ReorderLine } from '../lib/reorder';
+import { budgetId, computeBudgetStatus, jalaliMonthOf, BudgetStatus } from '../lib/budgets';
+import { buildAgingReport, AgingReport } from '../lib/aging';
+import { buildExpenseForecast, ExpenseForecast } from '../lib/forecast';
+import { estimateConsumption, roundRestockQuantity, suggestedRestockQuantity } from '../lib/consumption';
+import { computeVendorStatement, createInvoiceId, createPaymentId, invoicePaymentStatus, VendorStatement } from '../lib/payables';
+import { buildPriceHistory, costRecipe, createRecipeId, historicalPriceOf, CostMethod, RecipeCost } from '../lib/recipes';
+import { computePriceIndex, PriceIndex } from '../lib/priceIndex';
+import { checkNewPrice, findPriceOutliers, PriceAnomaly, PriceOutlier } from '../lib/priceAnomalies';
+import { compareVendorPrices, periodStart, recommendVendor, PRICE_COMPARISON_DAYS, VendorPriceStats, VendorRecommendation } from '../lib/vendorPrices';
+import { CURRENCY_UNITS } from '../lib/currency';
+import { AuditChange, createAuditEntries, mergeAuditLogs, changedFields, diffListChanges } from '../lib/audit';
+import { loadCachedSnapshot, saveCachedSnapshot, enqueuePendingWrite, getLatestPendingWrite, completePendingWrites, discardPendingWrites, clearLocalCache } from '../lib/localCache';
 
 type SummaryPeriod = '7d' | '30d' | 'mtd' | 'ytd' | 'all';
 
+// The parts of the data undo/redo restores. The audit log is never rolled back.
+type UndoableData = Pick<StoredData, 'lists' | 'customCategories' | 'vendors' | 'categoryVendorMap' | 'catalog' | 'stockCounts' | 'recipes' | 'budgets' | 'invoices' | 'payments'>;
+
+interface HistoryEntry {
+  id: number; // Kept through undo and redo, so a toast can tell whether its change is still the latest
+  label: string; // What the change did, shown when it is undone or redone
+  data: UndoableData; // The data before the change (on the undo stack) or after it (on the redo stack)
+}
+
 interface FullShoppingState extends AuthSlice, ShoppingState {
+  schemaVersion: number;
   lists: ShoppingList[];
   customCategories: string[];
   vendors: Vendor[];
   categoryVendorMap: Record<string, string>; // categoryName -> vendorId
-  itemInfoMap: Record<string, { unit: Unit, category: string }>;
+  catalog: CatalogItem[];
+  stockCounts: StockCount[];
+  recipes: Recipe[];
+  budgets: Budget[];
+  invoices: Invoice[];
+  payments: Payment[];
+  auditLog: AuditEntry[];
+
+  // Sync
+  syncRevision: string | null; // Revision of the backend copy this device last loaded or saved
+  syncBase: StoredData | null; // The data as of `syncRevision`, used as the base for three-way merges
+  syncConflict: SyncConflict | null;
+  syncStatus: SyncStatus;
+
+  // Preferences, kept per user on this device
+  currencyUnit: CurrencyUnit;
+  setCurrencyUnit: (unit: CurrencyUnit) => void;
+  suggestionSnoozes: Record<string, SuggestionSnooze>; // By suggestion key
+  snoozeSuggestion: (suggestion: SmartSuggestion, days?: number) => void; // Without days: dismissed until bought again
+  unsnoozeSuggestion: (suggestion: SmartSuggestion) => void;
+
+  // Undo/redo
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
+  undo: (entryId?: number) => string | null; // With an entry id: only while that entry is the latest change
+  redo: () => string | null;
 
   hydrateFromCloud: () => Promise<void>;
+  syncPendingChanges: () => Promise<void>;
+  resolveSyncConflict: (resolutions: Record<string, 'local' | 'remote'>) => Promise<void>;
 
   // List Actions
   createList: (date: Date) => string;
@@ -21,8 +77,10 @@ interface FullShoppingState extends AuthSlice, ShoppingState {
   deleteList: (listId: string) => void;
   updateItem: (listId: string, itemId: string, updates: Partial<ShoppingItem>) => void;
   addItemFromSuggestion: (suggestion: SmartSuggestion) => boolean;
+  generateReorderList: () => { listId: string; count: number } | null;
 
-  addCustomData: (item: ShoppingItem) => void;
+  // Returns the id of the catalog item with this name, adding it to the catalog if it is new.
+  ensureCatalogItem: (item: Pick<ShoppingItem, 'name' | 'unit' | 'category'>) => string;
 
   // OCR Action
   addOcrPurchase: (ocrResult: OcrResult, paymentMethod: PaymentMethod, paymentStatus: PaymentStatus, vendorName?: string) => string;
@@ -34,58 +92,347 @@ interface FullShoppingState extends AuthSlice, ShoppingState {
   findOrCreateVendor: (vendorName?: string) => string | undefined;
   updateCategoryVendorMap: (category: string, vendorId: string) => void;
 
-  // Item Actions
-  updateMasterItem: (originalName: string, originalUnit: Unit, updates: { name: string; unit: Unit; category: string }) => void;
+  // Catalog Actions
+  addCatalogItem: (data: Omit<CatalogItem, 'id'>) => string;
+  updateCatalogItem: (catalogItemId: string, updates: Partial<Omit<CatalogItem, 'id'>>) => void;
+  deleteCatalogItem: (catalogItemId: string) => void;
+  mergeCatalogItems: (keepId: string, duplicateId: string) => void;
+
+  // Inventory Actions
+  recordStockCount: (entries: StockCountEntry[]) => void;
+
+  // Recipe Actions
+  addRecipe: (data: Omit<Recipe, 'id'>) => string | undefined;
+  updateRecipe: (recipeId: string, updates: Partial<Omit<Recipe, 'id'>>) => void;
+  deleteRecipe: (recipeId: string) => void;
+
+  // Budget Actions
+  // Sets the budgets of a month (or of every month); entries without an amount are removed.
+  saveBudgets: (entries: { category?: string; amount?: number }[], month?: string) => void;
+
+  // Payables Actions
+  // Bills bought items of one vendor on a new invoice.
+  createInvoice: (vendorId: string, items: { listId: string; itemId: string }[], details: Omit<Invoice, 'id' | 'vendorId'>) => string | undefined;
+  deleteInvoice: (invoiceId: string) => void;
+  recordPayment: (data: Omit<Payment, 'id'>) => string | undefined;
+  deletePayment: (paymentId: string) => void;
 
 
   // Computed
   allCategories: () => string[];
   getKnownItemNames: () => string[];
   getAllKnownItems: () => MasterItem[];
-  getItemInfo: (name: string) => { unit: Unit, category: string } | undefined;
+  findCatalogItem: (name: string) => CatalogItem | undefined;
   getLatestPricePerUnit: (name: string, unit: Unit) => number | undefined;
   getLatestPurchaseInfo: (name: string, unit: Unit) => { pricePerUnit?: number, vendorId?: string, lastAmount?: number };
+  getVendorPriceComparison: (catalogItemId: string, days?: number) => VendorPriceStats[];
+  getVendorRecommendation: (name: string, vendorId?: string) => VendorRecommendation | null;
+  getPriceIndex: (groupBy?: 'category' | 'item') => PriceIndex;
+  checkPurchasePrice: (name: string, unit: Unit, amount: number, totalPrice: number) => PriceAnomaly | null;
+  getPriceOutliers: () => PriceOutlier[];
+  getStockLevels: () => Map<string, StockLevel>;
+  getReorderLines: () => ReorderLine[];
+  getRecipeCosts: (method: CostMethod) => Map<string, RecipeCost>;
+  getBudgetStatus: (month?: string) => BudgetStatus[];
+  getVendorStatement: (vendorId: string) => VendorStatement;
   getSmartSuggestions: () => SmartSuggestion[];
-  getPendingPayments: () => PendingPaymentItem[];
+  getAgingReport: () => AgingReport;
   getRecentPurchases: (count: number) => RecentPurchaseItem[];
-  getExpenseForecast: () => { daily: number, monthly: number } | null;
+  getExpenseForecast: () => ExpenseForecast | null;
   getSummaryData: (period: SummaryPeriod) => SummaryData | null;
 
 
   // Import/Export
   importData: (jsonData: string) => Promise<void>;
   exportData: () => string;
+  restoreBackup: (backupId: string) => Promise<void>;
 }
 
 const DEFAULT_CATEGORIES: string[] = Object.values(CafeCategory);
 
-const emptyState = {
+const emptyState: StoredData = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   lists: [],
   customCategories: [],
   vendors: [],
   categoryVendorMap: {},
-  itemInfoMap: {},
+  catalog: [],
+  stockCounts: [],
+  recipes: [],
+  budgets: [],
+  invoices: [],
+  payments: [],
+  auditLog: [],
+};
+
+const selectStoredData = (state: FullShoppingState): StoredData => ({
+    schemaVersion: state.schemaVersion,
+    lists: state.lists,
+    customCategories: state.customCategories,
+    vendors: state.vendors,
+    categoryVendorMap: state.categoryVendorMap,
+    catalog: state.catalog,
+    stockCounts: state.stockCounts,
+    recipes: state.recipes,
+    budgets: state.budgets,
+    invoices: state.invoices,
+    payments: state.payments,
+    auditLog: state.auditLog,
+});
+
+// Runs schema migrations and repairs on data coming from the backend, the local cache or an import.
+const loadStoredData = (raw: unknown): StoredData => {
+    const { data, report } = migrateStoredData(raw);
+    if (report.repairedItems || report.droppedItems || report.droppedLists) {
+        console.warn("Repaired malformed stored data:", report);
+    }
+    return data;
+};
+
+// Counted items with less than this many days of stock left are suggested for restocking.
+const LOW_STOCK_DAYS = 2;
+
+// --- Undo/redo ---
+const HISTORY_LIMIT = 30;
+
+const selectUndoableData = (state: UndoableData): UndoableData => ({
+    lists: state.lists,
+    customCategories: state.customCategories,
+    vendors: state.vendors,
+    categoryVendorMap: state.categoryVendorMap,
+    catalog: state.catalog,
+    stockCounts: state.stockCounts,
+    recipes: state.recipes,
+    budgets: state.budgets,
+    invoices: state.invoices,
+    payments: state.payments,
+});
+
+// State updates are immutable, so unchanged data keeps the same references.
+const isSameData = (a: UndoableData, b: UndoableData) =>
+    (Object.keys(a) as (keyof UndoableData)[]).every(key => a[key] === b[key]);
+
+// Saves the data as it is before a change. Actions that call other actions (e.g. an OCR
+// purchase creating a list and a vendor) take a single checkpoint, under the outer label.
+let checkpointTaken = false;
+let nextHistoryId = 1;
+let lastCheckpointId: number | null = null;
+const checkpoint = (label: string): number => {
+    if (checkpointTaken) return lastCheckpointId!;
+    checkpointTaken = true;
+    queueMicrotask(() => { checkpointTaken = false; });
+    const id = nextHistoryId++;
+    lastCheckpointId = id;
+    const state = useShoppingStore.getState();
+    useShoppingStore.setState({
+        undoStack: [...state.undoStack, { id, label, data: selectUndoableData(state) }].slice(-HISTORY_LIMIT),
+        redoStack: [],
+    });
+    return id;
+};
+
+// The checkpoint taken by the most recent action, for an undo button about that action.
+export const latestCheckpointId = () => lastCheckpointId;
+
+// Checkpoints of actions that ended up changing nothing are skipped.
+const pendingUndoStack = (state: FullShoppingState) => {
+    const current = selectUndoableData(state);
+    return state.undoStack.filter(entry => !isSameData(entry.data, current));
+};
+
+// The id of the change `undo()` would revert now.
+export const latestUndoEntryId = (): number | null => {
+    const undoStack = pendingUndoStack(useShoppingStore.getState());
+    return undoStack.length > 0 ? undoStack[undoStack.length - 1].id : null;
+};
+
+// Data from elsewhere (the server, an import or a backup) replaces the history, so
+// undoing can never roll back changes made on another device.
+const clearHistory = { undoStack: [], redoStack: [] };
+
+// Undoing a change can delete or edit records, which is subject to the same role rules as doing so directly.
+const assertCanApply = (current: UndoableData, target: UndoableData) => {
+    if (findForbiddenDataChange(useShoppingStore.getState().currentUser, current, target)) {
+        throw new Error(t.permissionDenied);
+    }
+};
+
+// Catalog items are created along with whatever first mentions them, e.g. an item added to a list.
+// Undoing that leaves them in place for a role that may not delete catalog items.
+const keepCreatedCatalogItems = (current: UndoableData, target: UndoableData): UndoableData => {
+    if (can(useShoppingStore.getState().currentUser, 'catalog:edit')) return target;
+    const kept = new Set(target.catalog.map(item => item.id));
+    const created = current.catalog.filter(item => !kept.has(item.id));
+    return created.length === 0 ? target : { ...target, catalog: [...target.catalog, ...created] };
+};
+
+// --- Audit trail ---
+// Appends entries for the logged-in user; mutations call this after changing the state.
+const recordAudit = (changes: AuditChange[]) => {
+    if (changes.length === 0) return;
+    const { currentUser, auditLog } = useShoppingStore.getState();
+    useShoppingStore.setState({ auditLog: mergeAuditLogs(auditLog, createAuditEntries(currentUser, changes)) });
+};
+
+// --- Payables ---
+// Marks the items on a vendor's invoices paid or due to match what is left to pay on them.
+const syncInvoicedItems = (vendorId: string) => {
+    const { lists, invoices, payments } = useShoppingStore.getState();
+    const statuses = new Map<string, PaymentStatus>();
+    computeVendorStatement(vendorId, lists, invoices, payments).invoices
+        .forEach(balance => balance.items.forEach(b => statuses.set(`${b.listId}/${b.item.id}`, invoicePaymentStatus(balance))));
+
+    const changes: AuditChange[] = [];
+    const updatedLists = lists.map(list => {
+        if (!list.items.some(item => statuses.has(`${list.id}/${item.id}`))) return list;
+        return {
+            ...list,
+            items: list.items.map(item => {
+                const paymentStatus = statuses.get(`${list.id}/${item.id}`);
+                if (!paymentStatus || item.paymentStatus === paymentStatus) return item;
+                changes.push({ action: 'update', entity: 'item', entityId: `${list.id}/${item.id}`, label: `${item.name} (${list.name})`, before: { paymentStatus: item.paymentStatus }, after: { paymentStatus } });
+                return { ...item, paymentStatus };
+            }),
+        };
+    });
+    if (changes.length === 0) return;
+    useShoppingStore.setState({ lists: updatedLists });
+    recordAudit(changes);
+};
+
+const invoiceLabel = (invoice: Invoice) => {
+    const vendorName = useShoppingStore.getState().vendors.find(v => v.id === invoice.vendorId)?.name || '?';
+    return t.invoiceLabel(vendorName, invoice.number);
+};
+
+const paymentLabel = (payment: Payment) => {
+    const vendorName = useShoppingStore.getState().vendors.find(v => v.id === payment.vendorId)?.name || '?';
+    return t.paymentLabel(vendorName);
+};
+
+// --- Local cache ---
+// Mirrors the current data to IndexedDB and records it in the outbox until the backend accepts it.
+const cacheLocalChanges = () => {
+    const state = useShoppingStore.getState();
+    const data = selectStoredData(state);
+    saveCachedSnapshot({ data, revision: state.syncRevision, base: state.syncBase });
+    enqueuePendingWrite(data);
+};
+
+// --- Cloud save ---
+// Saves are chained so each one is based on the revision returned by the previous one.
+let saveQueue: Promise<void> = Promise.resolve();
+const persistToCloud = (): Promise<void> => {
+    const run = saveQueue.catch(() => {}).then(async () => {
+        // Read the outbox before the state, so any write it holds is included in this save.
+        const pending = await getLatestPendingWrite();
+        const state = useShoppingStore.getState();
+        const data = selectStoredData(state);
+        const revision = await saveData(data, state.syncRevision);
+        const hasMorePending = pending?.id !== undefined ? await completePendingWrites(pending.id) : false;
+        useShoppingStore.setState({ syncRevision: revision, syncBase: data, syncStatus: hasMorePending ? 'pending' : 'synced' });
+        await saveCachedSnapshot({ data: selectStoredData(useShoppingStore.getState()), revision, base: data });
+    });
+    saveQueue = run;
+    return run;
+};
+
+// Merges this device's edits with the copy another device saved. Clean merges are
+// saved straight away; true collisions are left for the user to review.
+const mergeWithServer = (serverData: StoredData | null, serverRevision: string | null) => {
+    const state = useShoppingStore.getState();
+    let remote: StoredData;
+    try {
+        remote = serverData ? loadStoredData(serverData) : emptyState;
+    } catch (error) {
+        // Never merge into (and overwrite) a server copy this version of the app cannot read.
+        console.error("Cannot merge with the server copy:", error);
+        useShoppingStore.setState({ syncStatus: 'error' });
+        return;
+    }
+    const { merged, conflicts } = mergeStoredData(state.syncBase, selectStoredData(state), remote);
+
+    if (conflicts.length > 0) {
+        useShoppingStore.setState({ ...merged, ...clearHistory, syncRevision: serverRevision, syncBase: remote, syncConflict: { serverRevision, conflicts } });
+        return;
+    }
+    useShoppingStore.setState({ ...merged, ...clearHistory, syncRevision: serverRevision, syncBase: remote });
+    cacheLocalChanges();
+    persistToCloud().catch(handleSaveError);
+};
+
+// The last logged-in user, so the app can still open from the local cache when the backend is unreachable.
+const LAST_USER_KEY = 'lastUser';
+
+const currencyUnitKey = (user: User) => `currencyUnit-${user.id}`;
+const loadCurrencyUnit = (user: User): CurrencyUnit => {
+    const stored = localStorage.getItem(currencyUnitKey(user)) as CurrencyUnit | null;
+    return stored && CURRENCY_UNITS.includes(stored) ? stored : 'rial';
+};
+
+const suggestionSnoozesKey = (user: User) => `suggestionSnoozes-${user.id}`;
+const loadSuggestionSnoozes = (user: User): Record<string, SuggestionSnooze> => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(suggestionSnoozesKey(user)) || '{}');
+        return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+    } catch {
+        return {};
+    }
+};
+
+const defaultPreferences = { currencyUnit: 'rial' as CurrencyUnit, suggestionSnoozes: {} };
+const loadPreferences = (user: User) => ({ currencyUnit: loadCurrencyUnit(user), suggestionSnoozes: loadSuggestionSnoozes(user) });
+
+const suggestionKey = (suggestion: Pick<SmartSuggestion, 'name' | 'unit'>) => `${suggestion.name}-${suggestion.unit}`;
+
+// Snoozed until a later date, or dismissed and not bought since.
+const isSnoozed = (snooze: SuggestionSnooze | undefined, lastPurchaseDate: string, now: Date) => {
+    if (!snooze) return false;
+    return snooze.until ? now < new Date(snooze.until) : new Date(lastPurchaseDate) <= new Date(snooze.at);
+};
+
+const setSuggestionSnoozes = (snoozes: Record<string, SuggestionSnooze>) => {
+    const { currentUser } = useShoppingStore.getState();
+    if (currentUser) localStorage.setItem(suggestionSnoozesKey(currentUser), JSON.stringify(snoozes));
+    useShoppingStore.setState({ suggestionSnoozes: snoozes });
+};
+
+// The session expired: show the login page but keep the data and the outbox,
+// so pending edits are saved once the user has logged in again.
+const expireSession = () => {
+    useShoppingStore.setState({ currentUser: null, isHydrating: false });
+};
+
+const handleSaveError = (error: unknown) => {
+    if (error instanceof SyncConflictError) {
+        mergeWithServer(error.serverData, error.serverRevision);
+        return;
+    }
+    if (error instanceof UnauthorizedError) {
+        expireSession();
+        return;
+    }
+    console.error("Auto-save failed:", error);
+    // A failed fetch means the backend is unreachable; the edits stay in the outbox and are replayed later.
+    useShoppingStore.setState({ syncStatus: error instanceof TypeError ? 'pending' : 'error' });
 };
 
 // --- Debounced save function ---
 let debounceTimer: number;
-const debouncedSaveData = (state: FullShoppingState) => {
+const debouncedSaveData = () => {
+    // Changes are cached locally right away; only the backend save is debounced.
+    if (useShoppingStore.getState().currentUser) {
+        cacheLocalChanges();
+        useShoppingStore.setState({ syncStatus: 'pending' });
+    }
     clearTimeout(debounceTimer);
     debounceTimer = window.setTimeout(() => {
-        const { currentUser, isHydrating } = state;
-        // Do not save if no user is logged in, or during initial hydration.
-        if (!currentUser || isHydrating) {
+        const { currentUser, isHydrating, syncConflict } = useShoppingStore.getState();
+        // Do not save if no user is logged in, during initial hydration, or while a conflict awaits resolution.
+        if (!currentUser || isHydrating || syncConflict) {
             return;
         }
-
-        const dataToSave = {
-            lists: state.lists,
-            customCategories: state.customCategories,
-            vendors: state.vendors,
-            categoryVendorMap: state.categoryVendorMap,
-            itemInfoMap: state.itemInfoMap,
-        };
-        saveData(dataToSave).catch(err => console.error("Auto-save failed:", err));
+        persistToCloud().catch(handleSaveError);
     }, 1500); // Debounce for 1.5 seconds
 };
 
@@ -93,9 +440,16 @@ const debouncedSaveData = (state: FullShoppingState) => {
 export const useShoppingStore = create<FullShoppingState>((set, get) => ({
       isHydrating: true,
       ...emptyState,
+      syncRevision: null,
+      syncBase: null,
+      syncConflict: null,
+      syncStatus: 'synced',
+      ...defaultPreferences,
+      ...clearHistory,
 
       // Auth Slice
       currentUser: null,
+      isRestoringSession: true,
       login: async (username, password) => {
         try {
             const response = await fetch('/api/auth', {
@@ -106,7 +460,8 @@ export const useShoppingStore = create<FullShoppingState>((set, get) => ({
 
             if (response.ok) {
                 const user = await response.json();
-                set({ currentUser: user });
+                localStorage.setItem(LAST_USER_KEY, JSON.stringify(user));
+                set({ currentUser: user, ...loadPreferences(user) });
                 return true;
             }
             return false;
@@ -116,27 +471,151 @@ export const useShoppingStore = create<FullShoppingState>((set, get) => ({
         }
       },
       logout: () => {
-        // In a real app, you might want to notify the backend.
-        // await fetch('/api/auth/logout', { method: 'POST' });
-        set({ currentUser: null, ...emptyState, isHydrating: false });
+        fetch('/api/auth/logout', { method: 'POST' }).catch(error => console.error("Logout request failed:", error));
+        localStorage.removeItem(LAST_USER_KEY);
+        clearTimeout(debounceTimer);
+        clearLocalCache();
+        set({ currentUser: null, ...emptyState, ...clearHistory, ...defaultPreferences, isHydrating: false, syncRevision: null, syncBase: null, syncConflict: null, syncStatus: 'synced' });
+      },
+
+      setCurrencyUnit: (unit) => {
+        const { currentUser } = get();
+        if (currentUser) localStorage.setItem(currencyUnitKey(currentUser), unit);
+        set({ currencyUnit: unit });
+      },
+
+      snoozeSuggestion: (suggestion, days) => {
+        const now = new Date();
+        const snooze: SuggestionSnooze = { at: now.toISOString() };
+        if (days) snooze.until = new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+        // Snoozes that have run out are dropped on the way.
+        const snoozes = Object.fromEntries(Object.entries(get().suggestionSnoozes).filter(([, s]) => !s.until || new Date(s.until) > now));
+        setSuggestionSnoozes({ ...snoozes, [suggestionKey(suggestion)]: snooze });
+      },
+      unsnoozeSuggestion: (suggestion) => {
+        const { [suggestionKey(suggestion)]: _, ...snoozes } = get().suggestionSnoozes;
+        setSuggestionSnoozes(snoozes);
+      },
+
+      restoreSession: async () => {
+        // The session cookie is HTTP-only, so ask the backend who (if anyone) is logged in.
+        try {
+            const response = await fetch('/api/auth', { headers: { 'Accept': 'application/json' } });
+            if (response.ok) {
+                const user = await response.json();
+                set({ currentUser: user, ...loadPreferences(user) });
+            } else if (response.status === 401) {
+                localStorage.removeItem(LAST_USER_KEY);
+            }
+        } catch (error) {
+            // Offline: trust the last user for now; the first API call that reaches the backend verifies the session.
+            console.error("Session restore failed:", error);
+            const lastUser = localStorage.getItem(LAST_USER_KEY);
+            if (lastUser) {
+                const user = JSON.parse(lastUser);
+                set({ currentUser: user, ...loadPreferences(user) });
+            }
+        } finally {
+            set({ isRestoringSession: false });
+        }
       },
 
       hydrateFromCloud: async () => {
           set({ isHydrating: true });
+          // Show the locally cached copy straight away; the backend copy is reconciled below.
+          let cached = await loadCachedSnapshot();
+          if (cached) {
+              try {
+                  const data = loadStoredData(cached.data);
+                  set({ ...data, syncRevision: cached.revision, syncBase: cached.base && loadStoredData(cached.base), isHydrating: false });
+              } catch (error) {
+                  console.error("Ignoring unreadable local cache:", error);
+                  cached = null;
+              }
+          }
           try {
-              const data = await fetchData();
-              if (data && data.lists) { // Basic check for valid data structure
-                  set({ ...data, isHydrating: false });
-              } else {
-                  // Bin is empty or has invalid data, use a true empty state.
-                  set({ ...emptyState, isHydrating: false });
+              const snapshot = await fetchData();
+              if (!snapshot) {
+                  // Backend unreachable: keep working from the cache until it is back.
+                  const pending = await getLatestPendingWrite();
+                  set({ isHydrating: false, syncStatus: pending ? 'pending' : 'error' });
+                  return;
+              }
+
+              if (cached && await getLatestPendingWrite()) {
+                  // Edits made offline (or since the cache was shown) are replayed; if the
+                  // backend copy moved on meanwhile, the save conflicts and is merged as usual.
+                  set({ isHydrating: false, syncStatus: 'pending' });
+                  await persistToCloud().catch(handleSaveError);
+                  return;
               }
+
+              // An empty bin falls back to a true empty state; unreadable data is rejected below.
+              const loaded = snapshot.data ? loadStoredData(snapshot.data) : emptyState;
+              set({ ...loaded, ...clearHistory, syncRevision: snapshot.revision, syncBase: loaded, isHydrating: false, syncStatus: 'synced' });
+              await saveCachedSnapshot({ data: loaded, revision: snapshot.revision, base: loaded });
           } catch (error) {
+              if (error instanceof UnauthorizedError) {
+                  expireSession();
+                  return;
+              }
               console.error("Failed to hydrate from cloud:", error);
-              set({ ...emptyState, isHydrating: false }); // Fallback to empty state on error
+              // Fallback to the cached copy, or an empty state if there is none.
+              set({ ...(cached ? {} : emptyState), isHydrating: false, syncStatus: 'error' });
           }
       },
 
+      syncPendingChanges: async () => {
+          const { currentUser, isHydrating, syncConflict } = get();
+          if (!currentUser || isHydrating || syncConflict) return;
+          if (!(await getLatestPendingWrite())) return;
+          await persistToCloud().catch(handleSaveError);
+      },
+
+      resolveSyncConflict: async (resolutions) => {
+          const conflict = get().syncConflict;
+          if (!conflict) return;
+
+          // The merged data already holds the local values; apply the remote ones the user picked.
+          const resolved = applyConflictResolutions(selectStoredData(get()), conflict.conflicts, resolutions);
+          set({ ...resolved, syncConflict: null });
+          cacheLocalChanges();
+          await persistToCloud().catch(handleSaveError);
+      },
+
+      undo: (entryId) => {
+        const current = selectUndoableData(get());
+        const undoStack = pendingUndoStack(get());
+        // Something else has changed the data since; undoing now would revert that instead.
+        if (entryId !== undefined && undoStack[undoStack.length - 1]?.id !== entryId) return null;
+        const entry = undoStack.pop();
+        if (!entry) {
+            set({ undoStack });
+            return null;
+        }
+        const target = keepCreatedCatalogItems(current, entry.data);
+        assertCanApply(current, target);
+        set({ ...target, undoStack, redoStack: [...get().redoStack, { id: entry.id, label: entry.label, data: current }] });
+        recordAudit([{ action: 'undo', entity: 'data', entityId: 'data', label: entry.label }]);
+        debouncedSaveData();
+        return entry.label;
+      },
+
+      redo: () => {
+        const current = selectUndoableData(get());
+        const redoStack = get().redoStack.filter(entry => !isSameData(entry.data, current));
+        const entry = redoStack.pop();
+        if (!entry) {
+            set({ redoStack });
+            return null;
+        }
+        assertCanApply(current, entry.data);
+        set({ ...entry.data, undoStack: [...get().undoStack, { id: entry.id, label: entry.label, data: current }], redoStack });
+        recordAudit([{ action: 'redo', entity: 'data', entityId: 'data', label: entry.label }]);
+        debouncedSaveData();
+        return entry.label;
+      },
+
       createList: (date) => {
         const listId = toJalaliDateString(date.toISOString());
 
@@ -146,6 +625,7 @@ export const useShoppingStore = create<FullShoppingState>((set, get) => ({
         }
 
         const name = t.todaysShoppingList(toJalaliDateString(date.toISOString(), { format: 'long' }));
+        checkpoint(t.historyLabels.createList(name));
         const newList: ShoppingList = {
           id: listId,
           name,
@@ -153,23 +633,36 @@ export const useShoppingStore = create<FullShoppingState>((set, get) => ({
           items: [],
         };
         set((state) => ({ lists: [...state.lists, newList] }));
-        debouncedSaveData(get());
+        recordAudit([{ action: 'create', entity: 'list', entityId: listId, label: name, after: { name, createdAt: newList.createdAt } }]);
+        debouncedSaveData();
         return newList.id;
       },
 
       updateList: (listId, updatedList) => {
+        const previous = get().lists.find(list => list.id === listId);
+        checkpoint(t.historyLabels.editList(updatedList.name));
         set((state) => ({
           lists: state.lists.map((list) => (list.id === listId ? updatedList : list)),
         }));
-        debouncedSaveData(get());
+        if (previous) recordAudit(diffListChanges(previous, updatedList));
+        debouncedSaveData();
       },
 
       deleteList: (listId) => {
+        if (!can(get().currentUser, 'list:delete')) return;
+        const deleted = get().lists.find(list => list.id === listId);
+        if (deleted) checkpoint(t.historyLabels.deleteList(deleted.name));
         set((state) => ({ lists: state.lists.filter((list) => list.id !== listId) }));
-        debouncedSaveData(get());
+        if (deleted) {
+            recordAudit([{ action: 'delete', entity: 'list', entityId: listId, label: deleted.name, before: { name: deleted.name, createdAt: deleted.createdAt, itemCount: deleted.items.length } }]);
+        }
+        debouncedSaveData();
       },
 
       updateItem: (listId, itemId, updates) => {
+        const list = get().lists.find(l => l.id === listId);
+        const item = list?.items.find(i => i.id === itemId);
+        if (item) checkpoint(t.historyLabels.editItem(item.name));
         set(state => ({
             lists: state.lists.map(list => {
                 if (list.id === listId) {
@@ -181,38 +674,85 @@ export const useShoppingStore = create<FullShoppingState>((set, get) => ({
                 return list;
             })
         }));
-        debouncedSaveData(get());
+        const fields = list && item && changedFields(item, { ...item, ...updates });
+        if (list && item && fields) {
+            recordAudit([{ action: 'update', entity: 'item', entityId: `${listId}/${itemId}`, label: `${item.name} (${list.name})`, ...fields }]);
+        }
+        debouncedSaveData();
       },
 
-      addItemFromSuggestion: ({ name, unit, category }) => {
+      addItemFromSuggestion: ({ name, unit, category, suggestedQuantity }) => {
+        checkpoint(t.historyLabels.addItem(name));
         const today = new Date();
         today.setHours(0,0,0,0);
         const listId = get().createList(today);
         const list = get().lists.find(l => l.id === listId)!;
 
-        const alreadyExists = list.items.some(item => item.name === name && item.unit === unit && item.status === ItemStatus.Pending);
+        const catalogItemId = get().ensureCatalogItem({ name, unit, category });
+        const catalog = indexCatalog(get().catalog);
+        const alreadyExists = list.items.some(item => catalog.keyOf(item) === catalogItemId && item.unit === unit && item.status === ItemStatus.Pending);
         if (alreadyExists) {
             return false;
         }
 
         const latestInfo = get().getLatestPurchaseInfo(name, unit);
+        const amount = suggestedQuantity || latestInfo.lastAmount || 1;
 
         const newItem: ShoppingItem = {
             id: `item-${Date.now()}`,
             name,
-            amount: latestInfo.lastAmount || 1,
+            amount,
             unit,
             category,
             status: ItemStatus.Pending,
-            estimatedPrice: latestInfo.pricePerUnit ? latestInfo.pricePerUnit * (latestInfo.lastAmount || 1) : undefined
+            estimatedPrice: latestInfo.pricePerUnit ? latestInfo.pricePerUnit * amount : undefined,
+            catalogItemId,
         };
 
         get().updateList(listId, { ...list, items: [...list.items, newItem] });
         return true;
       },
 
+      generateReorderList: () => {
+        const lines = get().getReorderLines();
+        if (lines.length === 0) return null;
+
+        checkpoint(t.historyLabels.generateReorderList);
+        const tomorrow = new Date();
+        tomorrow.setHours(0,0,0,0);
+        tomorrow.setDate(tomorrow.getDate() + 1);
+        const listId = get().createList(tomorrow);
+        const list = get().lists.find(l => l.id === listId)!;
+
+        const index = indexCatalog(get().catalog);
+        const alreadyPending = new Set(list.items.filter(item => item.status === ItemStatus.Pending).map(item => index.keyOf(item)));
+        const vendorNames = new Map(get().vendors.map(v => [v.id, v.name]));
+        // Grouped by vendor, so each supplier's order can be placed in one go.
+        const newItems: ShoppingItem[] = lines
+            .filter(line => !alreadyPending.has(line.catalogItem.id))
+            .sort((a, b) => (vendorNames.get(a.vendorId!) ?? '\uffff').localeCompare(vendorNames.get(b.vendorId!) ?? '\uffff', 'fa') || a.catalogItem.name.localeCompare(b.catalogItem.name, 'fa'))
+            .map((line, i) => {
+                const { pricePerUnit } = get().getLatestPurchaseInfo(line.catalogItem.name, line.unit);
+                return {
+                    id: `item-${Date.now()}-${i}`,
+                    name: line.catalogItem.name,
+                    amount: line.amount,
+                    unit: line.unit,
+                    category: line.catalogItem.category,
+                    status: ItemStatus.Pending,
+                    estimatedPrice: pricePerUnit ? pricePerUnit * line.amount : undefined,
+                    vendorId: line.vendorId,
+                    catalogItemId: line.catalogItem.id,
+                };
+            });
+
+        if (newItems.length > 0) get().updateList(listId, { ...list, items: [...list.items, ...newItems] });
+        return { listId, count: newItems.length };
+      },
+
       addOcrPurchase: (ocrResult, paymentMethod, paymentStatus, vendorName) => {
         const { date, items: ocrItems } = ocrResult;
+        checkpoint(t.historyLabels.ocrPurchase);
         const vendorId = get().findOrCreateVendor(vendorName);
 
         const parsedDate = parseJalaliDate(date);
@@ -224,22 +764,26 @@ export const useShoppingStore = create<FullShoppingState>((set, get) => ({
         const targetListId = get().createList(parsedDate);
         const targetList = get().lists.find(l => l.id === targetListId)!;
 
-        const newShoppingItems: ShoppingItem[] = ocrItems.map((item, index) => ({
-            id: `item-${Date.now()}-${index}`,
-            name: item.name,
-            amount: item.quantity,
-            unit: item.unit || Unit.Piece,
-            status: ItemStatus.Bought,
-            category: item.suggestedCategory || t.other,
-            paidPrice: item.price,
-            purchasedAmount: item.quantity,
-            paymentStatus: paymentStatus,
-            paymentMethod: paymentMethod,
-            vendorId: vendorId,
-        }));
+        const newShoppingItems: ShoppingItem[] = ocrItems.map((item, index) => {
+            const unit = item.unit || Unit.Piece;
+            const category = item.suggestedCategory || t.other;
+            return {
+                id: `item-${Date.now()}-${index}`,
+                name: item.name,
+                amount: item.quantity,
+                unit,
+                status: ItemStatus.Bought,
+                category,
+                paidPrice: item.price,
+                purchasedAmount: item.quantity,
+                paymentStatus: paymentStatus,
+                paymentMethod: paymentMethod,
+                vendorId: vendorId,
+                catalogItemId: get().ensureCatalogItem({ name: item.name, unit, category }),
+            };
+        });
 
         newShoppingItems.forEach(item => {
-            get().addCustomData(item);
             if(item.category && vendorId) {
                 get().updateCategoryVendorMap(item.category, vendorId);
             }
@@ -252,31 +796,47 @@ export const useShoppingStore = create<FullShoppingState>((set, get) => ({
       },
 
       addVendor: (vendorData) => {
+        checkpoint(t.historyLabels.addVendor(vendorData.name));
         const newVendor: Vendor = {
             id: `vendor-${Date.now()}`,
             ...vendorData
         };
         set(state => ({ vendors: [...state.vendors, newVendor] }));
-        debouncedSaveData(get());
+        recordAudit([{ action: 'create', entity: 'vendor', entityId: newVendor.id, label: newVendor.name, after: { ...vendorData } }]);
+        debouncedSaveData();
         return newVendor.id;
       },
 
       updateVendor: (vendorId, updates) => {
+        const vendor = get().vendors.find(v => v.id === vendorId);
+        if (vendor) checkpoint(t.historyLabels.editVendor(vendor.name));
         set(state => ({
             vendors: state.vendors.map(v => v.id === vendorId ? { ...v, ...updates } : v)
         }));
-        debouncedSaveData(get());
+        const fields = vendor && changedFields(vendor, { ...vendor, ...updates });
+        if (vendor && fields) {
+            recordAudit([{ action: 'update', entity: 'vendor', entityId: vendorId, label: vendor.name, ...fields }]);
+        }
+        debouncedSaveData();
       },
 
       deleteVendor: (vendorId) => {
+        if (!can(get().currentUser, 'vendor:delete')) return;
+        const vendor = get().vendors.find(v => v.id === vendorId);
+        if (vendor) checkpoint(t.historyLabels.deleteVendor(vendor.name));
         set(state => ({
             vendors: state.vendors.filter(v => v.id !== vendorId),
             lists: state.lists.map(list => ({
                 ...list,
                 items: list.items.map(item => item.vendorId === vendorId ? { ...item, vendorId: undefined } : item)
-            }))
+            })),
+            catalog: state.catalog.map(c => c.defaultVendorId === vendorId ? { ...c, defaultVendorId: undefined } : c),
         }));
-        debouncedSaveData(get());
+        if (vendor) {
+            const { id, ...details } = vendor;
+            recordAudit([{ action: 'delete', entity: 'vendor', entityId: vendorId, label: vendor.name, before: details }]);
+        }
+        debouncedSaveData();
       },
 
       findOrCreateVendor: (vendorName) => {
@@ -290,59 +850,280 @@ export const useShoppingStore = create<FullShoppingState>((set, get) => ({
       },
 
       updateCategoryVendorMap: (category, vendorId) => {
+        const previous = get().categoryVendorMap[category];
+        if (previous === vendorId) return;
+        checkpoint(t.historyLabels.setCategoryVendor(category));
         set(state => ({
             categoryVendorMap: {
                 ...state.categoryVendorMap,
                 [category]: vendorId
             }
         }));
-        debouncedSaveData(get());
+        recordAudit([{ action: 'update', entity: 'category', entityId: category, label: category, before: { vendorId: previous }, after: { vendorId } }]);
+        debouncedSaveData();
+      },
+
+      addCatalogItem: (data) => {
+        const newItem: CatalogItem = { id: createCatalogItemId(), ...data, name: data.name.trim() };
+        checkpoint(t.historyLabels.addCatalogItem(newItem.name));
+        set(state => ({
+            catalog: [...state.catalog, newItem],
+            customCategories: get().allCategories().includes(newItem.category) ? state.customCategories : [...state.customCategories, newItem.category],
+        }));
+        const { id, ...details } = newItem;
+        recordAudit([{ action: 'create', entity: 'catalogItem', entityId: id, label: newItem.name, after: details }]);
+        debouncedSaveData();
+        return id;
       },
 
-      updateMasterItem: (originalName, originalUnit, updates) => {
-          set(state => {
-              const newLists = state.lists.map(list => ({
+      updateCatalogItem: (catalogItemId, updates) => {
+          if (!can(get().currentUser, 'catalog:edit')) return;
+          const previous = get().catalog.find(c => c.id === catalogItemId);
+          if (!previous) return;
+          const updated: CatalogItem = { ...previous, ...updates };
+          // The old name stays findable, so items recorded under it still resolve to this item.
+          if (updated.name !== previous.name && !updated.aliases.includes(previous.name)) {
+              updated.aliases = [...updated.aliases, previous.name];
+          }
+          updated.aliases = updated.aliases.filter(alias => alias !== updated.name);
+          checkpoint(t.historyLabels.editCatalogItem(previous.name));
+          set(state => ({
+              catalog: state.catalog.map(c => c.id === catalogItemId ? updated : c),
+              // Linked items show the current name and category; their units are what was actually bought and stay as they are.
+              lists: updated.name === previous.name && updated.category === previous.category ? state.lists : state.lists.map(list => ({
                   ...list,
-                  items: list.items.map(item => {
-                      if (item.name === originalName && item.unit === originalUnit) {
-                          return { ...item, ...updates };
-                      }
-                      return item;
-                  })
-              }));
-
-              const newItemInfoMap = { ...state.itemInfoMap };
-              if (originalName !== updates.name && newItemInfoMap[originalName]) {
-                  delete newItemInfoMap[originalName];
-              }
-              newItemInfoMap[updates.name] = { unit: updates.unit, category: updates.category };
+                  items: list.items.map(item => item.catalogItemId === catalogItemId ? { ...item, name: updated.name, category: updated.category } : item),
+              })),
+              customCategories: get().allCategories().includes(updated.category) ? state.customCategories : [...state.customCategories, updated.category],
+          }));
+          const fields = changedFields(previous, updated);
+          if (fields) {
+              recordAudit([{ action: 'update', entity: 'catalogItem', entityId: catalogItemId, label: previous.name, ...fields }]);
+          }
+          debouncedSaveData();
+      },
 
-              return { lists: newLists, itemInfoMap: newItemInfoMap };
+      deleteCatalogItem: (catalogItemId) => {
+          if (!can(get().currentUser, 'catalog:edit')) return;
+          const item = get().catalog.find(c => c.id === catalogItemId);
+          // Items with purchase history or in a recipe cannot be deleted, only renamed or merged.
+          const isUsed = get().lists.some(list => list.items.some(i => i.catalogItemId === catalogItemId))
+              || get().recipes.some(recipe => recipe.ingredients.some(i => i.catalogItemId === catalogItemId));
+          if (!item || isUsed) return;
+          checkpoint(t.historyLabels.deleteCatalogItem(item.name));
+          set(state => ({ catalog: state.catalog.filter(c => c.id !== catalogItemId) }));
+          const { id, ...details } = item;
+          recordAudit([{ action: 'delete', entity: 'catalogItem', entityId: catalogItemId, label: item.name, before: details }]);
+          debouncedSaveData();
+      },
+
+      // Folds a duplicate into another catalog item: its purchases move over and its names become aliases.
+      mergeCatalogItems: (keepId, duplicateId) => {
+          if (!can(get().currentUser, 'catalog:edit') || keepId === duplicateId) return;
+          const kept = get().catalog.find(c => c.id === keepId);
+          const duplicate = get().catalog.find(c => c.id === duplicateId);
+          if (!kept || !duplicate) return;
+          checkpoint(t.historyLabels.mergeCatalogItems(duplicate.name, kept.name));
+          // Counted quantities move over in the kept item's unit; where a count has both items they add up.
+          const countFactor = conversionFactor(duplicate.defaultUnit, kept.defaultUnit, [...(kept.packSizes || []), ...(duplicate.packSizes || [])]);
+          const mergeCountEntries = (entries: StockCountEntry[]): StockCountEntry[] => {
+              const duplicateEntry = entries.find(e => e.catalogItemId === duplicateId);
+              if (!duplicateEntry) return entries;
+              const rest = entries.filter(e => e.catalogItemId !== duplicateId);
+              if (countFactor === null) return rest;
+              const quantity = duplicateEntry.quantity * countFactor;
+              return rest.some(e => e.catalogItemId === keepId)
+                  ? rest.map(e => e.catalogItemId === keepId ? { ...e, quantity: e.quantity + quantity } : e)
+                  : [...rest, { catalogItemId: keepId, quantity }];
+          };
+          set(state => ({
+              catalog: state.catalog.filter(c => c.id !== duplicateId),
+              stockCounts: state.stockCounts.map(count => ({ ...count, entries: mergeCountEntries(count.entries) })),
+              recipes: state.recipes.map(recipe => recipe.ingredients.some(i => i.catalogItemId === duplicateId) ? {
+                  ...recipe,
+                  ingredients: recipe.ingredients.map(i => i.catalogItemId === duplicateId ? { ...i, catalogItemId: keepId } : i),
+              } : recipe),
+              lists: state.lists.map(list => list.items.some(item => item.catalogItemId === duplicateId) ? {
+                  ...list,
+                  items: list.items.map(item => item.catalogItemId === duplicateId ? { ...item, catalogItemId: keepId, name: kept.name, category: kept.category } : item),
+              } : list),
+          }));
+          const { id, ...details } = duplicate;
+          recordAudit([{ action: 'merge', entity: 'catalogItem', entityId: duplicateId, label: `${duplicate.name} ← ${kept.name}`, before: details }]);
+          get().updateCatalogItem(keepId, {
+              aliases: [...new Set([...kept.aliases, duplicate.name, ...duplicate.aliases])],
+              defaultVendorId: kept.defaultVendorId || duplicate.defaultVendorId,
+              packSizes: [...(kept.packSizes || []), ...(duplicate.packSizes || [])],
           });
-          debouncedSaveData(get());
       },
 
-      addCustomData: (item) => {
-        const { category, name, unit } = item;
-        const allCats = get().allCategories();
+      recordStockCount: (entries) => {
+          const { currentUser } = get();
+          if (!can(currentUser, 'stock:count') || entries.length === 0) return;
+          const count: StockCount = {
+              id: `count-${Date.now()}`,
+              countedAt: new Date().toISOString(),
+              countedBy: currentUser?.username ?? '?',
+              entries,
+          };
+          checkpoint(t.historyLabels.stockCount);
+          set(state => ({ stockCounts: [...state.stockCounts, count] }));
+          const names = new Map(get().catalog.map(c => [c.id, c.name]));
+          recordAudit(entries.map(entry => ({
+              action: 'create',
+              entity: 'stockCount',
+              entityId: `${count.id}/${entry.catalogItemId}`,
+              label: names.get(entry.catalogItemId) || entry.catalogItemId,
+              after: { quantity: entry.quantity },
+          })));
+          debouncedSaveData();
+      },
 
-        let stateChanged = false;
-        const stateUpdates: Partial<FullShoppingState> = {};
+      addRecipe: (data) => {
+          if (!can(get().currentUser, 'recipe:edit')) return undefined;
+          const newRecipe: Recipe = { id: createRecipeId(), ...data, name: data.name.trim() };
+          checkpoint(t.historyLabels.addRecipe(newRecipe.name));
+          set(state => ({ recipes: [...state.recipes, newRecipe] }));
+          const { id, ...details } = newRecipe;
+          recordAudit([{ action: 'create', entity: 'recipe', entityId: id, label: newRecipe.name, after: details }]);
+          debouncedSaveData();
+          return id;
+      },
 
-        if (category && !allCats.includes(category)) {
-          stateUpdates.customCategories = [...get().customCategories, category];
-          stateChanged = true;
-        }
+      updateRecipe: (recipeId, updates) => {
+          if (!can(get().currentUser, 'recipe:edit')) return;
+          const previous = get().recipes.find(r => r.id === recipeId);
+          if (!previous) return;
+          const updated: Recipe = { ...previous, ...updates };
+          checkpoint(t.historyLabels.editRecipe(previous.name));
+          set(state => ({ recipes: state.recipes.map(r => r.id === recipeId ? updated : r) }));
+          const fields = changedFields(previous, updated);
+          if (fields) {
+              recordAudit([{ action: 'update', entity: 'recipe', entityId: recipeId, label: previous.name, ...fields }]);
+          }
+          debouncedSaveData();
+      },
 
-        if (name && unit && category) {
-            stateUpdates.itemInfoMap = { ...get().itemInfoMap, [name.trim()]: { unit, category } };
-            stateChanged = true;
-        }
+      deleteRecipe: (recipeId) => {
+          if (!can(get().currentUser, 'recipe:edit')) return;
+          const recipe = get().recipes.find(r => r.id === recipeId);
+          if (!recipe) return;
+          checkpoint(t.historyLabels.deleteRecipe(recipe.name));
+          set(state => ({ recipes: state.recipes.filter(r => r.id !== recipeId) }));
+          const { id, ...details } = recipe;
+          recordAudit([{ action: 'delete', entity: 'recipe', entityId: recipeId, label: recipe.name, before: details }]);
+          debouncedSaveData();
+      },
 
-        if(stateChanged) {
-            set(stateUpdates);
-            debouncedSaveData(get());
-        }
+      saveBudgets: (entries, month) => {
+          if (!can(get().currentUser, 'budget:edit')) return;
+          const previous = new Map(get().budgets.map(b => [b.id, b]));
+          const changes: AuditChange[] = [];
+          const updated = new Map(previous);
+          entries.forEach(({ category, amount }) => {
+              const id = budgetId(category, month);
+              const before = previous.get(id);
+              const label = [category || t.overallBudget, month].filter(Boolean).join(' – ');
+              if (amount && amount > 0) {
+                  if (before?.amount === amount) return;
+                  updated.set(id, { id, ...(category !== undefined && { category }), ...(month !== undefined && { month }), amount });
+                  changes.push(before
+                      ? { action: 'update', entity: 'budget', entityId: id, label, before: { amount: before.amount }, after: { amount } }
+                      : { action: 'create', entity: 'budget', entityId: id, label, after: { amount } });
+              } else if (before) {
+                  updated.delete(id);
+                  changes.push({ action: 'delete', entity: 'budget', entityId: id, label, before: { amount: before.amount } });
+              }
+          });
+          if (changes.length === 0) return;
+          checkpoint(t.historyLabels.editBudgets);
+          set({ budgets: [...updated.values()] });
+          recordAudit(changes);
+          debouncedSaveData();
+      },
+
+      createInvoice: (vendorId, items, details) => {
+          if (!can(get().currentUser, 'payment:markPaid')) return undefined;
+          const selected = new Set(items.map(i => `${i.listId}/${i.itemId}`));
+          const billable = get().lists.some(list => list.items.some(item =>
+              selected.has(`${list.id}/${item.id}`) && item.status === ItemStatus.Bought && item.vendorId === vendorId && !item.invoiceId
+          ));
+          if (!billable) return undefined;
+
+          const invoice: Invoice = { id: createInvoiceId(), vendorId, issuedAt: details.issuedAt, ...(details.number?.trim() && { number: details.number.trim() }) };
+          checkpoint(t.historyLabels.createInvoice);
+          const changes: AuditChange[] = [];
+          set(state => ({
+              invoices: [...state.invoices, invoice],
+              lists: state.lists.map(list => ({
+                  ...list,
+                  items: list.items.map(item => {
+                      if (!selected.has(`${list.id}/${item.id}`) || item.status !== ItemStatus.Bought || item.vendorId !== vendorId || item.invoiceId) return item;
+                      changes.push({ action: 'update', entity: 'item', entityId: `${list.id}/${item.id}`, label: `${item.name} (${list.name})`, after: { invoiceId: invoice.id } });
+                      return { ...item, invoiceId: invoice.id };
+                  }),
+              })),
+          }));
+          const { id, ...fields } = invoice;
+          recordAudit([{ action: 'create', entity: 'invoice', entityId: id, label: invoiceLabel(invoice), after: fields }, ...changes]);
+          syncInvoicedItems(vendorId);
+          debouncedSaveData();
+          return id;
+      },
+
+      deleteInvoice: (invoiceId) => {
+          if (!can(get().currentUser, 'payment:markPaid')) return;
+          const invoice = get().invoices.find(i => i.id === invoiceId);
+          if (!invoice) return;
+          checkpoint(t.historyLabels.deleteInvoice);
+          // Its purchases go back to being unbilled and payments made against it stay, on account.
+          set(state => ({
+              invoices: state.invoices.filter(i => i.id !== invoiceId),
+              payments: state.payments.map(p => {
+                  if (p.invoiceId !== invoiceId) return p;
+                  const { invoiceId: _, ...onAccount } = p;
+                  return onAccount;
+              }),
+              lists: state.lists.map(list => !list.items.some(item => item.invoiceId === invoiceId) ? list : {
+                  ...list,
+                  items: list.items.map(item => item.invoiceId === invoiceId ? { ...item, invoiceId: undefined, paymentStatus: PaymentStatus.Due } : item),
+              }),
+          }));
+          const { id, ...fields } = invoice;
+          recordAudit([{ action: 'delete', entity: 'invoice', entityId: id, label: invoiceLabel(invoice), before: fields }]);
+          syncInvoicedItems(invoice.vendorId);
+          debouncedSaveData();
+      },
+
+      recordPayment: (data) => {
+          if (!can(get().currentUser, 'payment:markPaid') || !(data.amount > 0)) return undefined;
+          const payment: Payment = { id: createPaymentId(), ...data };
+          if (!payment.note?.trim()) delete payment.note;
+          checkpoint(t.historyLabels.recordPayment);
+          set(state => ({ payments: [...state.payments, payment] }));
+          const { id, ...fields } = payment;
+          recordAudit([{ action: 'create', entity: 'payment', entityId: id, label: paymentLabel(payment), after: fields }]);
+          syncInvoicedItems(payment.vendorId);
+          debouncedSaveData();
+          return id;
+      },
+
+      deletePayment: (paymentId) => {
+          if (!can(get().currentUser, 'payment:markPaid')) return;
+          const payment = get().payments.find(p => p.id === paymentId);
+          if (!payment) return;
+          checkpoint(t.historyLabels.deletePayment);
+          set(state => ({ payments: state.payments.filter(p => p.id !== paymentId) }));
+          const { id, ...fields } = payment;
+          recordAudit([{ action: 'delete', entity: 'payment', entityId: id, label: paymentLabel(payment), before: fields }]);
+          syncInvoicedItems(payment.vendorId);
+          debouncedSaveData();
+      },
+
+      ensureCatalogItem: ({ name, unit, category }) => {
+        const existing = indexCatalog(get().catalog).findByName(name);
+        if (existing) return existing.id;
+        return get().addCatalogItem({ name, aliases: [], defaultUnit: unit, category: category.trim() || t.other });
       },
 
       allCategories: () => {
@@ -352,157 +1133,234 @@ export const useShoppingStore = create<FullShoppingState>((set, get) => ({
       },
 
       getKnownItemNames: () => {
-        const itemNames = new Set<string>();
-        get().lists.forEach(list => {
-            list.items.forEach(item => itemNames.add(item.name));
-        });
-        Object.keys(get().itemInfoMap).forEach(name => itemNames.add(name));
-        return Array.from(itemNames).sort((a,b) => a.localeCompare(b, 'fa'));
+        return get().catalog.map(c => c.name).sort((a,b) => a.localeCompare(b, 'fa'));
       },
 
       getAllKnownItems: () => {
-        const allPurchasedItems = get().lists
-            .flatMap(list => list.items.map(item => ({ ...item, purchaseDate: new Date(list.createdAt) })))
-            .filter(item => item.status === ItemStatus.Bought && item.purchasedAmount != null && item.paidPrice != null);
-
-        const itemStats = new Map<string, MasterItem & { latestPurchaseDate: Date }>();
-
-        allPurchasedItems.forEach(item => {
-            const key = `${item.name}-${item.unit}`;
-            let currentStats = itemStats.get(key);
-
-            if (!currentStats) {
-                currentStats = {
-                    name: item.name,
-                    unit: item.unit,
-                    category: item.category,
-                    lastPricePerUnit: 0,
-                    totalQuantity: 0,
-                    totalSpend: 0,
-                    purchaseCount: 0,
-                    latestPurchaseDate: new Date(0)
-                };
-            }
-
-            currentStats.totalQuantity += item.purchasedAmount || 0;
-            currentStats.totalSpend += item.paidPrice || 0;
-            currentStats.purchaseCount++;
-
-            if (item.purchaseDate >= currentStats.latestPurchaseDate) {
-                currentStats.latestPurchaseDate = item.purchaseDate;
-                currentStats.lastPricePerUnit = (item.paidPrice || 0) / (item.purchasedAmount || 1);
-                currentStats.category = item.category;
-            }
-
-            itemStats.set(key, currentStats);
-        });
-
-        const result: MasterItem[] = [];
-        itemStats.forEach((value) => {
-            const { latestPurchaseDate, ...masterItem } = value;
-            result.push(masterItem);
-        });
+        const { catalog, lists } = get();
+        const index = indexCatalog(catalog);
+        const stats = new Map<string, MasterItem & { latestPurchaseDate: Date }>(
+            catalog.map(c => [c.id, { ...c, totalQuantity: 0, totalSpend: 0, purchaseCount: 0, latestPurchaseDate: new Date(0) }])
+        );
+
+        lists.flatMap(list => list.items.map(item => ({ ...item, purchaseDate: new Date(list.createdAt) })))
+            .filter(item => item.status === ItemStatus.Bought && item.purchasedAmount != null && item.paidPrice != null)
+            .forEach(item => {
+                const catalogItem = index.resolve(item);
+                const current = catalogItem && stats.get(catalogItem.id);
+                if (!current) return;
+
+                current.totalSpend += item.paidPrice || 0;
+                current.purchaseCount++;
+                // Quantities in a unit with no known conversion can't be added up or priced per default unit.
+                const quantity = toDefaultUnit(item.purchasedAmount || 0, item.unit, current);
+                if (!quantity) return;
+                current.totalQuantity += quantity;
+                if (item.purchaseDate >= current.latestPurchaseDate) {
+                    current.latestPurchaseDate = item.purchaseDate;
+                    current.lastPricePerUnit = (item.paidPrice || 0) / quantity;
+                }
+            });
 
-        return result.sort((a,b) => a.name.localeCompare(b.name, 'fa'));
+        return [...stats.values()]
+            .map(({ latestPurchaseDate, ...masterItem }) => masterItem)
+            .sort((a,b) => a.name.localeCompare(b.name, 'fa'));
       },
-      getItemInfo: (name: string) => {
-        return get().itemInfoMap[name];
+      findCatalogItem: (name: string) => {
+        return indexCatalog(get().catalog).findByName(name);
       },
       getLatestPricePerUnit: (name, unit) => {
         return get().getLatestPurchaseInfo(name, unit).pricePerUnit;
       },
       getLatestPurchaseInfo: (name, unit) => {
+          const index = indexCatalog(get().catalog);
+          const key = index.keyOf({ name });
+          const packSizes = index.findByName(name)?.packSizes;
+          // Purchases in other units count too, converted to the unit asked for.
           const allPurchasesOfItem = get().lists
               .flatMap(list => list.items.map(item => ({ ...item, purchaseDate: new Date(list.createdAt) })))
-              .filter(item => item.name === name && item.unit === unit && item.status === ItemStatus.Bought && item.paidPrice && item.purchasedAmount)
+              .filter(item => index.keyOf(item) === key && item.status === ItemStatus.Bought && item.paidPrice && item.purchasedAmount)
+              .map(item => ({ ...item, amountInUnit: convertQuantity(item.purchasedAmount!, item.unit, unit, packSizes) }))
+              .filter(item => item.amountInUnit)
               .sort((a, b) => b.purchaseDate.getTime() - a.purchaseDate.getTime());
 
           if (allPurchasesOfItem.length > 0) {
               const latest = allPurchasesOfItem[0];
               return {
-                  pricePerUnit: latest.paidPrice! / latest.purchasedAmount!,
+                  pricePerUnit: latest.paidPrice! / latest.amountInUnit!,
                   vendorId: latest.vendorId,
-                  lastAmount: latest.purchasedAmount
+                  lastAmount: latest.amountInUnit!
               };
           }
           return {};
       },
+      getVendorPriceComparison: (catalogItemId, days) => {
+          const { lists, catalog } = get();
+          const points = buildPriceHistory(lists, catalog).get(catalogItemId) || [];
+          return compareVendorPrices(points, days ? periodStart(days) : undefined);
+      },
+      getVendorRecommendation: (name, vendorId) => {
+          const catalogItem = get().findCatalogItem(name);
+          if (!catalogItem) return null;
+          return recommendVendor(get().getVendorPriceComparison(catalogItem.id, PRICE_COMPARISON_DAYS), vendorId);
+      },
+      getPriceIndex: (groupBy = 'category') => {
+          const { lists, catalog } = get();
+          const byId = new Map(catalog.map(item => [item.id, item]));
+          return computePriceIndex(buildPriceHistory(lists, catalog), catalogItemId => {
+              const catalogItem = byId.get(catalogItemId);
+              return groupBy === 'item' ? catalogItem?.name : catalogItem?.category;
+          });
+      },
+      checkPurchasePrice: (name, unit, amount, totalPrice) => {
+          const { lists, catalog } = get();
+          const catalogItem = get().findCatalogItem(name);
+          const quantity = catalogItem && amount > 0 && toDefaultUnit(amount, unit, catalogItem);
+          if (!catalogItem || !quantity) return null;
+          const anomaly = checkNewPrice(buildPriceHistory(lists, catalog).get(catalogItem.id) || [], totalPrice / quantity);
+          // Back in the unit the price was entered in.
+          const perUnit = quantity / amount;
+          return anomaly && { ...anomaly, median: anomaly.median * perUnit, price: anomaly.price * perUnit };
+      },
+      getPriceOutliers: () => {
+          const { lists, catalog } = get();
+          return findPriceOutliers(buildPriceHistory(lists, catalog));
+      },
+      getStockLevels: () => {
+        const { lists, stockCounts, catalog } = get();
+        return computeStockLevels(lists, stockCounts, catalog);
+      },
+      getReorderLines: () => {
+        const { lists, catalog, categoryVendorMap } = get();
+        // Counted stock where there is some, else what the purchase history suggests.
+        const stock = new Map<string, { estimatedOnHand: number }>(estimateStockFromPurchases(lists, catalog));
+        get().getStockLevels().forEach((level, catalogItemId) => stock.set(catalogItemId, level));
+
+        const index = indexCatalog(catalog);
+        const purchaseUnits = new Map<string, Unit>();
+        [...lists]
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+            .forEach(list => list.items.forEach(item => {
+                const catalogItem = item.status === ItemStatus.Bought && index.resolve(item);
+                if (catalogItem) purchaseUnits.set(catalogItem.id, item.unit);
+            }));
+
+        return buildReorderLines(catalog, stock, purchaseUnits, categoryVendorMap);
+      },
+      getRecipeCosts: (method) => {
+        const { lists, catalog, recipes } = get();
+        const priceOf = method === 'latest'
+            ? (catalogItem: CatalogItem, unit: Unit) => get().getLatestPricePerUnit(catalogItem.name, unit)
+            : historicalPriceOf(buildPriceHistory(lists, catalog), method);
+        return new Map(recipes.map(recipe => [recipe.id, costRecipe(recipe, catalog, priceOf)]));
+      },
+      getVendorStatement: (vendorId) => {
+        const { lists, invoices, payments } = get();
+        return computeVendorStatement(vendorId, lists, invoices, payments);
+      },
+
+      getBudgetStatus: (month = jalaliMonthOf(new Date().toISOString())) => {
+        const { lists, budgets } = get();
+        return computeBudgetStatus(lists, budgets, month);
+      },
       getSmartSuggestions: () => {
         const allPurchases = get().lists
             .flatMap(list => list.items.map(item => ({...item, purchaseDate: new Date(list.createdAt)})))
             .filter(item => item.status === ItemStatus.Bought && item.purchasedAmount)
             .sort((a, b) => a.purchaseDate.getTime() - b.purchaseDate.getTime());
 
-        const itemHistory = new Map<string, { dates: Date[], name: string, unit: Unit, category: string }>();
+        const index = indexCatalog(get().catalog);
+        const itemHistory = new Map<string, { purchases: { at: Date, quantity: number }[], name: string, unit: Unit, category: string, catalogItemId?: string }>();
 
         allPurchases.forEach(item => {
-            const key = `${item.name}-${item.unit}`;
+            const catalogItem = index.resolve(item);
+            // Purchases in convertible units are the same product; unrelated units are tracked apart.
+            const inDefaultUnit = catalogItem && toDefaultUnit(item.purchasedAmount!, item.unit, catalogItem);
+            const unit = inDefaultUnit ? catalogItem!.defaultUnit : item.unit;
+            const key = `${index.keyOf(item)}-${unit}`;
             if (!itemHistory.has(key)) {
-                itemHistory.set(key, { dates: [], name: item.name, unit: item.unit, category: item.category });
+                itemHistory.set(key, { purchases: [], name: catalogItem?.name ?? item.name, unit, category: catalogItem?.category ?? item.category, catalogItemId: catalogItem?.id });
             }
-            itemHistory.get(key)!.dates.push(item.purchaseDate);
+            itemHistory.get(key)!.purchases.push({ at: item.purchaseDate, quantity: inDefaultUnit || item.purchasedAmount! });
         });
 
         const suggestions: SmartSuggestion[] = [];
-        const today = new Date();
-        today.setHours(0,0,0,0);
-        const oneDay = 24 * 60 * 60 * 1000;
-
-        itemHistory.forEach((history, key) => {
-            if (history.dates.length < 2) return;
-
-            const diffs = [];
-            for (let i = 1; i < history.dates.length; i++) {
-                diffs.push(Math.round(Math.abs((history.dates[i].getTime() - history.dates[i-1].getTime()) / oneDay)));
+        const now = new Date();
+        const lastPurchaseOf = (purchases: { at: Date }[]) => purchases[purchases.length - 1].at;
+
+        // Items that have been counted are suggested from the stock actually on hand.
+        const stockLevels = get().getStockLevels();
+        stockLevels.forEach(level => {
+            const catalogItem = index.byId.get(level.catalogItemId)!;
+            const history = itemHistory.get(`${catalogItem.id}-${catalogItem.defaultUnit}`);
+            const consumption = history && estimateConsumption(history.purchases, now);
+            const suggestion = {
+                name: catalogItem.name,
+                unit: catalogItem.defaultUnit,
+                category: catalogItem.category,
+                lastPurchaseDate: history ? lastPurchaseOf(history.purchases).toISOString() : level.lastCountedAt,
+                avgPurchaseCycleDays: consumption ? Math.round(consumption.cycleDays) : 0,
+                dailyUsage: level.dailyUsage ?? consumption?.dailyUsage,
+            };
+            if (catalogItem.parLevel && level.estimatedOnHand < (catalogItem.minLevel ?? catalogItem.parLevel)) {
+                suggestions.push({
+                    ...suggestion,
+                    reason: t.suggestionReasonBelowPar(level.estimatedOnHand, catalogItem.parLevel, catalogItem.defaultUnit),
+                    priority: level.estimatedOnHand <= catalogItem.parLevel / 2 ? 'high' : 'medium',
+                    suggestedQuantity: roundRestockQuantity(catalogItem.parLevel - level.estimatedOnHand, catalogItem.defaultUnit),
+                });
+            } else if (level.daysLeft !== undefined && level.daysLeft <= LOW_STOCK_DAYS) {
+                suggestions.push({
+                    ...suggestion,
+                    reason: t.suggestionReasonRunningOut(level.estimatedOnHand, catalogItem.defaultUnit, level.daysLeft),
+                    priority: level.daysLeft < 1 ? 'high' : 'medium',
+                    suggestedQuantity: consumption ? suggestedRestockQuantity(consumption, catalogItem.defaultUnit) : undefined,
+                });
             }
+        });
 
-            const avgCycle = Math.round(diffs.reduce((a, b) => a + b, 0) / diffs.length);
-            if(avgCycle === 0) return;
-
-            const lastPurchaseDate = history.dates[history.dates.length - 1];
-            const daysSinceLastPurchase = Math.round(Math.abs((today.getTime() - lastPurchaseDate.getTime()) / oneDay));
-
-            if (daysSinceLastPurchase >= avgCycle) {
-                const daysOverdue = daysSinceLastPurchase - avgCycle;
+        // Everything else is suggested from how fast it is used: the last purchase lasts as long as
+        // its quantity at the recent rate, so buying double pushes the next suggestion back.
+        itemHistory.forEach(history => {
+            if (history.catalogItemId && stockLevels.has(history.catalogItemId)) return;
+
+            const consumption = estimateConsumption(history.purchases, now);
+            if (!consumption) return;
+
+            const suggestion = {
+                name: history.name,
+                unit: history.unit,
+                category: history.category,
+                lastPurchaseDate: lastPurchaseOf(history.purchases).toISOString(),
+                avgPurchaseCycleDays: Math.round(consumption.cycleDays),
+                dailyUsage: consumption.dailyUsage,
+                suggestedQuantity: suggestedRestockQuantity(consumption, history.unit),
+            };
+            if (consumption.daysLeft <= 0) {
+                const daysAgo = Math.round(-consumption.daysLeft);
                 suggestions.push({
-                    name: history.name,
-                    unit: history.unit,
-                    category: history.category,
-                    lastPurchaseDate: lastPurchaseDate.toISOString(),
-                    avgPurchaseCycleDays: avgCycle,
-                    reason: t.suggestionReasonDepleted(avgCycle, daysOverdue),
-                    priority: daysOverdue > 3 ? 'high' : 'medium'
+                    ...suggestion,
+                    reason: t.suggestionReasonDepleted(consumption.lastQuantity, consumption.dailyUsage, history.unit, daysAgo),
+                    priority: daysAgo > 3 ? 'high' : 'medium',
                 });
-            } else if (daysSinceLastPurchase >= avgCycle * 0.75) {
+            } else if (consumption.daysLeft <= Math.max(LOW_STOCK_DAYS, consumption.coverDays * 0.25)) {
                 suggestions.push({
-                    name: history.name,
-                    unit: history.unit,
-                    category: history.category,
-                    lastPurchaseDate: lastPurchaseDate.toISOString(),
-                    avgPurchaseCycleDays: avgCycle,
-                    reason: t.suggestionReasonGettingLow(avgCycle),
-                    priority: 'low'
+                    ...suggestion,
+                    reason: t.suggestionReasonGettingLow(consumption.lastQuantity, consumption.dailyUsage, history.unit, consumption.daysLeft),
+                    priority: 'low',
                 });
             }
         });
 
-        return suggestions.sort((a,b) => b.priority.localeCompare(a.priority));
-      },
-      getPendingPayments: () => {
-          const pending: PendingPaymentItem[] = [];
-          get().lists.forEach(list => {
-              list.items.forEach(item => {
-                  if (item.status === ItemStatus.Bought && item.paymentStatus === PaymentStatus.Due) {
-                      pending.push({
-                          ...item,
-                          listId: list.id,
-                          listName: list.name,
-                          purchaseDate: list.createdAt,
-                      });
-                  }
-              });
-          });
-          return pending.sort((a, b) => new Date(a.purchaseDate).getTime() - new Date(b.purchaseDate).getTime());
+        const { suggestionSnoozes } = get();
+        const priorityRank: Record<SmartSuggestion['priority'], number> = { high: 0, medium: 1, low: 2 };
+        return suggestions
+            .filter(s => !isSnoozed(suggestionSnoozes[suggestionKey(s)], s.lastPurchaseDate, now))
+            .sort((a, b) => priorityRank[a.priority] - priorityRank[b.priority]);
+      },
+      getAgingReport: () => {
+          const { lists, vendors, invoices, payments } = get();
+          return buildAgingReport(lists, vendors, invoices, payments);
       },
       getRecentPurchases: (count) => {
           const recent: RecentPurchaseItem[] = [];
@@ -521,29 +1379,7 @@ export const useShoppingStore = create<FullShoppingState>((set, get) => ({
               });
           return recent;
       },
-      getExpenseForecast: () => {
-        const allPurchases = get().lists
-            .flatMap(l => l.items.map(i => ({...i, date: l.createdAt})))
-            .filter(i => i.status === ItemStatus.Bought && i.paidPrice);
-
-        if (allPurchases.length < 5) return null;
-
-        const sorted = allPurchases.sort((a,b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-        const firstDay = new Date(sorted[0].date);
-        const lastDay = new Date(sorted[sorted.length - 1].date);
-        const oneDay = 24 * 60 * 60 * 1000;
-        const totalDays = Math.round(Math.abs((lastDay.getTime() - firstDay.getTime()) / oneDay)) + 1;
-
-        if (totalDays < 30) return null;
-
-        const totalSpend = sorted.reduce((sum, item) => sum + item.paidPrice!, 0);
-        const daily = totalSpend / totalDays;
-
-        return {
-            daily,
-            monthly: daily * 30,
-        };
-      },
+      getExpenseForecast: () => buildExpenseForecast(get().lists),
       getSummaryData: (period) => {
         const now = new Date();
         let startDate = new Date();
@@ -629,33 +1465,28 @@ export const useShoppingStore = create<FullShoppingState>((set, get) => ({
 
 
       importData: async (jsonData) => {
+        if (!can(get().currentUser, 'data:import')) {
+            throw new Error(t.permissionDenied);
+        }
         try {
-            const data = JSON.parse(jsonData);
-            // Basic validation
-            if (Array.isArray(data.lists)) {
-                // Cleanse receiptImage from imported data
-                const cleanedLists = data.lists.map((list: any) => ({
-                    ...list,
-                    items: list.items.map((item: any) => {
-                        const { receiptImage, ...rest } = item;
-                        return rest;
-                    }),
-                }));
-
-                const dataToSave = {
-                    lists: cleanedLists,
-                    customCategories: data.customCategories || [],
-                    vendors: data.vendors || [],
-                    categoryVendorMap: data.categoryVendorMap || {},
-                    itemInfoMap: data.itemInfoMap || {},
-                }
-
-                set(dataToSave);
-                // After importing, immediately save to the cloud
-                await saveData(dataToSave);
-            } else {
-                throw new Error("Invalid data format");
-            }
+            // Older exports are migrated to the current schema; unrecognisable files throw a SchemaError.
+            const dataToSave = loadStoredData(JSON.parse(jsonData));
+
+            // An import replaces everything, so keep a server-side backup of the current data first
+            // (this aborts the import if the backup fails; a server with no backups configured skips it),
+            // then save on top of the latest server copy instead of merging.
+            await createBackup('pre-import');
+            const snapshot = await fetchData();
+            // The audit trail survives the import: the file's entries are added to the existing ones.
+            const serverLog = snapshot?.data ? loadStoredData(snapshot.data).auditLog : [];
+            set({ ...dataToSave, ...clearHistory, auditLog: mergeAuditLogs(serverLog, get().auditLog, dataToSave.auditLog), syncRevision: snapshot ? snapshot.revision : get().syncRevision });
+            recordAudit([{ action: 'import', entity: 'data', entityId: 'data', label: t.auditImportLabel, after: { lists: dataToSave.lists.length, vendors: dataToSave.vendors.length } }]);
+            cacheLocalChanges();
+            // After importing, immediately save to the cloud
+            await persistToCloud().catch(error => {
+                handleSaveError(error);
+                throw error;
+            });
         } catch (error) {
             console.error("Import failed:", error);
             throw error;
@@ -663,13 +1494,24 @@ export const useShoppingStore = create<FullShoppingState>((set, get) => ({
       },
 
       exportData: () => {
-        const data = {
-            lists: get().lists,
-            customCategories: get().customCategories,
-            vendors: get().vendors,
-            categoryVendorMap: get().categoryVendorMap,
-            itemInfoMap: get().itemInfoMap,
-        };
-        return JSON.stringify(data, null, 2);
+        return JSON.stringify(selectStoredData(get()), null, 2);
+      },
+
+      restoreBackup: async (backupId) => {
+        if (!can(get().currentUser, 'backup:restore')) {
+            throw new Error(t.permissionDenied);
+        }
+        // Let an in-flight save finish first so it cannot land on top of the restored data.
+        await saveQueue.catch(() => {});
+        const snapshot = await restoreFromBackup(backupId);
+        const restored = snapshot.data ? loadStoredData(snapshot.data) : emptyState;
+
+        // The restore replaces everything, including edits not yet synced from this device,
+        // except the audit trail, which keeps the entries made since the backup.
+        clearTimeout(debounceTimer);
+        set({ ...restored, ...clearHistory, auditLog: mergeAuditLogs(restored.auditLog, get().auditLog), syncRevision: snapshot.revision, syncBase: restored, syncConflict: null });
+        await discardPendingWrites();
+        recordAudit([{ action: 'restore', entity: 'data', entityId: backupId, label: t.auditRestoreLabel, after: { lists: restored.lists.length, vendors: restored.vendors.length } }]);
+        debouncedSaveData();
       },
 }));
@@ -1,3 +1,5 @@
+const formatQuantity = (value: number) => value.toLocaleString('fa-IR', { maximumFractionDigits: 1 });
+
 export const t = {
   // App Title
   appTitle: "هوش تجاری کافه مهرنوش",
@@ -22,10 +24,8 @@ export const t = {
   exportSuccess: "خروجی داده با موفقیت انجام شد.",
   manageVendors: "مدیریت تامین‌کنندگان",
   manageItems: "مدیریت اقلام",
-  pendingPayments: "پرداخت‌های در انتظار",
-  noPendingPayments: "هیچ پرداخت در انتظاری وجود ندارد.",
+  inventory: "انبار",
   goToShoppingList: "برو به لیست خرید",
-  purchasedOn: (date: string) => `خرید در تاریخ ${date}`,
   todaysBriefing: "خلاصه وضعیت امروز",
   exportListJson: "خروجی JSON لیست",
   exportJson: "خروجی JSON",
@@ -47,6 +47,12 @@ export const t = {
   password: "رمز عبور",
   loginButton: "ورود",
   loginError: "نام کاربری یا رمز عبور نامعتبر است.",
+  permissionDenied: "نقش شما اجازه انجام این کار را ندارد.",
+  roles: {
+    owner: "مالک",
+    buyer: "خریدار",
+    accountant: "حسابدار",
+  },
 
 
   // New List Modal
@@ -70,11 +76,67 @@ export const t = {
   vendorUpdated: "اطلاعات تامین‌کننده به‌روز شد.",
   vendorDeleted: "تامین‌کننده حذف شد.",
   paymentStatusUpdated: "وضعیت پرداخت به‌روز شد.",
-  masterItemUpdated: "اطلاعات اصلی قلم در کل سیستم به‌روز شد.",
+  catalogItemAdded: "قلم به کاتالوگ اضافه شد.",
+  catalogItemUpdated: "اطلاعات قلم در کاتالوگ و لیست‌ها به‌روز شد.",
+  catalogItemDeleted: "قلم از کاتالوگ حذف شد.",
+  catalogItemsMerged: (duplicate: string, kept: string) => `«${duplicate}» در «${kept}» ادغام شد.`,
   other: "متفرقه",
   dataSynced: "داده‌ها با موفقیت همگام‌سازی شد.",
   syncError: "خطا در همگام‌سازی داده‌ها. لطفاً تنظیمات را بررسی کنید.",
 
+  // Sync Conflict
+  syncConflictTitle: "تغییر هم‌زمان داده‌ها",
+  syncConflictMessage: (count: number) => `داده‌ها هم‌زمان از دستگاه دیگری هم ویرایش شده‌اند. تغییرات غیرهم‌پوشان به‌طور خودکار ادغام شد، اما ${count.toLocaleString('fa-IR')} مورد در هر دو دستگاه به شکل متفاوتی تغییر کرده است. برای هر مورد، نسخه مورد نظر را انتخاب کنید.`,
+  myVersion: "نسخه این دستگاه",
+  serverVersion: "نسخه سرور",
+  keepAllMine: "همه از این دستگاه",
+  keepAllServer: "همه از سرور",
+  applyAndSync: "اعمال و همگام‌سازی",
+  conflictEntityList: "لیست",
+  conflictEntityItem: "قلم",
+  conflictEntityVendor: "تامین‌کننده",
+  conflictEntityCategoryVendor: "تامین‌کننده پیش‌فرض دسته‌بندی",
+  conflictEntityCatalogItem: "قلم کاتالوگ",
+  conflictEntityRecipe: "قلم منو",
+  conflictEntityBudget: "بودجه",
+  status: "وضعیت",
+  syncStatusSynced: "همگام با سرور",
+  syncStatusPending: "در انتظار همگام‌سازی",
+  syncStatusError: "خطا در همگام‌سازی",
+
+
+  // Settings / Backups
+  settings: "تنظیمات",
+  backups: "نسخه‌های پشتیبان",
+  backupsDescription: "از داده‌ها هر روز و پیش از هر ورود داده یا بازگردانی، به‌طور خودکار روی سرور نسخه پشتیبان گرفته می‌شود.",
+  createBackupNow: "تهیه نسخه پشتیبان",
+  backupCreated: "نسخه پشتیبان تهیه شد.",
+  backupError: "خطا در دریافت یا تهیه نسخه پشتیبان.",
+  noBackupsYet: "هنوز نسخه پشتیبانی وجود ندارد.",
+  backupsNotConfigured: "نسخه پشتیبان گرفته نمی‌شود، چون جای نگهداری آن روی سرور تنظیم نشده است.",
+  loadingBackups: "در حال دریافت نسخه‌های پشتیبان...",
+  backupReasons: {
+    daily: "روزانه",
+    'pre-import': "پیش از ورود داده",
+    'pre-restore': "پیش از بازگردانی",
+    manual: "دستی",
+  },
+  backupCounts: (lists: number, items: number) => `${lists.toLocaleString('fa-IR')} لیست، ${items.toLocaleString('fa-IR')} قلم`,
+  previewRestore: "پیش‌نمایش",
+  restoreBackup: "بازگردانی",
+  restorePreviewTitle: (date: string) => `بازگردانی نسخه ${date}`,
+  restoreNoChanges: "این نسخه با داده‌های فعلی تفاوتی ندارد.",
+  diffLists: "لیست‌ها",
+  diffItems: "اقلام",
+  diffVendors: "تامین‌کنندگان",
+  diffAdded: (count: number) => `${count.toLocaleString('fa-IR')} مورد اضافه می‌شود`,
+  diffRemoved: (count: number) => `${count.toLocaleString('fa-IR')} مورد حذف می‌شود`,
+  diffChanged: (count: number) => `${count.toLocaleString('fa-IR')} مورد تغییر می‌کند`,
+  andMore: (count: number) => `و ${count.toLocaleString('fa-IR')} مورد دیگر`,
+  backToBackups: "بازگشت به فهرست نسخه‌ها",
+  confirmRestoreBackup: "با بازگردانی این نسخه، تمام داده‌های فعلی (از جمله تغییرات همگام‌نشده این دستگاه) جایگزین می‌شود. پیش از آن، از داده‌های فعلی یک نسخه پشتیبان گرفته می‌شود.",
+  restoreSuccess: "نسخه پشتیبان با موفقیت بازگردانی شد.",
+  restoreError: "خطا در بازگردانی نسخه پشتیبان.",
 
   // Shopping View
   backToDashboard: "بازگشت به داشبورد",
@@ -114,7 +176,7 @@ export const t = {
   // Buy Item Modal
   confirmPurchaseTitle: "ثبت خرید",
   quantityPurchased: "مقدار خریداری شده",
-  pricePerUnitLabel: "قیمت هر واحد (ریال)",
+  pricePerUnitLabel: "قیمت هر واحد",
   calculatedTotal: "مبلغ کل محاسبه شده",
   confirm: "تأیید",
   receipt: "رسید",
@@ -170,7 +232,7 @@ export const t = {
   ocrDisclaimer: "توجه: مقادیر استخراج شده توسط AI ممکن است نیاز به بازبینی و اصلاح داشته باشند.",
   addAllToPurchased: "افزودن همه به لیست خریداری شده‌ها",
   ocrError: "خطا در پردازش تصویر. لطفاً از یک تصویر واضح‌تر استفاده کنید یا موارد را دستی وارد کنید.",
-  price: "قیمت (ریال)",
+  price: "قیمت",
   receiptDate: "تاریخ رسید",
   ocrDatePlaceholder: "YYYY/MM/DD",
   paymentDetails: "جزئیات پرداخت",
@@ -209,14 +271,48 @@ export const t = {
   // Expense Forecasting
   expenseForecast: "پیش‌بینی هزینه‌ها",
   avgDailyExpense: "میانگین هزینه روزانه",
-  estimatedMonthlyExpense: "هزینه تخمینی ماهانه",
+  nextMonthForecast: "پیش‌بینی ماه آینده",
+  nextQuarterForecast: "پیش‌بینی سه ماه آینده",
+  forecastRange: (low: string, high: string) => `بین ${low} تا ${high}`,
+  forecastVsActual: "پیش‌بینی در برابر هزینه واقعی",
+  actualSpend: "هزینه واقعی",
+  forecastSpend: "پیش‌بینی",
+  forecastLow: "کران پایین",
+  forecastHigh: "کران بالا",
+  forecastByCategory: "پیش‌بینی به تفکیک دسته‌بندی",
+  forecastHint: "پیش‌بینی‌ها روند هزینه‌ها و الگوهای فصلی را در نظر می‌گیرند: روزهای هفته، ماه‌های سال (مانند نوروز و تابستان) و ماه رمضان. بازه‌ها حدود ۸۰٪ موارد را پوشش می‌دهند و از خطای پیش‌بینی‌های ماه‌های گذشته به دست آمده‌اند.",
   notEnoughDataForForecast: "برای فعال‌سازی پیش‌بینی، به داده‌های بیشتری نیاز است. به استفاده از برنامه ادامه دهید.",
 
+  // Budgets
+  budgets: "بودجه ماهانه",
+  editBudgets: "تنظیم بودجه",
+  editBudgetsTitle: "تنظیم بودجه ماهانه",
+  overallBudget: "کل هزینه‌ها",
+  noBudgetsYet: "هنوز بودجه‌ای تعیین نشده است.",
+  budgetScope: "اعمال برای",
+  budgetEveryMonth: "همه ماه‌ها",
+  budgetThisMonthOnly: (month: string) => `فقط ${month}`,
+  budgetsHint: "بودجه خالی یعنی بدون سقف. بودجه یک ماه خاص بر بودجه همه ماه‌ها مقدم است.",
+  budgetsSaved: "بودجه‌ها ذخیره شد.",
+  budgetSpent: (spent: string, budget: string) => `${spent} از ${budget}`,
+  budgetProjected: (amount: string) => `پیش‌بینی پایان ماه: ${amount}`,
+  budgetProjectedOver: "با این روند از بودجه فراتر می‌رود",
+  budgetExceededTitle: "عبور از بودجه",
+  budgetExceeded: (name: string, spent: string, budget: string) => `هزینه «${name}» در این ماه به ${spent} رسید و از بودجه ${budget} فراتر رفت.`,
+
   // Smart Suggestions
   todaysSmartSuggestions: "پیشنهادهای هوشمند امروز",
   suggestionReasonCycle: (days: number) => `زمان خرید است. شما معمولاً هر ${days} روز یکبار این قلم را می‌خرید.`,
-  suggestionReasonGettingLow: (days: number) => `موجودی رو به اتمام است. میانگین دوره خرید شما ${days} روز است.`,
-  suggestionReasonDepleted: (cycle: number, depleted: number) => `موجودی تمام شده. بر اساس دوره خرید ${cycle} روزه, این قلم حدود ${depleted} روز پیش تمام شده.`,
+  suggestionReasonGettingLow: (lastQuantity: number, dailyUsage: number, unit: string, daysLeft: number) => `با مصرف حدود ${formatQuantity(dailyUsage)} ${unit} در روز، خرید قبلی (${formatQuantity(lastQuantity)} ${unit}) ${daysLeft < 1 ? 'تا پایان امروز' : `حدود ${formatQuantity(daysLeft)} روز دیگر`} تمام می‌شود.`,
+  suggestionReasonBelowPar: (onHand: number, par: number, unit: string) => `موجودی انبار حدود ${formatQuantity(onHand)} ${unit} است؛ کمتر از حد مطلوب ${formatQuantity(par)} ${unit}.`,
+  suggestionReasonRunningOut: (onHand: number, unit: string, days: number) => `حدود ${formatQuantity(onHand)} ${unit} در انبار مانده که با مصرف فعلی ${days < 1 ? 'تا پایان امروز' : `حدود ${formatQuantity(days)} روز دیگر`} تمام می‌شود.`,
+  suggestionReasonDepleted: (lastQuantity: number, dailyUsage: number, unit: string, daysAgo: number) => `موجودی تمام شده. با مصرف حدود ${formatQuantity(dailyUsage)} ${unit} در روز، خرید قبلی (${formatQuantity(lastQuantity)} ${unit}) ${daysAgo < 1 ? 'امروز' : `حدود ${daysAgo.toLocaleString('fa-IR')} روز پیش`} تمام شده است.`,
+  suggestedQuantity: (quantity: number, unit: string) => `پیشنهاد خرید: ${formatQuantity(quantity)} ${unit}`,
+  snoozeSuggestion: "بعداً یادآوری کن",
+  snoozeDays: (days: number) => `${days.toLocaleString('fa-IR')} روز دیگر`,
+  dismissSuggestion: "تا خرید بعدی نشان نده",
+  suggestionSnoozed: "پیشنهاد به تعویق افتاد.",
+  suggestionDismissed: "این پیشنهاد تا خرید بعدی نشان داده نمی‌شود.",
   noSuggestions: "هیچ پیشنهاد هوشمندی برای امروز وجود ندارد.",
 
 
@@ -234,11 +330,188 @@ export const t = {
   editVendorTitle: "ویرایش اطلاعات تامین‌کننده",
   confirmDeleteVendor: (name: string) => `آیا از حذف تامین‌کننده «${name}» مطمئن هستید؟ خریدهای ثبت شده با این تامین‌کننده حذف نخواهند شد.`,
 
+  // Payables
+  vendorStatement: "صورت‌حساب",
+  vendorStatementTitle: (name: string) => `صورت‌حساب ${name}`,
+  balanceDue: "مانده بدهی",
+  vendorCredit: "بستانکاری نزد تامین‌کننده",
+  invoicesBalance: "مانده فاکتورها",
+  unbilledPurchases: "خریدهای نسیه بدون فاکتور",
+  totalDue: "جمع بدهی",
+  invoices: "فاکتورها",
+  invoice: "فاکتور",
+  invoiceLabel: (vendor: string, number?: string) => number ? `فاکتور ${number} ${vendor}` : `فاکتور ${vendor}`,
+  invoiceNumber: "شماره فاکتور",
+  invoiceDate: "تاریخ فاکتور",
+  invoiceAmount: "مبلغ فاکتور",
+  amountPaid: "پرداخت شده",
+  amountRemaining: "باقی‌مانده",
+  invoiceSettled: "تسویه شده",
+  createInvoice: "ثبت فاکتور",
+  createInvoiceTitle: "ثبت فاکتور تامین‌کننده",
+  selectInvoiceItems: "خریدهای این فاکتور",
+  noInvoiceItemsSelected: "هیچ خریدی برای فاکتور انتخاب نشده است.",
+  invoiceCreated: "فاکتور ثبت شد.",
+  invoiceDeleted: "فاکتور حذف شد.",
+  confirmDeleteInvoice: "خریدهای این فاکتور دوباره بدون فاکتور می‌شوند و پرداخت‌های آن علی‌الحساب باقی می‌مانند. ادامه می‌دهید؟",
+  recordPayment: "ثبت پرداخت",
+  recordPaymentTitle: (name: string) => `ثبت پرداخت به ${name}`,
+  paymentLabel: (vendor: string) => `پرداخت به ${vendor}`,
+  paymentAmount: "مبلغ پرداخت",
+  paymentDate: "تاریخ پرداخت",
+  paymentNote: "توضیح",
+  paymentFor: "بابت",
+  onAccount: "علی‌الحساب",
+  onAccountHint: "پرداخت علی‌الحساب ابتدا قدیمی‌ترین فاکتورهای باز را تسویه می‌کند.",
+  paymentRecorded: "پرداخت ثبت شد.",
+  paymentDeleted: "پرداخت حذف شد.",
+  confirmDeletePayment: "آیا از حذف این پرداخت مطمئن هستید؟",
+  invalidPaymentAmount: "مبلغ پرداخت باید بیشتر از صفر باشد.",
+  statementLines: "گردش حساب",
+  charge: "بدهکار",
+  credit: "بستانکار",
+  runningBalance: "مانده",
+  noTransactionsYet: "هنوز فاکتور یا پرداختی برای این تامین‌کننده ثبت نشده است.",
+  onInvoice: (label: string) => `در ${label}`,
+  paymentTerms: "شرایط پرداخت",
+  termsOnDelivery: "نقد، هنگام تحویل",
+  termsNet: (days: number) => `${days.toLocaleString('fa-IR')} روز پس از خرید`,
+  termsNetOption: "چند روز پس از خرید",
+  termsEndOfMonth: "تا پایان ماه (شمسی)",
+  termsDays: "تعداد روز",
+
+  // Aging report
+  agingReportTitle: "سررسید بدهی‌ها",
+  agingReportPdfTitle: (date: string) => `گزارش سررسید بدهی به تامین‌کنندگان – ${date}`,
+  agingBuckets: {
+    current: "سررسید نشده",
+    overdue1to30: "۱ تا ۳۰ روز گذشته",
+    overdue31to60: "۳۱ تا ۶۰ روز گذشته",
+    overdue60plus: "بیش از ۶۰ روز گذشته",
+  },
+  agingTotal: "جمع",
+  dueDate: "سررسید",
+  daysOverdue: (days: number) => `${days.toLocaleString('fa-IR')} روز گذشته`,
+  dueInDays: (days: number) => days === 0 ? "امروز" : `${days.toLocaleString('fa-IR')} روز مانده`,
+  unknownVendor: "نامشخص",
+  agingDetails: "جزئیات",
+  hideAgingDetails: "بستن جزئیات",
+  exportAgingPdf: "خروجی PDF",
+  agingPdfExported: "گزارش سررسید آماده شد.",
+
   // Item Management
-  itemsDashboardTitle: "مدیریت اقلام",
-  noItemsYet: "هنوز هیچ قلم خریدی ثبت نشده است.",
+  itemsDashboardTitle: "کاتالوگ اقلام",
+  noItemsYet: "هنوز هیچ قلمی در کاتالوگ ثبت نشده است.",
   lastPrice: "آخرین قیمت واحد",
-  editMasterItemTitle: "ویرایش اطلاعات اصلی قلم",
+  addCatalogItem: "افزودن قلم",
+  addCatalogItemTitle: "افزودن قلم به کاتالوگ",
+  editCatalogItemTitle: "ویرایش قلم کاتالوگ",
+  searchCatalog: "جستجوی نام یا نام دیگر...",
+  aliases: "نام‌های دیگر",
+  aliasesHint: "با ویرگول جدا کنید؛ خریدهایی که با این نام‌ها ثبت شوند به همین قلم تعلق می‌گیرند.",
+  defaultUnit: "واحد پیش‌فرض",
+  defaultVendor: "تامین‌کننده پیش‌فرض",
+  noDefaultVendor: "بدون تامین‌کننده پیش‌فرض",
+  packSizes: "اندازه بسته‌ها",
+  packSizesHint: "برای مقایسه قیمت خریدهایی که در واحدهای مختلف ثبت شده‌اند، مثلاً ۱ کارتن = ۱۲ بطری و ۱ بطری = ۱ لیتر. تبدیل کیلوگرم و گرم، لیتر و میلی‌لیتر و دوجین و عدد خودکار است.",
+  addPackSize: "+ افزودن اندازه بسته",
+  catalogNameTaken: (name: string) => `«${name}» قبلاً در کاتالوگ ثبت شده است.`,
+  catalogItemInUse: "این قلم در لیست‌های خرید استفاده شده و قابل حذف نیست.",
+  catalogItemInRecipe: "این قلم در دستور تهیه منو استفاده شده و قابل حذف نیست.",
+  confirmDeleteCatalogItem: (name: string) => `آیا از حذف «${name}» از کاتالوگ مطمئن هستید؟`,
+  parLevel: "حد مطلوب موجودی",
+  parLevelHint: "اگر موجودی شمارش‌شده از این مقدار (به واحد پیش‌فرض) کمتر شود، خرید آن پیشنهاد می‌شود.",
+  minLevel: "حد سفارش مجدد",
+  minLevelHint: "وقتی موجودی به زیر این مقدار برسد، قلم تا حد مطلوب سفارش داده می‌شود. اگر خالی بماند، همان حد مطلوب است.",
+  generateReorderList: "ساخت لیست فردا",
+  reorderListGenerated: (count: number) => `${count.toLocaleString('fa-IR')} قلم زیر حد موجودی به لیست فردا اضافه شد.`,
+  reorderListUpToDate: "همه اقلام زیر حد موجودی از قبل در لیست فردا هستند.",
+  nothingBelowPar: "هیچ قلمی زیر حد موجودی نیست.",
+  noVendorPlanned: "بدون تامین‌کننده",
+  possibleDuplicates: (count: number) => `موارد مشابه (${count.toLocaleString('fa-IR')})`,
+  possibleDuplicatesTitle: "اقلام احتمالاً تکراری",
+  possibleDuplicatesHint: "این اقلام نام‌های بسیار مشابهی دارند. با انتخاب قلمی که باید بماند، سابقه خرید دیگری به آن منتقل و نامش به نام‌های دیگر آن اضافه می‌شود.",
+  noDuplicatesFound: "قلم تکراری پیدا نشد.",
+  similarity: "شباهت",
+  keepItem: (name: string) => `نگه‌داشتن «${name}»`,
+  purchaseCountLabel: (count: number) => `${count.toLocaleString('fa-IR')} خرید`,
+  compareVendors: "مقایسه تامین‌کنندگان",
+  vendorPriceComparisonTitle: (name: string) => `مقایسه قیمت «${name}» بین تامین‌کنندگان`,
+  comparisonPeriod: "بازه",
+  lastNDays: (days: number) => `${days.toLocaleString('fa-IR')} روز گذشته`,
+  pricesPerUnit: (unit: string) => `قیمت‌ها برای هر ${unit}`,
+  averagePrice: "میانگین قیمت",
+  minPrice: "کمترین قیمت",
+  priceTrend: "روند",
+  noVendorPrices: "در این بازه خریدی با تامین‌کننده مشخص ثبت نشده است.",
+  vendorCheaper: (cheaper: string, other: string, saving: number, days: number) =>
+    `${days ? `در ${days.toLocaleString('fa-IR')} روز گذشته` : 'تاکنون'} «${cheaper}» به‌طور میانگین ${Math.round(saving * 100).toLocaleString('fa-IR')}٪ ارزان‌تر از «${other}» بوده است.`,
+  cheaperAt: (name: string, saving: number) => `${Math.round(saving * 100).toLocaleString('fa-IR')}٪ ارزان‌تر در «${name}»`,
+  priceAnomaly: (ratio: number, usual: string, unit: string) => {
+    const times = (Math.round((ratio > 1 ? ratio : 1 / ratio) * 10) / 10).toLocaleString('fa-IR');
+    return ratio > 1
+      ? `این قیمت حدود ${times} برابر قیمت معمول (${usual} برای هر ${unit}) است.`
+      : `این قیمت حدود ${times} برابر کمتر از قیمت معمول (${usual} برای هر ${unit}) است.`;
+  },
+  priceDecimalShift: "شاید یک صفر جابه‌جا شده یا قیمت به تومان وارد شده است.",
+  confirmAnyway: "ثبت با همین قیمت",
+  priceOutliers: (count: number) => `قیمت‌های غیرعادی (${count.toLocaleString('fa-IR')})`,
+  priceOutliersTitle: "قیمت‌های غیرعادی",
+  priceOutliersHint: "قیمت این خریدها با خریدهای قبل و بعد همان قلم فاصله زیادی دارد. اگر اشتباه ثبت شده‌اند، اصلاحشان کنید.",
+  noPriceOutliers: "قیمت غیرعادی پیدا نشد.",
+  useVendor: (name: string) => `خرید از «${name}»`,
+
+  // Inventory
+  inventoryTitle: "موجودی انبار",
+  startStockCount: "شروع انبارگردانی",
+  saveStockCount: (count: number) => `ثبت شمارش (${count.toLocaleString('fa-IR')} قلم)`,
+  stockCountHint: "مقدار موجود هر قلم را به واحد پیش‌فرض آن وارد کنید. اقلامی که خالی بمانند شمارش نمی‌شوند؛ عدد کم‌رنگ، موجودی مورد انتظار است.",
+  nothingCounted: "هیچ قلمی شمارش نشده است.",
+  stockCountSaved: (count: number) => `شمارش ${count.toLocaleString('fa-IR')} قلم ثبت شد.`,
+  lastCounted: (date: string) => `آخرین شمارش: ${date}`,
+  neverCounted: "هنوز شمارش نشده",
+  dailyUsage: (amount: string, unit: string) => `مصرف روزانه: ${amount} ${unit}`,
+  daysLeft: (days: string) => `حدود ${days} روز موجودی`,
+  noStockMovements: "گردشی ثبت نشده است.",
+  stockMovement: "گردش",
+  stockMovementCount: "شمارش",
+  stockMovementPurchase: "خرید",
+  quantity: "مقدار",
+  stockBalance: "موجودی",
+  consumed: "مصرف",
+
+  // Recipes
+  recipes: "بهای تمام‌شده منو",
+  recipesTitle: "بهای تمام‌شده اقلام منو",
+  addRecipe: "افزودن قلم منو",
+  addRecipeTitle: "افزودن قلم منو",
+  editRecipeTitle: "ویرایش قلم منو",
+  recipeName: "نام قلم منو",
+  servings: "تعداد پرس",
+  servingsHint: "مقادیر مواد برای کل دستور است و بهای آن بر تعداد پرس تقسیم می‌شود (مثلاً یک کیک ۸ برشی).",
+  salePrice: "قیمت فروش هر پرس",
+  ingredients: "مواد اولیه",
+  addIngredient: "+ افزودن ماده اولیه",
+  selectIngredient: "انتخاب از کاتالوگ",
+  noIngredients: "حداقل یک ماده اولیه اضافه کنید.",
+  noRecipesYet: "هنوز قلم منویی تعریف نشده است.",
+  costMethod: "مبنای قیمت",
+  costMethodLatest: "آخرین قیمت خرید",
+  costMethodAverage: (count: number) => `میانگین ${count.toLocaleString('fa-IR')} خرید اخیر`,
+  costPerServing: "بهای هر پرس",
+  margin: "سود ناخالص",
+  foodCostPercent: "نسبت بها به فروش",
+  noSalePrice: "قیمت فروش ثبت نشده",
+  missingPrices: "بهای برخی مواد معلوم نیست",
+  unitPrice: "قیمت واحد",
+  cost: "بها",
+  priceUnknown: "نامعلوم",
+  costOverTime: "بهای هر پرس در طول زمان",
+  notEnoughCostHistory: "برای نمودار، همه مواد اولیه باید دست‌کم یک خرید ثبت‌شده داشته باشند.",
+  recipeAdded: "قلم منو اضافه شد.",
+  recipeUpdated: "قلم منو به‌روزرسانی شد.",
+  recipeDeleted: "قلم منو حذف شد.",
+  confirmDeleteRecipe: (name: string) => `آیا از حذف «${name}» مطمئن هستید؟`,
 
   // Jalali Calendar
   jalaliMonths: ['فروردین', 'اردیبهشت', 'خرداد', 'تیر', 'مرداد', 'شهریور', 'مهر', 'آبان', 'آذر', 'دی', 'بهمن', 'اسفند'],
@@ -246,6 +519,15 @@ export const t = {
 
   // Currency
   currency: "ریال",
+  currencyUnits: {
+    rial: "ریال",
+    toman: "تومان",
+    thousandToman: "هزار تومان",
+  },
+  rialEquivalent: (amount: string) => `معادل ${amount} ریال`,
+  currencyPreference: "واحد پول",
+  currencyPreferenceHint: "قیمت‌ها با این واحد وارد و نمایش داده می‌شوند. مبالغ همیشه به ریال ذخیره می‌شوند.",
+  invalidAmount: "عدد معتبر وارد کنید.",
 
   // Summary Dashboard
   executiveSummary: "خلاصه مدیریتی",
@@ -254,6 +536,12 @@ export const t = {
   thisMonth: "ماه جاری",
   thisYear: "سال جاری",
   allTime: "کل دوره",
+  priceIndexTitle: "شاخص قیمت سبد کافه",
+  cafeBasket: "سبد کافه",
+  priceIndexMetric: "شاخص قیمت (ابتدای دوره = ۱۰۰)",
+  monthlyInflation: "تورم ماه گذشته",
+  yearlyInflation: "تورم ۱۲ ماهه",
+  priceIndexHint: "قیمت ماه اول ۱۰۰ است. هر ماه با ماه قبل روی اقلامی که در هر دو ماه خریده شده‌اند و با مقادیر ماه قبل مقایسه می‌شود (لاسپیرز زنجیره‌ای)؛ قیمت‌ها به واحد پیش‌فرض هر قلم است.",
   totalItemsPurchased: "کل اقلام خریداری شده",
   topSpendingCategory: "دسته‌بندی پرهزینه",
   topSpendingVendor: "تامین‌کننده پرهزینه",
@@ -263,4 +551,109 @@ export const t = {
   generatingSummary: "در حال تولید خلاصه...",
   noDataForSummary: "داده کافی برای نمایش خلاصه در این دوره وجود ندارد.",
   save: "ذخیره",
+
+  // Activity (audit trail)
+  activity: "فعالیت‌ها",
+  activityTitle: "گزارش فعالیت کاربران",
+  noActivity: "هیچ فعالیتی با این فیلترها یافت نشد.",
+  allUsers: "همه کاربران",
+  allEntities: "همه موارد",
+  clearFilters: "پاک کردن فیلترها",
+  showMore: "نمایش بیشتر",
+  auditImportLabel: "ورود اطلاعات از فایل",
+  auditRestoreLabel: "بازگردانی نسخه پشتیبان",
+  auditActions: {
+    create: "ایجاد",
+    update: "ویرایش",
+    delete: "حذف",
+    merge: "ادغام",
+    import: "ورود اطلاعات",
+    restore: "بازگردانی",
+    undo: "واگرد",
+    redo: "انجام دوباره",
+  },
+  auditEntities: {
+    list: "لیست خرید",
+    item: "قلم خرید",
+    vendor: "تامین‌کننده",
+    catalogItem: "قلم کاتالوگ",
+    stockCount: "انبارگردانی",
+    recipe: "قلم منو",
+    budget: "بودجه",
+    invoice: "فاکتور",
+    payment: "پرداخت",
+    masterItem: "قلم اصلی",
+    category: "دسته‌بندی",
+    data: "کل اطلاعات",
+  },
+  auditFields: {
+    name: "نام",
+    createdAt: "تاریخ",
+    itemCount: "تعداد اقلام",
+    amount: "مقدار",
+    unit: "واحد",
+    status: "وضعیت",
+    category: "دسته‌بندی",
+    paidPrice: "مبلغ پرداختی",
+    purchasedAmount: "مقدار خریداری شده",
+    estimatedPrice: "قیمت تخمینی",
+    vendorId: "تامین‌کننده",
+    paymentStatus: "وضعیت پرداخت",
+    paymentMethod: "روش پرداخت",
+    contactPerson: "فرد رابط",
+    phone: "شماره تلفن",
+    address: "آدرس",
+    lists: "تعداد لیست‌ها",
+    vendors: "تعداد تامین‌کنندگان",
+    aliases: "نام‌های دیگر",
+    defaultUnit: "واحد پیش‌فرض",
+    defaultVendorId: "تامین‌کننده پیش‌فرض",
+    packSizes: "اندازه بسته‌ها",
+    parLevel: "حد مطلوب موجودی",
+    minLevel: "حد سفارش مجدد",
+    quantity: "مقدار",
+    servings: "تعداد پرس",
+    salePrice: "قیمت فروش",
+    ingredients: "مواد اولیه",
+    invoiceId: "فاکتور",
+    number: "شماره فاکتور",
+    issuedAt: "تاریخ فاکتور",
+    paidAt: "تاریخ پرداخت",
+    method: "روش پرداخت",
+    note: "توضیح",
+    paymentTerms: "شرایط پرداخت",
+  } as Record<string, string>,
+
+  // Undo/redo
+  undo: "واگرد",
+  undoDone: (label: string) => `واگرد شد: ${label}`,
+  redoDone: (label: string) => `دوباره انجام شد: ${label}`,
+  nothingToUndo: "تغییری برای واگرد وجود ندارد.",
+  nothingToRedo: "تغییری برای انجام دوباره وجود ندارد.",
+  historyLabels: {
+    createList: (name: string) => `ایجاد «${name}»`,
+    editList: (name: string) => `ویرایش «${name}»`,
+    deleteList: (name: string) => `حذف «${name}»`,
+    editItem: (name: string) => `ویرایش «${name}»`,
+    addItem: (name: string) => `افزودن «${name}» به لیست امروز`,
+    ocrPurchase: "ثبت خرید از روی رسید",
+    addVendor: (name: string) => `افزودن تامین‌کننده «${name}»`,
+    editVendor: (name: string) => `ویرایش تامین‌کننده «${name}»`,
+    deleteVendor: (name: string) => `حذف تامین‌کننده «${name}»`,
+    setCategoryVendor: (category: string) => `تعیین تامین‌کننده دسته «${category}»`,
+    addCatalogItem: (name: string) => `افزودن «${name}» به کاتالوگ`,
+    editCatalogItem: (name: string) => `ویرایش قلم «${name}»`,
+    deleteCatalogItem: (name: string) => `حذف «${name}» از کاتالوگ`,
+    mergeCatalogItems: (duplicate: string, kept: string) => `ادغام «${duplicate}» در «${kept}»`,
+    stockCount: "ثبت انبارگردانی",
+    generateReorderList: "ساخت لیست فردا از اقلام زیر حد موجودی",
+    addRecipe: (name: string) => `افزودن «${name}» به منو`,
+    editRecipe: (name: string) => `ویرایش دستور «${name}»`,
+    deleteRecipe: (name: string) => `حذف «${name}» از منو`,
+    editBudgets: "تنظیم بودجه",
+    createInvoice: "ثبت فاکتور",
+    deleteInvoice: "حذف فاکتور",
+    recordPayment: "ثبت پرداخت",
+    deletePayment: "حذف پرداخت",
+  },
 };
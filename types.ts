@@ -46,12 +46,16 @@ export enum PaymentMethod {
   Transfer = 'انتقال بانکی',
 }
 
+// When a vendor expects to be paid: some days after the purchase, or by the end of its Jalali month.
+export type PaymentTerms = { type: 'net'; days: number } | { type: 'endOfMonth' };
+
 export interface Vendor {
   id: string;
   name: string;
   contactPerson?: string;
   phone?: string;
   address?: string;
+  paymentTerms?: PaymentTerms; // Absent when purchases are paid for on delivery
 }
 
 
@@ -68,6 +72,87 @@ export interface ShoppingItem {
   paymentStatus?: PaymentStatus;
   paymentMethod?: PaymentMethod;
   estimatedPrice?: number;
+  catalogItemId?: string; // The CatalogItem this is a purchase of
+  invoiceId?: string; // The supplier Invoice this purchase was billed on
+}
+
+// A product the café buys. Shopping items link to it by id, so renaming it
+// (or buying it under another name) keeps its purchase history together.
+// "1 carton = 12 bottles" is { unit: Unit.Carton, amount: 12, of: Unit.Bottle }.
+export interface PackSize {
+  unit: Unit;
+  amount: number;
+  of: Unit;
+}
+
+export interface CatalogItem {
+  id: string;
+  name: string; // Canonical name
+  aliases: string[]; // Other names it is known by, e.g. earlier names and common misspellings
+  defaultUnit: Unit; // Quantities and prices per unit of this item are reported in this unit
+  category: string;
+  defaultVendorId?: string;
+  packSizes?: PackSize[];
+  parLevel?: number; // Stock to keep on hand, in the default unit
+  minLevel?: number; // Reorder once stock falls below this (defaults to the par level)
+}
+
+export interface StockCountEntry {
+  catalogItemId: string;
+  quantity: number; // In the catalog item's default unit
+}
+
+// A count of the storeroom. Counts are never edited; a recount is a new count.
+export interface StockCount {
+  id: string;
+  countedAt: string; // ISO string
+  countedBy: string; // Username
+  entries: StockCountEntry[];
+}
+
+export interface RecipeIngredient {
+  catalogItemId: string;
+  quantity: number;
+  unit: Unit; // Any unit the catalog item converts to, e.g. grams of coffee bought by the kilo
+}
+
+// A menu item and what goes into it. Ingredients are for the whole batch, which makes `servings` portions.
+export interface Recipe {
+  id: string;
+  name: string;
+  servings: number;
+  salePrice?: number; // Menu price of one serving
+  ingredients: RecipeIngredient[];
+}
+
+// A monthly spending limit. Budgets for a specific month override the recurring one.
+export interface Budget {
+  id: string; // Derived from the category and month, so both devices setting the same budget edit one record
+  category?: string; // Absent for the overall budget
+  month?: string; // Jalali "YYYY/MM"; absent for the budget that applies every month
+  amount: number;
+}
+
+// A supplier's bill for purchases bought on credit. Its amount is the total paid price of
+// the items that link to it, so correcting a purchase corrects the invoice. Invoices and
+// payments are never edited; a mistake is deleted and recorded again.
+export interface Invoice {
+  id: string;
+  vendorId: string;
+  number?: string; // The supplier's own invoice number
+  issuedAt: string; // ISO string
+}
+
+// Money paid to a supplier. Payments without an invoice are paid on account and settle
+// the vendor's oldest open invoices first.
+export interface Payment {
+  id: string;
+  vendorId: string;
+  invoiceId?: string;
+  paidAt: string; // ISO string
+  amount: number;
+  method: PaymentMethod;
+  note?: string;
 }
 
 export interface ShoppingList {
@@ -114,26 +199,26 @@ export interface RestockSuggestion {
 export interface SmartSuggestion extends RestockSuggestion {
     reason: string;
     priority: 'high' | 'medium' | 'low';
+    suggestedQuantity?: number; // In `unit`
+    dailyUsage?: number;
 }
 
-
-export interface PendingPaymentItem extends ShoppingItem {
-    listId: string;
-    listName: string;
-    purchaseDate: string;
+// A suggestion hidden until `until`, or when dismissed (no `until`) until the item is bought again.
+export interface SuggestionSnooze {
+    at: string;
+    until?: string;
 }
 
+
 export interface RecentPurchaseItem extends ShoppingItem {
     listId: string;
     purchaseDate: string;
 }
 
-export interface MasterItem {
-  name: string;
-  unit: Unit;
-  category: string;
-  lastPricePerUnit: number;
-  totalQuantity: number;
+// A catalog item with its purchase statistics.
+export interface MasterItem extends CatalogItem {
+  lastPricePerUnit?: number; // Per default unit
+  totalQuantity: number; // In the default unit
   totalSpend: number;
   purchaseCount: number;
 }
@@ -157,17 +242,98 @@ export interface SummaryData {
   };
 }
 
+export type UserRole = 'owner' | 'buyer' | 'accountant';
+
+// What prices are typed and shown in. Amounts are always stored in Rials.
+export type CurrencyUnit = 'rial' | 'toman' | 'thousandToman';
+
 export interface User {
   id: string;
   username: string;
+  role: UserRole;
 }
 
 export interface AuthSlice {
   currentUser: User | null;
+  isRestoringSession: boolean;
   login: (username: string, password: string) => Promise<boolean>;
   logout: () => void;
+  restoreSession: () => Promise<void>;
 }
 
 export interface ShoppingState {
   isHydrating: boolean;
 }
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'merge' | 'import' | 'restore' | 'undo' | 'redo';
+export type AuditEntity = 'list' | 'item' | 'vendor' | 'category' | 'catalogItem' | 'stockCount' | 'recipe' | 'budget' | 'invoice' | 'payment' | 'masterItem' | 'data'; // 'masterItem': entries from before the catalog
+
+// One change made through the app, recorded with the user who made it (see lib/audit).
+export interface AuditEntry {
+  id: string;
+  at: string; // ISO timestamp
+  userId: string;
+  username: string;
+  action: AuditAction;
+  entity: AuditEntity;
+  entityId: string;
+  label: string; // Human-readable name of the changed record, as it was at the time
+  before?: Record<string, unknown>; // Only the fields that changed
+  after?: Record<string, unknown>;
+}
+
+// The shape persisted to the backend and used for import/export.
+export interface StoredData {
+  schemaVersion: number; // See lib/schema for the migrations between versions
+  lists: ShoppingList[];
+  customCategories: string[];
+  vendors: Vendor[];
+  categoryVendorMap: Record<string, string>;
+  catalog: CatalogItem[];
+  stockCounts: StockCount[];
+  recipes: Recipe[];
+  budgets: Budget[];
+  invoices: Invoice[];
+  payments: Payment[];
+  auditLog: AuditEntry[];
+}
+
+export type MergeConflictPath =
+  | { scope: 'list'; listId: string }
+  | { scope: 'item'; listId: string; itemId: string }
+  | { scope: 'vendor'; vendorId: string }
+  | { scope: 'catalogItem'; catalogItemId: string }
+  | { scope: 'recipe'; recipeId: string }
+  | { scope: 'budget'; budgetId: string }
+  | { scope: 'categoryVendorMap'; key: string };
+
+// A field edited differently on this device and on the server since the last sync.
+export interface MergeConflict {
+  id: string;
+  entity: MergeConflictPath['scope'];
+  label: string;
+  path: MergeConflictPath;
+  field: string;
+  localValue: unknown;
+  remoteValue: unknown;
+}
+
+// Raised when the backend copy changed since this device last loaded or saved it
+// and merging the two copies left fields that need a manual decision.
+export interface SyncConflict {
+  serverRevision: string | null;
+  conflicts: MergeConflict[];
+}
+
+// A server-side point-in-time copy of the stored data (see /api/backups).
+export interface BackupSnapshot {
+  id: string;
+  createdAt: string;
+  reason: 'daily' | 'pre-import' | 'pre-restore' | 'manual';
+  revision: string;
+  listCount: number;
+  itemCount: number;
+}
+
+// 'pending' means local edits are waiting in the outbox for the backend to become reachable.
+export type SyncStatus = 'synced' | 'pending' | 'error';